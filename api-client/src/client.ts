@@ -0,0 +1,277 @@
+import { ApiError, isAbortError } from './errors';
+import type * as Api from './types';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+type QueryValue = string | number | boolean | Date | null | undefined;
+
+export interface ApiClientOptions {
+  // Origin of the API server, e.g. http://localhost:3001. Read once when the client is created.
+  baseUrl: string;
+  // Attempts after the first for idempotent requests (GET, PUT, DELETE). Defaults to 2.
+  retries?: number;
+  // Delay before the first retry; doubles on each further attempt. Defaults to 300ms.
+  retryDelayMs?: number;
+  // Called when the server rejects the session, e.g. to send the user to the login page
+  onUnauthorized?: () => void;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  query?: object;
+  body?: unknown;
+  signal?: AbortSignal;
+  // Overrides the client's retry count; POST and PATCH are only retried when this is set
+  retries?: number;
+}
+
+// Gateway statuses worth another attempt when a proxy in front of the API sent them: the
+// request may not have reached the API at all
+const GATEWAY_STATUSES = new Set([502, 503, 504]);
+
+const IDEMPOTENT_METHODS = new Set<HttpMethod>(['GET', 'PUT', 'DELETE']);
+
+// Wait before a retry, giving up early when the request is cancelled
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const toQueryString = (query: object = {}) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query) as [string, QueryValue][]) {
+    if (value === undefined || value === null || value === '') continue;
+    params.set(key, value instanceof Date ? value.toISOString() : String(value));
+  }
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+const readErrorBody = async (response: Response): Promise<Api.ApiErrorBody | null> => {
+  try {
+    const body = await response.json();
+    return body && typeof body.error === 'string' ? body : null;
+  } catch {
+    return null;
+  }
+};
+
+// The API itself answers 502 and 504 when a target database fails (a bad password, an
+// unreachable host), which another attempt won't fix and may count against the database's
+// connection error limit. Those come in the API's { error } envelope; a proxy's do not.
+// The API never answers 503 for a target database, so that status is retried either way.
+const isRetryable = async (response: Response) =>
+  GATEWAY_STATUSES.has(response.status) &&
+  (response.status === 503 || (await readErrorBody(response.clone())) === null);
+
+export function createApiClient(options: ApiClientOptions) {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+  const defaultRetries = options.retries ?? 2;
+  const retryDelayMs = options.retryDelayMs ?? 300;
+
+  const url = (path: string, query?: object) => `${baseUrl}${path}${toQueryString(query)}`;
+
+  async function send(method: HttpMethod, path: string, request: RequestOptions) {
+    const retries = request.retries ?? (IDEMPOTENT_METHODS.has(method) ? defaultRetries : 0);
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetchImpl(url(path, request.query), {
+          method,
+          credentials: 'include',
+          signal: request.signal,
+          ...(request.body !== undefined && {
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(request.body),
+          }),
+        });
+      } catch (error) {
+        if (isAbortError(error) || request.signal?.aborted) throw error;
+        if (attempt >= retries) {
+          throw new ApiError(0, null, 'Could not reach the server');
+        }
+        await sleep(retryDelayMs * 2 ** attempt, request.signal);
+        continue;
+      }
+
+      if (attempt < retries && (await isRetryable(response))) {
+        await sleep(retryDelayMs * 2 ** attempt, request.signal);
+        continue;
+      }
+
+      return response;
+    }
+  }
+
+  // Send a request and return the parsed JSON body. Error statuses throw an ApiError.
+  async function request<T>(
+    method: HttpMethod,
+    path: string,
+    request: RequestOptions = {}
+  ): Promise<T> {
+    const response = await send(method, path, request);
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        options.onUnauthorized?.();
+      }
+      throw new ApiError(
+        response.status,
+        await readErrorBody(response),
+        `Request failed with status ${response.status}`
+      );
+    }
+
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+
+  const get = <T>(path: string, opts?: RequestOptions) => request<T>('GET', path, opts);
+  const post = <T>(path: string, body?: unknown, opts?: RequestOptions) =>
+    request<T>('POST', path, { ...opts, body });
+  const put = <T>(path: string, body?: unknown, opts?: RequestOptions) =>
+    request<T>('PUT', path, { ...opts, body });
+  const patch = <T>(path: string, body?: unknown, opts?: RequestOptions) =>
+    request<T>('PATCH', path, { ...opts, body });
+  const del = <T>(path: string, opts?: RequestOptions) => request<T>('DELETE', path, opts);
+
+  type Opts = Omit<RequestOptions, 'query' | 'body'>;
+  type Data<T> = Promise<Api.DataResponse<T>>;
+  type Page<T> = Promise<Api.PaginatedResponse<T>>;
+
+  return {
+    url,
+    request,
+    get,
+    post,
+    put,
+    patch,
+    delete: del,
+
+    auth: {
+      me: (opts?: Opts) => get<Api.DataResponse<Api.AuthUser>>('/api/auth/me', opts),
+      login: (body: Api.LoginRequest, opts?: Opts): Data<Api.AuthUser> =>
+        post('/api/auth/login', body, opts),
+      logout: (opts?: Opts) => post<void>('/api/auth/logout', undefined, opts),
+    },
+
+    connections: {
+      first: (opts?: Opts): Data<Api.Connection> => get('/api/connection', opts),
+      list: (query?: Api.ConnectionsQuery, opts?: Opts): Page<Api.ConnectionWithRole> =>
+        get('/api/connections', { ...opts, query }),
+      get: (id: number, opts?: Opts): Data<Api.ConnectionWithRole> => get(`/api/connections/${id}`, opts),
+      create: (body: Api.CreateConnectionRequest, opts?: Opts): Data<Api.Connection> =>
+        post('/api/connections', body, opts),
+      update: (id: number, body: Api.UpdateConnectionRequest, opts?: Opts): Data<Api.Connection> =>
+        patch(`/api/connections/${id}`, body, opts),
+      delete: (id: number, opts?: Opts): Data<Api.Connection> =>
+        del(`/api/connections/${id}`, opts),
+      import: (body: Api.ImportConnectionsRequest, opts?: Opts): Data<Api.ImportedConnection[]> =>
+        post('/api/connections/import', body, opts),
+      url: (id: number, query?: Api.ConnectionUrlQuery, opts?: Opts): Data<Api.ConnectionUrl> =>
+        get(`/api/connections/${id}/url`, { ...opts, query }),
+      testUnsaved: (
+        body: Api.TestUnsavedConnectionRequest,
+        opts?: Opts
+      ): Data<Api.ConnectionTestResult> => post('/api/connections/test', body, opts),
+      test: (
+        id: number,
+        body: Api.TestConnectionRequest = {},
+        opts?: Opts
+      ): Data<Api.ConnectionTestResponse> => post(`/api/connections/${id}/test`, body, opts),
+      checks: (
+        id: number,
+        query?: Api.ConnectionChecksQuery,
+        opts?: Opts
+      ): Promise<Api.ConnectionChecksResponse> =>
+        get(`/api/connections/${id}/checks`, { ...opts, query }),
+      schema: (id: number, opts?: Opts): Promise<Api.ConnectionSchemaResponse> =>
+        get(`/api/connections/${id}/schema`, opts),
+      refreshSchema: (id: number, opts?: Opts): Promise<Api.ConnectionSchemaResponse> =>
+        post(`/api/connections/${id}/schema/refresh`, undefined, opts),
+      previewTable: (id: number, table: string, opts?: Opts): Data<Api.QueryResult> =>
+        get(`/api/connections/${id}/schema/tables/${encodeURIComponent(table)}/rows`, opts),
+      query: (id: number, body: Api.RunQueryRequest, opts?: Opts): Data<Api.QueryResult> =>
+        post(`/api/connections/${id}/query`, body, opts),
+      grants: (id: number, opts?: Opts): Data<Api.ConnectionGrant[]> =>
+        get(`/api/connections/${id}/grants`, opts),
+      setGrant: (
+        id: number,
+        userId: number,
+        body: Api.ConnectionGrantRequest,
+        opts?: Opts
+      ): Data<Api.ConnectionGrant> => put(`/api/connections/${id}/grants/${userId}`, body, opts),
+      deleteGrant: (id: number, userId: number, opts?: Opts) =>
+        del<void>(`/api/connections/${id}/grants/${userId}`, opts),
+    },
+
+    savedQueries: {
+      list: (query?: Api.SavedQueriesQuery, opts?: Opts): Page<Api.SavedQuery> =>
+        get('/api/saved-queries', { ...opts, query }),
+      tags: (opts?: Opts): Data<string[]> => get('/api/saved-queries/tags', opts),
+      get: (id: number, opts?: Opts): Data<Api.SavedQuery> => get(`/api/saved-queries/${id}`, opts),
+      create: (body: Api.CreateSavedQueryRequest, opts?: Opts): Data<Api.SavedQuery> =>
+        post('/api/saved-queries', body, opts),
+      update: (id: number, body: Api.UpdateSavedQueryRequest, opts?: Opts): Data<Api.SavedQuery> =>
+        patch(`/api/saved-queries/${id}`, body, opts),
+      delete: (id: number, opts?: Opts): Data<Api.SavedQuery> =>
+        del(`/api/saved-queries/${id}`, opts),
+      run: (id: number, body: Api.RunSavedQueryRequest = {}, opts?: Opts): Data<Api.QueryResult> =>
+        post(`/api/saved-queries/${id}/run`, body, opts),
+    },
+
+    queryHistory: {
+      list: (query?: Api.QueryHistoryQuery, opts?: Opts): Page<Api.QueryHistoryEntry> =>
+        get('/api/query-history', { ...opts, query }),
+    },
+
+    charts: {
+      list: (query?: Api.ChartsQuery, opts?: Opts): Page<Api.Chart> =>
+        get('/api/charts', { ...opts, query }),
+      get: (id: number, opts?: Opts): Data<Api.Chart> => get(`/api/charts/${id}`, opts),
+      create: (body: Api.CreateChartRequest, opts?: Opts): Data<Api.Chart> =>
+        post('/api/charts', body, opts),
+      update: (id: number, body: Api.UpdateChartRequest, opts?: Opts): Data<Api.Chart> =>
+        patch(`/api/charts/${id}`, body, opts),
+      delete: (id: number, opts?: Opts): Data<Api.Chart> => del(`/api/charts/${id}`, opts),
+    },
+
+    dashboards: {
+      list: (query?: Api.PaginationQuery, opts?: Opts): Page<Api.DashboardSummary> =>
+        get('/api/dashboards', { ...opts, query }),
+      get: (id: number, opts?: Opts): Data<Api.Dashboard> => get(`/api/dashboards/${id}`, opts),
+      create: (body: Api.CreateDashboardRequest, opts?: Opts): Data<Api.Dashboard> =>
+        post('/api/dashboards', body, opts),
+      update: (id: number, body: Api.UpdateDashboardRequest, opts?: Opts): Data<Api.Dashboard> =>
+        patch(`/api/dashboards/${id}`, body, opts),
+      setWidgets: (
+        id: number,
+        body: Api.DashboardWidgetsRequest,
+        opts?: Opts
+      ): Data<Api.Dashboard> => put(`/api/dashboards/${id}/widgets`, body, opts),
+      delete: (id: number, opts?: Opts): Data<Api.Dashboard> => del(`/api/dashboards/${id}`, opts),
+    },
+
+    audit: {
+      list: (query?: Api.AuditQuery, opts?: Opts): Page<Api.AuditEvent> =>
+        get('/api/audit', { ...opts, query }),
+      // For a download link; the export streams CSV rather than JSON
+      exportUrl: (query?: Api.AuditExportQuery) => url('/api/audit/export', query),
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
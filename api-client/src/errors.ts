@@ -0,0 +1,30 @@
+import type { ApiErrorBody } from './types';
+
+// A request the server answered with an error status, or that never got an answer
+// (status 0). `error`, `errorId` and `details` come from the error body.
+export class ApiError extends Error {
+  readonly status: number;
+  readonly error: string;
+  readonly errorId?: string;
+  readonly details: { field: string; message: string }[];
+  readonly body: ApiErrorBody | null;
+
+  constructor(status: number, body: ApiErrorBody | null, fallbackMessage: string) {
+    super(body?.message ?? body?.error ?? fallbackMessage);
+    this.name = 'ApiError';
+    this.status = status;
+    this.error = body?.error ?? fallbackMessage;
+    this.errorId = body?.errorId;
+    this.details = body?.details ?? [];
+    this.body = body;
+  }
+
+  // Validation messages by field, e.g. for showing them next to form inputs
+  get fieldErrors(): Record<string, string> {
+    return Object.fromEntries(this.details.map(({ field, message }) => [field, message]));
+  }
+}
+
+// Requests cancelled through their AbortSignal reject with an AbortError
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
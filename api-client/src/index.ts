@@ -0,0 +1,8 @@
+export {
+  createApiClient,
+  type ApiClient,
+  type ApiClientOptions,
+  type RequestOptions,
+} from './client';
+export { ApiError, isAbortError } from './errors';
+export type * from './types';
@@ -0,0 +1,251 @@
+import type { z } from 'zod';
+import type { Result } from '@prisma/client/runtime/library';
+import type prisma from '../../server/lib/prisma';
+import type { AuditAction } from '../../server/lib/auditActions';
+import type { GrantRole, Role } from '../../server/lib/roles';
+import type { ConnectionTestResult } from '../../server/lib/connectionTester';
+import type { EncryptedCredentialFields, PublicCredentialFlags } from '../../server/lib/credentials';
+import type { ColumnKind, DriverName } from '../../server/lib/drivers/types';
+import type { QueryResult } from '../../server/lib/queryRunner';
+import type { DatabaseSchema } from '../../server/lib/schemaIntrospector';
+import type { SslMode } from '../../server/lib/targetDatabase';
+import type { auditQuerySchema, auditExportQuerySchema } from '../../server/schemas/audit';
+import type { loginSchema } from '../../server/schemas/auth';
+import type {
+  chartConfigSchema,
+  chartTypeSchema,
+  chartsQuerySchema,
+  createChartSchema,
+  updateChartSchema,
+} from '../../server/schemas/charts';
+import type { paginationSchema } from '../../server/schemas/common';
+import type {
+  connectionChecksQuerySchema,
+  connectionGrantSchema,
+  connectionUrlQuerySchema,
+  connectionsQuerySchema,
+  createConnectionSchema,
+  importConnectionsSchema,
+  testConnectionSchema,
+  testUnsavedConnectionSchema,
+  updateConnectionSchema,
+} from '../../server/schemas/connections';
+import type {
+  createDashboardSchema,
+  dashboardFieldsSchema,
+  dashboardWidgetsSchema,
+  kpiConfigSchema,
+  updateDashboardSchema,
+} from '../../server/schemas/dashboards';
+import type {
+  createSavedQuerySchema,
+  queryHistoryQuerySchema,
+  runQuerySchema,
+  runSavedQuerySchema,
+  savedQueriesQuerySchema,
+  updateSavedQuerySchema,
+} from '../../server/schemas/queries';
+
+export type {
+  AuditAction,
+  ColumnKind,
+  ConnectionTestResult,
+  DatabaseSchema,
+  DriverName,
+  GrantRole,
+  QueryResult,
+  Role,
+  SslMode,
+};
+
+// What a value looks like after JSON.stringify: dates become ISO strings
+export type Jsonify<T> = T extends Date
+  ? string
+  : T extends (infer Item)[]
+    ? Jsonify<Item>[]
+    : T extends object
+      ? { [K in keyof T]: Jsonify<T[K]> }
+      : T;
+
+type Db = typeof prisma;
+
+// A row of a Prisma model as the API sends it, with the relations selected by `Args`.
+// Before `prisma generate` has run the client is typed as any, and so are its rows.
+type Row<Model extends keyof Db, Args = object> = 0 extends 1 & Db
+  ? any
+  : Jsonify<Result<Db[Model], Args, 'findFirstOrThrow'>>;
+
+// A row with some columns retyped, e.g. string columns narrowed to the values the schemas
+// accept. Stays any while rows are.
+type Override<T, Fields> = 0 extends 1 & T ? any : Omit<T, keyof Fields> & Fields;
+
+// Request bodies are typed as clients send them, before defaults are applied
+type Body<Schema extends z.ZodType> = z.input<Schema>;
+
+// Query strings are typed after parsing, so numbers, booleans and dates can be passed as
+// such; the client turns them into strings
+type Query<Schema extends z.ZodType> = Partial<z.output<Schema>>;
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface DataResponse<T> {
+  data: T;
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  pagination: Pagination;
+}
+
+export type PaginationQuery = Query<typeof paginationSchema>;
+
+// Error bodies; see the Error schema in /api/openapi.json
+export interface ApiErrorBody {
+  error: string;
+  errorId?: string;
+  message?: string;
+  details?: { field: string; message: string }[];
+  [key: string]: unknown;
+}
+
+// Auth
+export type LoginRequest = Body<typeof loginSchema>;
+
+export type AuthUser = Pick<Row<'user'>, 'id' | 'email' | 'name'> & { role: Role };
+
+// Connections. Encrypted secrets never leave the server; only their presence does.
+export type Connection = Override<
+  Omit<Row<'connection'>, keyof EncryptedCredentialFields>,
+  { driver: DriverName; sslMode: SslMode }
+> &
+  PublicCredentialFlags;
+
+// As listed or fetched by id: with the caller's effective role, from their account role and grant
+export type ConnectionWithRole = Connection & { role: Role };
+
+export type ConnectionsQuery = Query<typeof connectionsQuerySchema>;
+export type CreateConnectionRequest = Body<typeof createConnectionSchema>;
+export type UpdateConnectionRequest = Body<typeof updateConnectionSchema>;
+export type TestConnectionRequest = Body<typeof testConnectionSchema>;
+export type TestUnsavedConnectionRequest = Body<typeof testUnsavedConnectionSchema>;
+export type ConnectionChecksQuery = Query<typeof connectionChecksQuerySchema>;
+export type ImportConnectionsRequest = Body<typeof importConnectionsSchema>;
+export type ConnectionUrlQuery = Query<typeof connectionUrlQuerySchema>;
+
+export interface ImportedConnection {
+  connection: Connection;
+  // URL options with no matching connection setting, e.g. charset
+  ignoredOptions: string[];
+}
+
+export interface ConnectionUrl {
+  url: string;
+  // Whether credentials were replaced with ****
+  masked: boolean;
+}
+
+export type ConnectionCheck = Override<Row<'connectionCheck'>, { outcome: 'success' | 'failure' }>;
+
+export interface ConnectionChecksResponse extends PaginatedResponse<ConnectionCheck> {
+  summary: {
+    total: number;
+    successful: number;
+    failed: number;
+    uptimePercentage: number | null;
+    averageLatencyMs: number | null;
+  };
+}
+
+export interface ConnectionTestResponse {
+  result: ConnectionTestResult;
+  connection: Connection;
+}
+
+export interface ConnectionSchemaResponse extends DataResponse<DatabaseSchema> {
+  cached: boolean;
+}
+
+export type RunQueryRequest = Body<typeof runQuerySchema>;
+
+export type ConnectionGrant = Override<Row<'connectionGrant'>, { role: GrantRole; user: AuthUser }>;
+
+export type ConnectionGrantRequest = Body<typeof connectionGrantSchema>;
+
+// Saved queries and history
+export type SavedQuery = Override<Row<'savedQuery'>, { tags: string[] }>;
+
+export type SavedQueriesQuery = Query<typeof savedQueriesQuerySchema>;
+export type CreateSavedQueryRequest = Body<typeof createSavedQuerySchema>;
+export type UpdateSavedQueryRequest = Body<typeof updateSavedQuerySchema>;
+export type RunSavedQueryRequest = Body<typeof runSavedQuerySchema>;
+
+export type QueryHistoryEntry = Row<'queryHistory'>;
+export type QueryHistoryQuery = Query<typeof queryHistoryQuerySchema>;
+
+// Charts. Columns stored as strings or JSON are narrowed to what the schemas accept.
+export type ChartType = z.output<typeof chartTypeSchema>;
+export type ChartConfig = z.output<typeof chartConfigSchema>;
+
+// The saved query a chart or KPI reads from, as embedded in their responses
+export type SavedQueryRef = Pick<Row<'savedQuery'>, 'id' | 'name' | 'connectionId'>;
+
+export type ChartDefinition = Override<Row<'chart'>, { type: ChartType; config: ChartConfig }>;
+
+export type Chart = ChartDefinition & { savedQuery: SavedQueryRef };
+
+export type ChartsQuery = Query<typeof chartsQuerySchema>;
+export type CreateChartRequest = Body<typeof createChartSchema>;
+export type UpdateChartRequest = Body<typeof updateChartSchema>;
+
+// Dashboards
+export type DateRangePreset = z.output<typeof dashboardFieldsSchema>['dateRangePreset'];
+export type KpiConfig = z.output<typeof kpiConfigSchema>;
+
+type DashboardRow<Args = object> = Override<
+  Row<'dashboard', Args>,
+  { dateRangePreset: DateRangePreset }
+>;
+
+export type DashboardSummary = DashboardRow<{
+  include: { _count: { select: { widgets: true } } };
+}>;
+
+// Chart widgets reference a chart and KPI widgets a saved query, never both (see
+// dashboardWidgetSchema)
+export type DashboardWidget = Override<
+  Row<'dashboardWidget'>,
+  | {
+      kind: 'chart';
+      title: string | null;
+      chartId: number;
+      chart: ChartDefinition;
+      savedQueryId: null;
+      savedQuery: null;
+      config: null;
+    }
+  | {
+      kind: 'kpi';
+      title: string;
+      chartId: null;
+      chart: null;
+      savedQueryId: number;
+      savedQuery: SavedQueryRef;
+      config: KpiConfig;
+    }
+>;
+
+export type Dashboard = DashboardRow & { widgets: DashboardWidget[] };
+
+export type CreateDashboardRequest = Body<typeof createDashboardSchema>;
+export type UpdateDashboardRequest = Body<typeof updateDashboardSchema>;
+export type DashboardWidgetsRequest = Body<typeof dashboardWidgetsSchema>;
+
+// Audit log
+export type AuditEvent = Override<Row<'auditEvent'>, { action: AuditAction }>;
+export type AuditQuery = Query<typeof auditQuerySchema>;
+export type AuditExportQuery = Query<typeof auditExportQuerySchema>;
@@ -1,11 +1,24 @@
-import { Routes, Route } from 'react-router-dom';
-import { Cube } from '@phosphor-icons/react';
+import { Routes, Route, Navigate } from 'react-router-dom';
+import { Cube, SignOut } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { Navigation } from '@/components/Navigation';
+import { RequireAuth } from '@/components/RequireAuth';
+import { useAuth } from '@/contexts/AuthContext';
 import { HomePage } from '@/pages/HomePage';
+import { ConnectionsPage } from '@/pages/ConnectionsPage';
 import { ConnectionPage } from '@/pages/ConnectionPage';
+import { ConnectionFormPage } from '@/pages/ConnectionFormPage';
+import { SchemaPage } from '@/pages/SchemaPage';
+import { QueryPage } from '@/pages/QueryPage';
+import { ChartsPage } from '@/pages/ChartsPage';
+import { DashboardsPage } from '@/pages/DashboardsPage';
+import { DashboardPage } from '@/pages/DashboardPage';
+import { LoginPage } from '@/pages/LoginPage';
 
 function App() {
+  const { user, logout } = useAuth();
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -15,17 +28,39 @@ function App() {
             <Cube size={32} weight="duotone" className="text-primary" />
             <h1 className="text-2xl font-bold">Reusable Template</h1>
           </div>
-          <ThemeToggle />
+          <div className="flex items-center gap-2">
+            {user && (
+              <>
+                <span className="hidden text-sm text-muted-foreground sm:inline">{user.email}</span>
+                <Button variant="outline" size="icon" onClick={logout} aria-label="Sign out">
+                  <SignOut />
+                </Button>
+              </>
+            )}
+            <ThemeToggle />
+          </div>
         </div>
       </header>
 
       {/* Navigation Tabs */}
-      <Navigation />
+      {user && <Navigation />}
 
       {/* Main Content */}
       <Routes>
-        <Route path="/" element={<HomePage />} />
-        <Route path="/connection" element={<ConnectionPage />} />
+        <Route path="/login" element={<LoginPage />} />
+        <Route element={<RequireAuth />}>
+          <Route path="/" element={<HomePage />} />
+          <Route path="/connection" element={<Navigate to="/connections" replace />} />
+          <Route path="/connections" element={<ConnectionsPage />} />
+          <Route path="/connections/new" element={<ConnectionFormPage />} />
+          <Route path="/connections/:id" element={<ConnectionPage />} />
+          <Route path="/connections/:id/edit" element={<ConnectionFormPage />} />
+          <Route path="/connections/:id/schema" element={<SchemaPage />} />
+          <Route path="/query" element={<QueryPage />} />
+          <Route path="/charts" element={<ChartsPage />} />
+          <Route path="/dashboards" element={<DashboardsPage />} />
+          <Route path="/dashboards/:id" element={<DashboardPage />} />
+        </Route>
       </Routes>
 
       {/* Footer */}
@@ -0,0 +1,152 @@
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  AreaChart,
+  Area,
+  PieChart,
+  Pie,
+  Cell,
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { chartColor, type ChartPoint, type ChartType } from '@/lib/chartData';
+
+interface ChartRendererProps {
+  type: ChartType;
+  data: ChartPoint[];
+  xKey: string;
+  keys: string[];
+  height?: number;
+}
+
+const axisTick = { fill: 'hsl(var(--muted-foreground))' };
+
+const tooltipProps = {
+  contentStyle: {
+    backgroundColor: 'hsl(var(--card))',
+    border: '1px solid hsl(var(--border))',
+    borderRadius: '0.5rem',
+  },
+  labelStyle: { color: 'hsl(var(--card-foreground))' },
+};
+
+export function ChartRenderer({ type, data, xKey, keys, height = 300 }: ChartRendererProps) {
+  if (data.length === 0 || keys.length === 0) {
+    return (
+      <div
+        className="flex items-center justify-center text-sm text-muted-foreground"
+        style={{ height }}
+      >
+        No data to plot
+      </div>
+    );
+  }
+
+  if (type === 'pie') {
+    return (
+      <ResponsiveContainer width="100%" height={height}>
+        <PieChart>
+          <Tooltip {...tooltipProps} />
+          <Legend />
+          <Pie data={data} dataKey={keys[0]} nameKey={xKey} outerRadius="80%">
+            {data.map((_, index) => (
+              <Cell key={index} fill={chartColor(index)} />
+            ))}
+          </Pie>
+        </PieChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  if (type === 'scatter') {
+    // Numeric X values get a continuous axis; anything else is plotted by category
+    const numericX = data.every((point) => typeof point[xKey] === 'number');
+    return (
+      <ResponsiveContainer width="100%" height={height}>
+        <ScatterChart>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+          <XAxis
+            dataKey={xKey}
+            type={numericX ? 'number' : 'category'}
+            allowDuplicatedCategory={false}
+            className="text-xs"
+            tick={axisTick}
+          />
+          <YAxis type="number" className="text-xs" tick={axisTick} />
+          <Tooltip {...tooltipProps} />
+          <Legend />
+          {keys.map((key, index) => (
+            <Scatter
+              key={key}
+              name={key}
+              data={data.filter((point) => point[key] !== null && point[key] !== undefined)}
+              dataKey={key}
+              fill={chartColor(index)}
+            />
+          ))}
+        </ScatterChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  const axes = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+      <XAxis dataKey={xKey} className="text-xs" tick={axisTick} />
+      <YAxis className="text-xs" tick={axisTick} />
+      <Tooltip {...tooltipProps} />
+      <Legend />
+    </>
+  );
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      {type === 'bar' ? (
+        <BarChart data={data}>
+          {axes}
+          {keys.map((key, index) => (
+            <Bar key={key} dataKey={key} fill={chartColor(index)} />
+          ))}
+        </BarChart>
+      ) : type === 'area' ? (
+        <AreaChart data={data}>
+          {axes}
+          {keys.map((key, index) => (
+            <Area
+              key={key}
+              type="monotone"
+              dataKey={key}
+              stroke={chartColor(index)}
+              fill={chartColor(index)}
+              fillOpacity={0.2}
+              strokeWidth={2}
+            />
+          ))}
+        </AreaChart>
+      ) : (
+        <LineChart data={data}>
+          {axes}
+          {keys.map((key, index) => (
+            <Line
+              key={key}
+              type="monotone"
+              dataKey={key}
+              stroke={chartColor(index)}
+              strokeWidth={2}
+              dot={{ fill: chartColor(index) }}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      )}
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { CheckCircle, CircleNotch, Plugs, XCircle } from '@phosphor-icons/react';
+import type { ConnectionTestResult } from 'api-client';
+import { Button } from '@/components/ui/button';
+import { describeError } from '@/lib/api';
+import { useTestConnection } from '@/lib/queries';
+
+const ERROR_CATEGORY_LABELS: Record<string, string> = {
+  dns: 'Host not found',
+  refused: 'Connection refused',
+  auth: 'Authentication failed',
+  unknown_database: 'Unknown database',
+  timeout: 'Timed out',
+  query: 'Query failed',
+  unknown: 'Connection failed',
+};
+
+// Tests a stored connection and shows the outcome next to the button
+export function ConnectionTestButton({ connectionId }: { connectionId: number }) {
+  const { mutate: test, isPending, error } = useTestConnection();
+  const [result, setResult] = useState<ConnectionTestResult | null>(null);
+
+  const runTest = async () => {
+    setResult(null);
+    try {
+      setResult((await test(connectionId)).data.result);
+    } catch {
+      // Shown through error
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Button variant="outline" size="sm" onClick={runTest} disabled={isPending}>
+        {isPending ? <CircleNotch className="animate-spin" /> : <Plugs />}
+        Test
+      </Button>
+
+      {!isPending && error !== null && (
+        <p className="text-xs text-destructive">{describeError(error, 'Failed to test connection')}</p>
+      )}
+
+      {!isPending && result?.ok === true && (
+        <p className="flex items-center gap-1 text-xs text-green-600 dark:text-green-500">
+          <CheckCircle weight="fill" />
+          Connected in {result.latencyMs} ms · {result.serverVersion}
+          {result.ssl && ' · TLS'}
+        </p>
+      )}
+
+      {!isPending && result?.ok === false && (
+        <div className="text-xs text-destructive">
+          <p className="flex items-center gap-1 font-medium">
+            <XCircle weight="fill" />
+            {ERROR_CATEGORY_LABELS[result.error.category] ?? result.error.category} after {result.latencyMs} ms
+            {result.error.code && <span className="font-mono font-normal">({result.error.code})</span>}
+          </p>
+          <p className="break-words">{result.error.message}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useRef, type PointerEvent } from 'react';
+import {
+  ArrowLeft,
+  ArrowRight,
+  ArrowsOutSimple,
+  CircleNotch,
+  Trash,
+  Warning,
+} from '@phosphor-icons/react';
+import type { ChartDefinition, KpiConfig, SavedQueryRef } from 'api-client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartRenderer } from '@/components/ChartRenderer';
+import { cn, formatDecimal } from '@/lib/utils';
+import { aggregateColumn, buildChartData } from '@/lib/chartData';
+import { describeError } from '@/lib/api';
+import { useSavedQueryResult } from '@/lib/queries';
+
+export type DashboardWidgetData =
+  | {
+      kind: 'chart';
+      chartId: number;
+      chart?: ChartDefinition;
+      title: string | null;
+      width: number;
+      height: number;
+    }
+  | {
+      kind: 'kpi';
+      savedQueryId: number;
+      savedQuery?: SavedQueryRef;
+      title: string;
+      config: KpiConfig;
+      width: number;
+      height: number;
+    };
+
+interface DashboardWidgetProps {
+  widget: DashboardWidgetData;
+  parameters: Record<string, string | null>;
+  // Changing this re-runs the widget's query
+  refreshToken: number;
+  editing?: boolean;
+  onResize?: (width: number, height: number) => void;
+  onMove?: (offset: -1 | 1) => void;
+  onRemove?: () => void;
+}
+
+// Grid geometry shared with the dashboard page
+export const WIDGET_ROW_HEIGHT = 160;
+export const WIDGET_GAP = 24;
+export const MAX_WIDGET_SIZE = 4;
+
+// Static class names so Tailwind keeps them; small screens stack widgets
+const columnSpans: Record<number, string> = {
+  1: 'lg:col-span-1',
+  2: 'md:col-span-2 lg:col-span-2',
+  3: 'md:col-span-2 lg:col-span-3',
+  4: 'md:col-span-2 lg:col-span-4',
+};
+
+const clampSize = (value: number) => Math.min(MAX_WIDGET_SIZE, Math.max(1, value));
+
+export function DashboardWidget({
+  widget,
+  parameters,
+  refreshToken,
+  editing = false,
+  onResize,
+  onMove,
+  onRemove,
+}: DashboardWidgetProps) {
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  const savedQueryId = widget.kind === 'chart' ? widget.chart?.savedQueryId : widget.savedQueryId;
+  const { data, error, isLoading, isFetching, refetch } = useSavedQueryResult(
+    savedQueryId ?? 0,
+    parameters,
+    { enabled: savedQueryId !== undefined }
+  );
+  const result = data?.data ?? null;
+
+  // A refresh re-runs the query even when the parameters come out the same
+  const lastRefreshToken = useRef(refreshToken);
+  useEffect(() => {
+    if (lastRefreshToken.current === refreshToken) return;
+    lastRefreshToken.current = refreshToken;
+    if (savedQueryId !== undefined) refetch().catch(() => {});
+  }, [refreshToken, refetch, savedQueryId]);
+
+  // Drag the corner handle to resize in whole grid cells
+  const startResize = (event: PointerEvent<HTMLButtonElement>) => {
+    const card = cardRef.current;
+    if (!card || !onResize) return;
+    event.preventDefault();
+
+    const startX = event.clientX;
+    const startY = event.clientY;
+    const columnWidth = (card.offsetWidth - (widget.width - 1) * WIDGET_GAP) / widget.width;
+
+    const handleMove = (moveEvent: globalThis.PointerEvent) => {
+      const columns = Math.round((moveEvent.clientX - startX) / (columnWidth + WIDGET_GAP));
+      const rows = Math.round((moveEvent.clientY - startY) / (WIDGET_ROW_HEIGHT + WIDGET_GAP));
+      onResize(clampSize(widget.width + columns), clampSize(widget.height + rows));
+    };
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  const title =
+    widget.kind === 'chart' ? widget.title || widget.chart?.name || 'Chart' : widget.title;
+  const bodyHeight = widget.height * WIDGET_ROW_HEIGHT + (widget.height - 1) * WIDGET_GAP - 96;
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="flex h-full items-center justify-center text-muted-foreground">
+          <CircleNotch size={24} className="animate-spin" />
+        </div>
+      );
+    }
+
+    if (error !== undefined) {
+      return (
+        <div className="flex items-start gap-2 text-sm text-destructive">
+          <Warning size={16} weight="fill" className="mt-0.5 shrink-0" />
+          <span>{describeError(error, 'Query failed')}</span>
+        </div>
+      );
+    }
+
+    if (!result) return null;
+
+    if (widget.kind === 'kpi') {
+      const value = aggregateColumn(
+        result.columns,
+        result.rows,
+        widget.config.valueColumn,
+        widget.config.aggregation
+      );
+      return (
+        <p className="text-4xl font-bold tabular-nums">
+          {value === null
+            ? '—'
+            : `${widget.config.prefix}${formatDecimal(value, widget.config.decimals)}${widget.config.suffix}`}
+        </p>
+      );
+    }
+
+    if (!widget.chart) return null;
+    const { data, keys } = buildChartData(result.columns, result.rows, widget.chart.config);
+    return (
+      <ChartRenderer
+        type={widget.chart.type}
+        data={data}
+        xKey={widget.chart.config.xColumn}
+        keys={keys}
+        height={Math.max(bodyHeight, 80)}
+      />
+    );
+  };
+
+  return (
+    <Card
+      ref={cardRef}
+      className={cn('relative flex flex-col overflow-hidden', columnSpans[widget.width])}
+      style={{ gridRow: `span ${widget.height} / span ${widget.height}` }}
+    >
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className={cn('truncate', widget.kind === 'kpi' && 'text-sm font-medium')}>
+          {title}
+        </CardTitle>
+        <div className="flex items-center gap-1">
+          {isFetching && result && (
+            <CircleNotch size={14} className="animate-spin text-muted-foreground" />
+          )}
+          {editing && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onMove?.(-1)}
+                aria-label="Move earlier"
+              >
+                <ArrowLeft />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onMove?.(1)}
+                aria-label="Move later"
+              >
+                <ArrowRight />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={onRemove}
+                aria-label={`Remove ${title}`}
+              >
+                <Trash />
+              </Button>
+            </>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="min-h-0 flex-1">{renderBody()}</CardContent>
+      {editing && (
+        <button
+          type="button"
+          onPointerDown={startResize}
+          className="absolute bottom-1 right-1 cursor-nwse-resize touch-none rounded p-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+          aria-label="Drag to resize"
+        >
+          <ArrowsOutSimple size={14} />
+        </button>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+import { useMemo, useRef, useState } from 'react';
+import { DownloadSimple, MagnifyingGlassMinus, MagnifyingGlassPlus } from '@phosphor-icons/react';
+import type { DatabaseSchema } from 'api-client';
+import { Button } from '@/components/ui/button';
+import {
+  HEADER_HEIGHT,
+  NODE_WIDTH,
+  ROW_HEIGHT,
+  edgePath,
+  exportPng,
+  exportSvg,
+  layoutDiagram,
+} from '@/lib/erDiagram';
+
+// Fixed colors rather than theme classes, so exported files look like the page
+const COLORS = {
+  background: '#ffffff',
+  box: '#ffffff',
+  header: '#f1f5f9',
+  border: '#cbd5e1',
+  selected: '#2563eb',
+  text: '#0f172a',
+  muted: '#64748b',
+  key: '#b45309',
+  edge: '#94a3b8',
+};
+
+const FONT = 'Inter, ui-sans-serif, system-ui, sans-serif';
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5];
+
+interface ErDiagramProps {
+  schema: DatabaseSchema;
+  selectedTable: string | null;
+  onSelectTable: (name: string) => void;
+  // Base name of exported files
+  filename: string;
+}
+
+// Tables and the foreign keys between them. Views are left out; they have no keys.
+export function ErDiagram({ schema, selectedTable, onSelectTable, filename }: ErDiagramProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [zoom, setZoom] = useState(1);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const layout = useMemo(
+    () => layoutDiagram(schema.tables.filter((table) => table.type === 'table')),
+    [schema]
+  );
+
+  const savePng = async () => {
+    if (!svgRef.current) return;
+    setExportError(null);
+    try {
+      await exportPng(svgRef.current, `${filename}.png`);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Failed to export PNG');
+    }
+  };
+
+  if (layout.nodes.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">This database has no tables</p>;
+  }
+
+  const zoomIndex = ZOOM_STEPS.indexOf(zoom);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setZoom(ZOOM_STEPS[zoomIndex - 1]!)}
+            disabled={zoomIndex === 0}
+            aria-label="Zoom out"
+          >
+            <MagnifyingGlassMinus />
+          </Button>
+          <span className="w-14 text-center text-sm text-muted-foreground">{Math.round(zoom * 100)}%</span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setZoom(ZOOM_STEPS[zoomIndex + 1]!)}
+            disabled={zoomIndex === ZOOM_STEPS.length - 1}
+            aria-label="Zoom in"
+          >
+            <MagnifyingGlassPlus />
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => svgRef.current && exportSvg(svgRef.current, `${filename}.svg`)}
+          >
+            <DownloadSimple />
+            SVG
+          </Button>
+          <Button variant="outline" size="sm" onClick={savePng}>
+            <DownloadSimple />
+            PNG
+          </Button>
+        </div>
+      </div>
+
+      {exportError && <p className="text-sm text-destructive">{exportError}</p>}
+
+      <div className="max-h-[70vh] overflow-auto rounded-lg border">
+        <svg
+          ref={svgRef}
+          width={layout.width}
+          height={layout.height}
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          style={{ width: layout.width * zoom, height: layout.height * zoom }}
+          fontFamily={FONT}
+          fontSize={12}
+        >
+          <rect width={layout.width} height={layout.height} fill={COLORS.background} />
+
+          <defs>
+            <marker
+              id="er-arrow"
+              viewBox="0 0 10 10"
+              refX="9"
+              refY="5"
+              markerWidth="8"
+              markerHeight="8"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={COLORS.edge} />
+            </marker>
+          </defs>
+
+          {layout.edges.map((edge) => (
+            <path
+              key={edge.id}
+              d={edgePath(edge)}
+              fill="none"
+              stroke={COLORS.edge}
+              strokeWidth={1.5}
+              markerEnd="url(#er-arrow)"
+            >
+              <title>{edge.id}</title>
+            </path>
+          ))}
+
+          {layout.nodes.map((node) => {
+            const selected = node.table.name === selectedTable;
+            const primary = new Set(
+              node.table.indexes.filter((index) => index.primary).flatMap((index) => index.columns)
+            );
+            const foreign = new Set(node.table.foreignKeys.flatMap((foreignKey) => foreignKey.columns));
+            const columnTypes = new Map(node.table.columns.map((column) => [column.name, column.columnType]));
+
+            return (
+              <g
+                key={node.table.name}
+                transform={`translate(${node.x} ${node.y})`}
+                onClick={() => onSelectTable(node.table.name)}
+                style={{ cursor: 'pointer' }}
+              >
+                <rect
+                  width={NODE_WIDTH}
+                  height={node.height}
+                  rx={6}
+                  fill={COLORS.box}
+                  stroke={selected ? COLORS.selected : COLORS.border}
+                  strokeWidth={selected ? 2 : 1}
+                />
+                <path
+                  d={`M 0 6 A 6 6 0 0 1 6 0 H ${NODE_WIDTH - 6} A 6 6 0 0 1 ${NODE_WIDTH} 6 V ${HEADER_HEIGHT} H 0 Z`}
+                  fill={COLORS.header}
+                />
+                <line x1={0} y1={HEADER_HEIGHT} x2={NODE_WIDTH} y2={HEADER_HEIGHT} stroke={COLORS.border} />
+                <text x={12} y={HEADER_HEIGHT / 2 + 4} fontWeight={600} fill={COLORS.text}>
+                  {node.table.name}
+                </text>
+
+                {node.columns.map((column, index) => {
+                  const y = HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2 + 4;
+                  const marker = primary.has(column) ? 'PK' : foreign.has(column) ? 'FK' : '';
+                  return (
+                    <g key={column}>
+                      <text x={12} y={y} fontSize={9} fontWeight={600} fill={COLORS.key}>
+                        {marker}
+                      </text>
+                      <text x={34} y={y} fill={COLORS.text}>
+                        {column}
+                      </text>
+                      <text x={NODE_WIDTH - 12} y={y} textAnchor="end" fill={COLORS.muted}>
+                        {columnTypes.get(column)}
+                      </text>
+                    </g>
+                  );
+                })}
+
+                {node.hiddenColumns > 0 && (
+                  <text
+                    x={34}
+                    y={HEADER_HEIGHT + node.columns.length * ROW_HEIGHT + ROW_HEIGHT / 2 + 4}
+                    fill={COLORS.muted}
+                    fontStyle="italic"
+                  >
+                    … {node.hiddenColumns} more column{node.hiddenColumns === 1 ? '' : 's'}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+}
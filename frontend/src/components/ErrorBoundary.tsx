@@ -7,6 +7,8 @@ interface Props {
   children: ReactNode;
   fallback?: ReactNode;
   onError?: (error: Error, errorInfo: ErrorInfo) => void;
+  // Called by "Try Again" before re-rendering the children
+  onReset?: () => void;
 }
 
 interface State {
@@ -36,6 +38,7 @@ class ErrorBoundary extends Component<Props, State> {
   }
 
   handleReset = () => {
+    this.props.onReset?.();
     this.setState({ hasError: false, error: undefined });
   };
 
@@ -1,5 +1,5 @@
 import { Link, useLocation } from 'react-router-dom';
-import { House, Database } from '@phosphor-icons/react';
+import { House, Database, TerminalWindow, ChartBar, SquaresFour } from '@phosphor-icons/react';
 
 export function Navigation() {
   const location = useLocation();
@@ -25,17 +25,59 @@ export function Navigation() {
           </Link>
           
           <Link
-            to="/connection"
+            to="/connections"
             className={`
               flex items-center gap-2 px-3 py-3 border-b-2 transition-colors
-              ${isActive('/connection') 
+              ${location.pathname.startsWith('/connections') 
                 ? 'border-primary text-foreground font-medium' 
                 : 'border-transparent text-muted-foreground hover:text-foreground hover:border-muted'
               }
             `}
           >
-            <Database size={20} weight={isActive('/connection') ? 'fill' : 'regular'} />
-            <span>Connection</span>
+            <Database size={20} weight={location.pathname.startsWith('/connections') ? 'fill' : 'regular'} />
+            <span>Connections</span>
+          </Link>
+
+          <Link
+            to="/query"
+            className={`
+              flex items-center gap-2 px-3 py-3 border-b-2 transition-colors
+              ${isActive('/query') 
+                ? 'border-primary text-foreground font-medium' 
+                : 'border-transparent text-muted-foreground hover:text-foreground hover:border-muted'
+              }
+            `}
+          >
+            <TerminalWindow size={20} weight={isActive('/query') ? 'fill' : 'regular'} />
+            <span>Query</span>
+          </Link>
+
+          <Link
+            to="/charts"
+            className={`
+              flex items-center gap-2 px-3 py-3 border-b-2 transition-colors
+              ${isActive('/charts') 
+                ? 'border-primary text-foreground font-medium' 
+                : 'border-transparent text-muted-foreground hover:text-foreground hover:border-muted'
+              }
+            `}
+          >
+            <ChartBar size={20} weight={isActive('/charts') ? 'fill' : 'regular'} />
+            <span>Charts</span>
+          </Link>
+
+          <Link
+            to="/dashboards"
+            className={`
+              flex items-center gap-2 px-3 py-3 border-b-2 transition-colors
+              ${location.pathname.startsWith('/dashboards') 
+                ? 'border-primary text-foreground font-medium' 
+                : 'border-transparent text-muted-foreground hover:text-foreground hover:border-muted'
+              }
+            `}
+          >
+            <SquaresFour size={20} weight={location.pathname.startsWith('/dashboards') ? 'fill' : 'regular'} />
+            <span>Dashboards</span>
           </Link>
         </div>
       </div>
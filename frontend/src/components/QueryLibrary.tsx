@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react';
+import { BookmarkSimple, ClockCounterClockwise, CircleNotch, Trash } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { describeError } from '@/lib/api';
+import {
+  useDeleteSavedQuery,
+  useQueryHistory,
+  useSavedQueries,
+  useSavedQueryTags,
+} from '@/lib/queries';
+
+interface QueryLibraryProps {
+  onSelect: (sql: string, connectionId: number | null) => void;
+}
+
+type Tab = 'saved' | 'history';
+
+export function QueryLibrary({ onSelect }: QueryLibraryProps) {
+  const [tab, setTab] = useState<Tab>('saved');
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [tag, setTag] = useState('');
+
+  // Debounce typing in the search box
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const query = { limit: 50, search: debouncedSearch };
+  const savedQueriesQuery = useSavedQueries({ ...query, tag }, { enabled: tab === 'saved' });
+  const { data: tagsResponse } = useSavedQueryTags({ enabled: tab === 'saved' });
+  const historyQuery = useQueryHistory(query, { enabled: tab === 'history' });
+  const { mutate: deleteSavedQuery, error: deleteError } = useDeleteSavedQuery();
+
+  const savedQueries = savedQueriesQuery.data?.data ?? [];
+  const history = historyQuery.data?.data ?? [];
+  const tags = tagsResponse?.data ?? [];
+  const { isLoading: loading, error: loadError } = tab === 'saved' ? savedQueriesQuery : historyQuery;
+  const error =
+    loadError !== undefined
+      ? describeError(loadError, 'Failed to load queries')
+      : deleteError
+        ? describeError(deleteError, 'Failed to delete saved query')
+        : null;
+
+  const tabClasses = (active: boolean) =>
+    cn(
+      'flex items-center gap-2 px-3 py-2 border-b-2 text-sm transition-colors',
+      active
+        ? 'border-primary text-foreground font-medium'
+        : 'border-transparent text-muted-foreground hover:text-foreground'
+    );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle>Library</CardTitle>
+        <div className="flex gap-2 border-b">
+          <button
+            type="button"
+            className={tabClasses(tab === 'saved')}
+            onClick={() => setTab('saved')}
+          >
+            <BookmarkSimple size={16} weight={tab === 'saved' ? 'fill' : 'regular'} />
+            Saved
+          </button>
+          <button
+            type="button"
+            className={tabClasses(tab === 'history')}
+            onClick={() => setTab('history')}
+          >
+            <ClockCounterClockwise size={16} weight={tab === 'history' ? 'fill' : 'regular'} />
+            History
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={tab === 'saved' ? 'Search name, description or SQL' : 'Search SQL'}
+        />
+
+        {tab === 'saved' && tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map((entry) => (
+              <button
+                key={entry}
+                type="button"
+                onClick={() => setTag((current) => (current === entry ? '' : entry))}
+                className={cn(
+                  'rounded-full border px-2 py-0.5 text-xs',
+                  tag === entry
+                    ? 'border-primary bg-primary text-primary-foreground'
+                    : 'hover:bg-muted'
+                )}
+              >
+                {entry}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {loading && (
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+            <CircleNotch size={16} className="animate-spin" />
+            Loading...
+          </div>
+        )}
+
+        {error && !loading && <p className="text-sm text-destructive">{error}</p>}
+
+        {!loading && !error && tab === 'saved' && (
+          <ul className="max-h-96 space-y-2 overflow-y-auto">
+            {savedQueries.length === 0 && (
+              <li className="py-4 text-center text-sm text-muted-foreground">No saved queries</li>
+            )}
+            {savedQueries.map((query) => (
+              <li key={query.id} className="group rounded-md border p-2 hover:bg-muted/50">
+                <div className="flex items-start gap-2">
+                  <button
+                    type="button"
+                    className="min-w-0 flex-1 text-left"
+                    onClick={() => onSelect(query.sql, query.connectionId)}
+                  >
+                    <p className="truncate text-sm font-medium">{query.name}</p>
+                    {query.description && (
+                      <p className="truncate text-xs text-muted-foreground">{query.description}</p>
+                    )}
+                    {query.tags.length > 0 && (
+                      <p className="mt-1 truncate text-xs text-muted-foreground">
+                        {query.tags.map((entry: string) => `#${entry}`).join(' ')}
+                      </p>
+                    )}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                    onClick={() => deleteSavedQuery(query.id).catch(() => {})}
+                    aria-label={`Delete ${query.name}`}
+                  >
+                    <Trash />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!loading && !error && tab === 'history' && (
+          <ul className="max-h-96 space-y-2 overflow-y-auto">
+            {history.length === 0 && (
+              <li className="py-4 text-center text-sm text-muted-foreground">No queries run yet</li>
+            )}
+            {history.map((entry) => (
+              <li key={entry.id}>
+                <button
+                  type="button"
+                  className="w-full rounded-md border p-2 text-left hover:bg-muted/50"
+                  onClick={() => onSelect(entry.sql, entry.connectionId)}
+                >
+                  <p className="truncate font-mono text-xs">{entry.sql}</p>
+                  <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                    <div
+                      className={`w-2 h-2 rounded-full ${entry.success ? 'bg-green-500' : 'bg-red-500'}`}
+                    />
+                    <span>{new Date(entry.executedAt).toLocaleString()}</span>
+                    {entry.success ? (
+                      <span>
+                        {entry.rowCount ?? 0} rows · {entry.durationMs} ms
+                      </span>
+                    ) : (
+                      <span className="truncate text-destructive">{entry.error}</span>
+                    )}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
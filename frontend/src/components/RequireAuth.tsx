@@ -0,0 +1,24 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { CircleNotch } from '@phosphor-icons/react';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Route guard: nested routes render only for a signed-in user
+export function RequireAuth() {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center gap-3 text-muted-foreground py-16">
+        <CircleNotch size={24} className="animate-spin" />
+        <span>Loading...</span>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return <Outlet />;
+}
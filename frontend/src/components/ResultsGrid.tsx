@@ -0,0 +1,172 @@
+import { useMemo, useState } from 'react';
+import { CaretDown, CaretUp, Check, Copy } from '@phosphor-icons/react';
+import type { ColumnKind } from 'api-client';
+import { cn, isNumericKind } from '@/lib/utils';
+
+export interface ResultColumn {
+  name: string;
+  type: string;
+  kind: ColumnKind;
+}
+
+interface ResultsGridProps {
+  columns: ResultColumn[];
+  rows: unknown[][];
+  height?: number;
+}
+
+type SortState = { column: number; direction: 'asc' | 'desc' } | null;
+
+const ROW_HEIGHT = 32;
+// Rows rendered above and below the viewport so fast scrolling doesn't flash blank space
+const OVERSCAN = 10;
+const MIN_COLUMN_WIDTH = 96;
+const MAX_COLUMN_WIDTH = 320;
+
+const formatCell = (value: unknown): string =>
+  typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+// Nulls always sort last; numeric columns compare by value even when the driver sends strings
+function compareValues(a: unknown, b: unknown, numeric: boolean): number {
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1;
+  if (b === null || b === undefined) return -1;
+  if (numeric) return Number(a) - Number(b);
+  return formatCell(a).localeCompare(formatCell(b), undefined, { numeric: true });
+}
+
+export function ResultsGrid({ columns, rows, height = 480 }: ResultsGridProps) {
+  const [sort, setSort] = useState<SortState>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [copiedCell, setCopiedCell] = useState<string | null>(null);
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows;
+
+    const column = columns[sort.column];
+    const numeric = column !== undefined && isNumericKind(column.kind);
+    const factor = sort.direction === 'asc' ? 1 : -1;
+
+    return [...rows].sort((a, b) => {
+      const result = compareValues(a[sort.column], b[sort.column], numeric);
+      // Keep nulls at the bottom regardless of direction
+      return a[sort.column] == null || b[sort.column] == null ? result : result * factor;
+    });
+  }, [rows, columns, sort]);
+
+  // Size columns from the header and a sample of rows rather than measuring the DOM
+  const columnWidths = useMemo(
+    () =>
+      columns.map((column, index) => {
+        const longest = rows
+          .slice(0, 100)
+          .reduce(
+            (max, row) => Math.max(max, row[index] == null ? 4 : formatCell(row[index]).length),
+            column.name.length + 2
+          );
+        return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest * 8 + 32));
+      }),
+    [columns, rows]
+  );
+  const totalWidth = columnWidths.reduce((sum, width) => sum + width, 0);
+
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(
+    sortedRows.length,
+    Math.ceil((scrollTop + height) / ROW_HEIGHT) + OVERSCAN
+  );
+  const visibleRows = sortedRows.slice(firstVisible, lastVisible);
+
+  const toggleSort = (column: number) => {
+    setSort((current) => {
+      if (current?.column !== column) return { column, direction: 'asc' };
+      if (current.direction === 'asc') return { column, direction: 'desc' };
+      return null;
+    });
+  };
+
+  const copyCell = async (key: string, value: unknown) => {
+    try {
+      await navigator.clipboard.writeText(
+        value === null || value === undefined ? 'NULL' : formatCell(value)
+      );
+      setCopiedCell(key);
+      setTimeout(() => setCopiedCell((current) => (current === key ? null : current)), 1500);
+    } catch (err) {
+      console.error('Failed to copy cell:', err);
+    }
+  };
+
+  return (
+    <div
+      className="overflow-auto rounded-md border"
+      style={{ height }}
+      onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+    >
+      <div style={{ width: totalWidth, minWidth: '100%' }}>
+        {/* Header */}
+        <div className="sticky top-0 z-10 flex border-b bg-muted text-sm font-medium">
+          {columns.map((column, index) => (
+            <button
+              key={`${column.name}-${index}`}
+              type="button"
+              onClick={() => toggleSort(index)}
+              className="flex shrink-0 items-center gap-1 px-3 py-2 text-left hover:bg-accent"
+              style={{ width: columnWidths[index] }}
+              title={`${column.name} (${column.type})`}
+            >
+              <span className="truncate">{column.name}</span>
+              {sort?.column === index &&
+                (sort.direction === 'asc' ? <CaretUp size={12} /> : <CaretDown size={12} />)}
+            </button>
+          ))}
+        </div>
+
+        {/* Virtualized body */}
+        <div className="relative" style={{ height: sortedRows.length * ROW_HEIGHT }}>
+          {visibleRows.map((row, offset) => {
+            const rowIndex = firstVisible + offset;
+            return (
+              <div
+                key={rowIndex}
+                className="absolute left-0 flex border-b text-sm font-mono hover:bg-muted/50"
+                style={{ top: rowIndex * ROW_HEIGHT, height: ROW_HEIGHT }}
+              >
+                {columns.map((_, columnIndex) => {
+                  const value = row[columnIndex];
+                  const key = `${rowIndex}:${columnIndex}`;
+                  return (
+                    <div
+                      key={columnIndex}
+                      className="group flex shrink-0 items-center gap-1 px-3"
+                      style={{ width: columnWidths[columnIndex] }}
+                    >
+                      <span
+                        className={cn(
+                          'truncate',
+                          value === null || value === undefined
+                            ? 'italic text-muted-foreground'
+                            : ''
+                        )}
+                        title={value === null || value === undefined ? 'NULL' : formatCell(value)}
+                      >
+                        {value === null || value === undefined ? 'NULL' : formatCell(value)}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => copyCell(key, value)}
+                        className="ml-auto shrink-0 text-muted-foreground opacity-0 hover:text-foreground group-hover:opacity-100"
+                        aria-label="Copy cell value"
+                      >
+                        {copiedCell === key ? <Check size={14} /> : <Copy size={14} />}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
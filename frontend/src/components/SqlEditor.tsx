@@ -0,0 +1,131 @@
+import { useRef, type KeyboardEvent } from 'react';
+import { cn } from '@/lib/utils';
+
+interface SqlEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onRun?: () => void;
+  placeholder?: string;
+  className?: string;
+}
+
+const KEYWORDS = new Set(
+  `SELECT FROM WHERE AND OR NOT IN IS NULL AS ON JOIN LEFT RIGHT INNER OUTER FULL CROSS GROUP BY
+  ORDER HAVING LIMIT OFFSET DISTINCT UNION ALL WITH CASE WHEN THEN ELSE END LIKE BETWEEN EXISTS
+  ASC DESC SHOW EXPLAIN DESCRIBE TABLES COLUMNS DATABASES INDEX CREATE TABLE INSERT UPDATE DELETE
+  INTO VALUES SET TRUE FALSE COUNT SUM AVG MIN MAX COALESCE CAST OVER PARTITION`.split(/\s+/)
+);
+
+type TokenType = 'keyword' | 'string' | 'number' | 'comment' | 'text';
+
+// Order matters: comments and strings must win over keywords inside them
+const TOKEN_PATTERN =
+  /(--[^\n]*|#[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|('(?:[^'\\]|\\.)*'?|"(?:[^"\\]|\\.)*"?|`[^`]*`?)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_][A-Za-z0-9_]*)/g;
+
+function tokenize(sql: string): { type: TokenType; text: string }[] {
+  const tokens: { type: TokenType; text: string }[] = [];
+  let lastIndex = 0;
+
+  for (const match of sql.matchAll(TOKEN_PATTERN)) {
+    if (match.index > lastIndex) {
+      tokens.push({ type: 'text', text: sql.slice(lastIndex, match.index) });
+    }
+
+    const [text, comment, string, number, word] = match;
+    let type: TokenType = 'text';
+    if (comment) type = 'comment';
+    else if (string) type = 'string';
+    else if (number) type = 'number';
+    else if (word && KEYWORDS.has(word.toUpperCase())) type = 'keyword';
+
+    tokens.push({ type, text });
+    lastIndex = match.index + text.length;
+  }
+
+  if (lastIndex < sql.length) {
+    tokens.push({ type: 'text', text: sql.slice(lastIndex) });
+  }
+
+  return tokens;
+}
+
+const tokenClasses: Record<TokenType, string> = {
+  keyword: 'text-primary font-semibold',
+  string: 'text-chart-2',
+  number: 'text-chart-1',
+  comment: 'text-muted-foreground italic',
+  text: '',
+};
+
+// A transparent textarea layered over a highlighted <pre>; both share font metrics
+// so the caret lines up with the rendered tokens.
+export function SqlEditor({ value, onChange, onRun, placeholder, className }: SqlEditorProps) {
+  const highlightRef = useRef<HTMLPreElement>(null);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      onRun?.();
+      return;
+    }
+
+    if (event.key === 'Tab') {
+      event.preventDefault();
+      const target = event.currentTarget;
+      const { selectionStart, selectionEnd } = target;
+      const next = `${value.slice(0, selectionStart)}  ${value.slice(selectionEnd)}`;
+      onChange(next);
+      requestAnimationFrame(() => {
+        target.selectionStart = target.selectionEnd = selectionStart + 2;
+      });
+    }
+  };
+
+  const syncScroll = (target: HTMLTextAreaElement) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = target.scrollTop;
+      highlightRef.current.scrollLeft = target.scrollLeft;
+    }
+  };
+
+  const sharedClasses = 'm-0 p-3 font-mono text-sm leading-6 whitespace-pre-wrap break-words';
+
+  return (
+    <div
+      className={cn(
+        'relative h-48 rounded-md border border-input bg-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2 ring-offset-background',
+        className
+      )}
+    >
+      <pre
+        ref={highlightRef}
+        aria-hidden="true"
+        className={cn(sharedClasses, 'absolute inset-0 overflow-hidden pointer-events-none')}
+      >
+        {tokenize(value).map((token, index) => (
+          <span key={index} className={tokenClasses[token.type]}>
+            {token.text}
+          </span>
+        ))}
+        {/* Keep a trailing newline visible so the layers stay the same height */}
+        {'\n'}
+      </pre>
+      <textarea
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        onKeyDown={handleKeyDown}
+        onScroll={(event) => syncScroll(event.currentTarget)}
+        placeholder={placeholder}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+        autoCorrect="off"
+        aria-label="SQL editor"
+        className={cn(
+          sharedClasses,
+          'absolute inset-0 h-full w-full resize-none overflow-auto bg-transparent text-transparent caret-foreground outline-none placeholder:text-muted-foreground'
+        )}
+      />
+    </div>
+  );
+}
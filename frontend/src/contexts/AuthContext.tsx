@@ -0,0 +1,78 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import type { AuthUser } from 'api-client';
+import { api, describeError, UNAUTHORIZED_EVENT } from '@/lib/api';
+import { clearQueries } from '@/lib/queryCache';
+
+type AuthProviderState = {
+  user: AuthUser | null;
+  // True until the current session has been checked
+  loading: boolean;
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+};
+
+const AuthProviderContext = createContext<AuthProviderState | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        setUser((await api.auth.me()).data);
+      } catch {
+        setUser(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSession();
+  }, []);
+
+  // Any API call answered with 401 means the session expired or was revoked
+  useEffect(() => {
+    const handleUnauthorized = () => {
+      clearQueries();
+      setUser(null);
+    };
+
+    window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+  }, []);
+
+  const login = useCallback(async (email: string, password: string) => {
+    try {
+      setUser((await api.auth.login({ email, password })).data);
+    } catch (err) {
+      throw new Error(describeError(err, 'Sign in failed'));
+    }
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await api.auth.logout();
+    } finally {
+      // Cached responses belong to the account that just signed out
+      clearQueries();
+      setUser(null);
+    }
+  }, []);
+
+  return (
+    <AuthProviderContext.Provider value={{ user, loading, login, logout }}>
+      {children}
+    </AuthProviderContext.Provider>
+  );
+}
+
+// eslint-disable-next-line react-refresh/only-export-components
+export const useAuth = () => {
+  const context = useContext(AuthProviderContext);
+
+  if (context === undefined) throw new Error('useAuth must be used within an AuthProvider');
+
+  return context;
+};
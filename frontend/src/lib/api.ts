@@ -0,0 +1,18 @@
+import { ApiError, createApiClient } from 'api-client';
+
+// Fired when the API rejects the session so the auth context can send the user to the login page
+export const UNAUTHORIZED_EVENT = 'api:unauthorized';
+
+// The one client the app talks to the backend through; sends the session cookie with every request
+export const api = createApiClient({
+  baseUrl: import.meta.env.VITE_API_URL,
+  onUnauthorized: () => window.dispatchEvent(new Event(UNAUTHORIZED_EVENT)),
+});
+
+// Prefer field-level validation messages, then the target database's message
+export const describeError = (err: unknown, fallback: string) => {
+  if (err instanceof ApiError) {
+    return err.details.map((detail) => detail.message).join('; ') || err.message;
+  }
+  return err instanceof Error ? err.message : fallback;
+};
@@ -0,0 +1,168 @@
+import Decimal from 'decimal.js';
+import type { ChartConfig } from 'api-client';
+import { addDecimal, divideDecimal, toNumber } from '@/lib/utils';
+
+export type { ChartConfig, ChartType } from 'api-client';
+
+export type ChartAggregation = ChartConfig['aggregation'];
+
+export type ChartPoint = Record<string, string | number | null>;
+
+// Theme colors from index.css; series beyond the fifth reuse them in order
+export const CHART_COLORS = [1, 2, 3, 4, 5].map((index) => `hsl(var(--chart-${index}))`);
+
+export const chartColor = (index: number) => CHART_COLORS[index % CHART_COLORS.length];
+
+// Series columns with many distinct values are unreadable; keep the first ones seen
+export const MAX_SERIES = 12;
+
+const toDecimal = (value: unknown): Decimal | null => {
+  if (value === null || value === undefined || value === '') return null;
+  try {
+    // Go through strings so DECIMAL columns (sent as strings) keep every digit
+    return new Decimal(String(value));
+  } catch {
+    return null;
+  }
+};
+
+interface Accumulator {
+  sum: Decimal;
+  // Non-null values, for the count aggregation
+  count: number;
+  // Values that parsed as numbers, which sum, avg, min and max are taken over
+  numericCount: number;
+  min: Decimal | null;
+  max: Decimal | null;
+  last: Decimal | null;
+}
+
+const emptyAccumulator = (): Accumulator => ({
+  sum: new Decimal(0),
+  count: 0,
+  numericCount: 0,
+  min: null,
+  max: null,
+  last: null,
+});
+
+function accumulate(acc: Accumulator, raw: unknown) {
+  if (raw === null || raw === undefined) return;
+  acc.count++;
+
+  const value = toDecimal(raw);
+  if (!value) return;
+  acc.numericCount++;
+  acc.sum = addDecimal(acc.sum, value);
+  acc.min = acc.min === null || value.lessThan(acc.min) ? value : acc.min;
+  acc.max = acc.max === null || value.greaterThan(acc.max) ? value : acc.max;
+  acc.last = value;
+}
+
+function finalizeDecimal(acc: Accumulator, aggregation: ChartAggregation): Decimal | null {
+  switch (aggregation) {
+    case 'count':
+      return new Decimal(acc.count);
+    case 'sum':
+      return acc.numericCount > 0 ? acc.sum : null;
+    case 'avg':
+      return acc.numericCount > 0 ? divideDecimal(acc.sum, acc.numericCount) : null;
+    case 'min':
+      return acc.min;
+    case 'max':
+      return acc.max;
+    case 'none':
+      return acc.last;
+  }
+}
+
+function finalize(acc: Accumulator, aggregation: ChartAggregation): number | null {
+  const value = finalizeDecimal(acc, aggregation);
+  return value && toNumber(value);
+}
+
+const labelFor = (value: unknown): string =>
+  value === null || value === undefined ? 'NULL' : String(value);
+
+// Turn a query result into Recharts rows. Rows sharing an X value are combined with the
+// configured aggregation (in Decimal, so money sums stay exact); 'none' keeps one point per row.
+// With a series column the distinct series values become the data keys instead of the Y column.
+export function buildChartData(
+  columns: { name: string }[],
+  rows: unknown[][],
+  config: ChartConfig
+): { data: ChartPoint[]; keys: string[] } {
+  const indexOf = (name: string) => columns.findIndex((column) => column.name === name);
+  const xIndex = indexOf(config.xColumn);
+  const yIndexes = config.yColumns.map(indexOf);
+  const seriesIndex = config.seriesColumn ? indexOf(config.seriesColumn) : -1;
+
+  if (xIndex === -1 || yIndexes.some((index) => index === -1)) {
+    return { data: [], keys: [] };
+  }
+
+  const keys: string[] = seriesIndex === -1 ? [...config.yColumns] : [];
+  const groups = new Map<string, { x: unknown; values: Map<string, Accumulator> }>();
+  const points: { x: unknown; values: Map<string, Accumulator> }[] = [];
+
+  for (const row of rows) {
+    let group: { x: unknown; values: Map<string, Accumulator> };
+    if (config.aggregation === 'none') {
+      group = { x: row[xIndex], values: new Map() };
+      points.push(group);
+    } else {
+      const groupKey = labelFor(row[xIndex]);
+      const existing = groups.get(groupKey);
+      group = existing ?? { x: row[xIndex], values: new Map() };
+      if (!existing) {
+        groups.set(groupKey, group);
+        points.push(group);
+      }
+    }
+
+    if (seriesIndex === -1) {
+      config.yColumns.forEach((column, position) => {
+        const acc = group.values.get(column) ?? emptyAccumulator();
+        accumulate(acc, row[yIndexes[position]]);
+        group.values.set(column, acc);
+      });
+    } else {
+      const series = labelFor(row[seriesIndex]);
+      if (!keys.includes(series)) {
+        if (keys.length >= MAX_SERIES) continue;
+        keys.push(series);
+      }
+      const acc = group.values.get(series) ?? emptyAccumulator();
+      accumulate(acc, row[yIndexes[0]]);
+      group.values.set(series, acc);
+    }
+  }
+
+  const data = points.map(({ x, values }) => {
+    const point: ChartPoint = {
+      [config.xColumn]: typeof x === 'number' ? x : labelFor(x),
+    };
+    for (const [key, acc] of values) {
+      point[key] = finalize(acc, config.aggregation);
+    }
+    return point;
+  });
+
+  return { data, keys };
+}
+
+// Reduce one column of a result to a single value, e.g. for KPI cards.
+// Returns the Decimal so callers can format it without going through floating point.
+export function aggregateColumn(
+  columns: { name: string }[],
+  rows: unknown[][],
+  column: string,
+  aggregation: ChartAggregation
+): Decimal | null {
+  const index = columns.findIndex((entry) => entry.name === column);
+  if (index === -1) return null;
+
+  const acc = emptyAccumulator();
+  rows.forEach((row) => accumulate(acc, row[index]));
+  return finalizeDecimal(acc, aggregation);
+}
@@ -0,0 +1,303 @@
+import { z } from 'zod';
+import type {
+  Connection,
+  CreateConnectionRequest,
+  DriverName,
+  SslMode,
+  UpdateConnectionRequest,
+} from 'api-client';
+
+// Client-side copy of the rules in server/schemas/connections.ts, so forms can point at bad
+// fields before anything is sent. The server checks everything again; keep the two in step.
+
+export const CONNECTION_STATUSES = ['active', 'inactive', 'error'] as const;
+
+export type ConnectionStatus = (typeof CONNECTION_STATUSES)[number];
+
+// Statuses are stored as plain strings, so check before treating one as a known status
+export const isConnectionStatus = (status: string): status is ConnectionStatus =>
+  (CONNECTION_STATUSES as readonly string[]).includes(status);
+
+// Engines with a driver on the server. Network engines need a host and port; the others
+// take a file path relative to the server's SQLITE_DATA_DIR.
+export const CONNECTION_DRIVERS: {
+  name: DriverName;
+  label: string;
+  defaultPort: number | null;
+}[] = [
+  { name: 'mysql', label: 'MySQL', defaultPort: 3306 },
+  { name: 'sqlite', label: 'SQLite', defaultPort: null },
+];
+
+export const driverLabel = (name: string) =>
+  CONNECTION_DRIVERS.find((driver) => driver.name === name)?.label ?? name;
+
+const isNetworkDriver = (name: DriverName) =>
+  CONNECTION_DRIVERS.find((driver) => driver.name === name)?.defaultPort !== null;
+
+// Everything as the inputs hold it: numbers are strings until validated, and secrets are
+// blank unless the user types a new one
+export interface ConnectionFormValues {
+  name: string;
+  driver: DriverName;
+  host: string;
+  port: string;
+  database: string;
+  status: ConnectionStatus;
+  monitoringEnabled: boolean;
+  checkIntervalSeconds: string;
+  username: string;
+  password: string;
+  sslMode: SslMode;
+  sslVerifyServerCert: boolean;
+  sslVerifyHostname: boolean;
+  sslCa: string;
+  sslCert: string;
+  sslKey: string;
+  useSshTunnel: boolean;
+  sshHost: string;
+  sshPort: string;
+  sshUsername: string;
+  sshPrivateKey: string;
+  sshPassword: string;
+}
+
+export const emptyConnectionForm: ConnectionFormValues = {
+  name: '',
+  driver: 'mysql',
+  host: '',
+  port: '3306',
+  database: '',
+  status: 'active',
+  monitoringEnabled: true,
+  checkIntervalSeconds: '300',
+  username: '',
+  password: '',
+  sslMode: 'disabled',
+  sslVerifyServerCert: true,
+  sslVerifyHostname: true,
+  sslCa: '',
+  sslCert: '',
+  sslKey: '',
+  useSshTunnel: false,
+  sshHost: '',
+  sshPort: '22',
+  sshUsername: '',
+  sshPrivateKey: '',
+  sshPassword: '',
+};
+
+export const connectionFormValues = (connection: Connection): ConnectionFormValues => ({
+  ...emptyConnectionForm,
+  name: connection.name,
+  driver: connection.driver,
+  host: connection.host ?? '',
+  port: connection.port === null ? '' : String(connection.port),
+  database: connection.database,
+  // An unknown stored status shows as inactive rather than claiming the connection is in use
+  status: isConnectionStatus(connection.status) ? connection.status : 'inactive',
+  monitoringEnabled: connection.monitoringEnabled,
+  checkIntervalSeconds: String(connection.checkIntervalSeconds),
+  sslMode: connection.sslMode,
+  sslVerifyServerCert: connection.sslVerifyServerCert,
+  sslVerifyHostname: connection.sslVerifyHostname,
+  sslCa: connection.sslCa ?? '',
+  sslCert: connection.sslCert ?? '',
+  useSshTunnel: connection.sshHost !== null,
+  sshHost: connection.sshHost ?? '',
+  sshPort: String(connection.sshPort),
+  sshUsername: connection.sshUsername ?? '',
+});
+
+const hostSchema = (label: string) =>
+  z.string()
+    .trim()
+    .min(1, `${label} is required`)
+    .max(255, `${label} must be at most 255 characters`)
+    .refine(
+      (host) => z.hostname().safeParse(host).success || z.ipv6().safeParse(host).success,
+      `${label} must be a valid hostname or IP address`
+    );
+
+const portSchema = (label: string) =>
+  z.string()
+    .trim()
+    .min(1, `${label} is required`)
+    .regex(/^\d+$/, `${label} must be an integer`)
+    .transform(Number)
+    .refine((port) => port >= 1 && port <= 65535, `${label} must be between 1 and 65535`);
+
+const pemSchema = (label: string) =>
+  z.string()
+    .max(16384, `${label} must be at most 16384 characters`)
+    .refine(
+      (value) => value === '' || /-----BEGIN [A-Z0-9 ]+-----/.test(value),
+      `${label} must be PEM-encoded`
+    );
+
+const DATABASE_NAME_PATTERN = /^[A-Za-z0-9_$-]+$/;
+const DATABASE_FILE_PATTERN = /^[A-Za-z0-9_$-][A-Za-z0-9_$.-]*(\/[A-Za-z0-9_$-][A-Za-z0-9_$.-]*)*$/;
+
+// Which secrets the connection being edited already has, so leaving them blank is fine
+interface StoredSecrets {
+  hasSshPrivateKey: boolean;
+  hasSshPassword: boolean;
+}
+
+export function connectionFormSchema(stored?: StoredSecrets) {
+  return z
+    .object({
+      name: z.string().trim().min(1, 'Name is required').max(191, 'Name must be at most 191 characters'),
+      driver: z.enum(CONNECTION_DRIVERS.map((driver) => driver.name) as [DriverName, ...DriverName[]]),
+      host: z.string(),
+      port: z.string(),
+      database: z.string()
+        .trim()
+        .min(1, 'Database is required')
+        .max(191, 'Database must be at most 191 characters'),
+      status: z.enum(CONNECTION_STATUSES),
+      monitoringEnabled: z.boolean(),
+      checkIntervalSeconds: z.string()
+        .trim()
+        .regex(/^\d+$/, 'checkIntervalSeconds must be an integer')
+        .transform(Number)
+        .refine((seconds) => seconds >= 10, 'checkIntervalSeconds must be at least 10')
+        .refine((seconds) => seconds <= 86400, 'checkIntervalSeconds must be at most 86400'),
+      username: z.string().max(255, 'Username must be at most 255 characters'),
+      password: z.string().max(1024, 'Password must be at most 1024 characters'),
+      sslMode: z.enum(['disabled', 'required']),
+      sslVerifyServerCert: z.boolean(),
+      sslVerifyHostname: z.boolean(),
+      sslCa: pemSchema('sslCa'),
+      sslCert: pemSchema('sslCert'),
+      sslKey: pemSchema('sslKey'),
+      useSshTunnel: z.boolean(),
+      sshHost: z.string(),
+      sshPort: z.string(),
+      sshUsername: z.string().trim().max(255, 'SSH username must be at most 255 characters'),
+      sshPrivateKey: pemSchema('sshPrivateKey'),
+      sshPassword: z.string().max(1024, 'SSH password must be at most 1024 characters'),
+    })
+    .superRefine((values, ctx) => {
+      // Fields that only apply to some engines or settings are checked here
+      const check = (path: keyof ConnectionFormValues, schema: z.ZodType, value: unknown) => {
+        const result = schema.safeParse(value);
+        if (!result.success) {
+          ctx.addIssue({ code: 'custom', path: [path], message: result.error.issues[0]!.message });
+        }
+      };
+
+      if (!isNetworkDriver(values.driver)) {
+        if (!DATABASE_FILE_PATTERN.test(values.database)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['database'],
+            message: 'Database must be a file path relative to SQLITE_DATA_DIR, e.g. reports/sales.db',
+          });
+        }
+        return;
+      }
+
+      check('host', hostSchema('Host'), values.host);
+      check('port', portSchema('Port'), values.port);
+      if (values.database.length > 64) {
+        ctx.addIssue({ code: 'custom', path: ['database'], message: 'Database name must be at most 64 characters' });
+      } else if (!DATABASE_NAME_PATTERN.test(values.database)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['database'],
+          message: 'Database name may only contain letters, digits, _, $ and -',
+        });
+      }
+
+      if (values.useSshTunnel) {
+        check('sshHost', hostSchema('SSH host'), values.sshHost);
+        check('sshPort', portSchema('SSH port'), values.sshPort);
+        if (!values.sshUsername) {
+          ctx.addIssue({ code: 'custom', path: ['sshUsername'], message: 'SSH username is required' });
+        }
+        const hasSecret =
+          values.sshPrivateKey || values.sshPassword || stored?.hasSshPrivateKey || stored?.hasSshPassword;
+        if (!hasSecret) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['sshPrivateKey'],
+            message: 'An SSH private key or password is required',
+          });
+        }
+      }
+    })
+    .transform((values) => {
+      const network = isNetworkDriver(values.driver);
+      const tunnel = network && values.useSshTunnel;
+      const optional = (value: string) => value || undefined;
+
+      return {
+        name: values.name,
+        driver: values.driver,
+        host: network ? values.host.trim() : null,
+        port: network ? Number(values.port) : null,
+        database: values.database,
+        status: values.status,
+        monitoringEnabled: values.monitoringEnabled,
+        checkIntervalSeconds: values.checkIntervalSeconds,
+        sslMode: network ? values.sslMode : 'disabled',
+        sslVerifyServerCert: values.sslVerifyServerCert,
+        sslVerifyHostname: values.sslVerifyHostname,
+        sslCa: network && values.sslMode === 'required' ? values.sslCa || null : null,
+        sslCert: network && values.sslMode === 'required' ? values.sslCert || null : null,
+        sshHost: tunnel ? values.sshHost.trim() : null,
+        sshPort: tunnel ? Number(values.sshPort) : 22,
+        sshUsername: tunnel ? values.sshUsername : null,
+        // Blank secrets are left out: nothing is stored on create, and edits keep the stored value
+        username: optional(values.username),
+        password: optional(values.password),
+        sslKey: network && values.sslMode === 'required' ? optional(values.sslKey) : undefined,
+        sshPrivateKey: tunnel ? optional(values.sshPrivateKey) : undefined,
+        sshPassword: tunnel ? optional(values.sshPassword) : undefined,
+      } satisfies CreateConnectionRequest;
+    });
+}
+
+export type ConnectionFormOutput = z.output<ReturnType<typeof connectionFormSchema>>;
+
+// The first message for each invalid field
+export const connectionFormErrors = (error: z.ZodError): Record<string, string> =>
+  Object.fromEntries(error.issues.map((issue) => [issue.path.join('.'), issue.message]).reverse());
+
+const SETTING_FIELDS = [
+  'name',
+  'driver',
+  'host',
+  'port',
+  'database',
+  'status',
+  'monitoringEnabled',
+  'checkIntervalSeconds',
+  'sslMode',
+  'sslVerifyServerCert',
+  'sslVerifyHostname',
+  'sslCa',
+  'sslCert',
+  'sshHost',
+  'sshPort',
+  'sshUsername',
+] as const;
+
+// Only what changed, plus any new secrets. Turning the tunnel off also drops its stored secrets.
+export function toUpdateRequest(output: ConnectionFormOutput, connection: Connection): UpdateConnectionRequest {
+  const changes: UpdateConnectionRequest = Object.fromEntries(
+    SETTING_FIELDS.filter((field) => output[field] !== connection[field]).map((field) => [field, output[field]])
+  );
+
+  for (const secret of ['username', 'password', 'sslKey', 'sshPrivateKey', 'sshPassword'] as const) {
+    if (output[secret] !== undefined) changes[secret] = output[secret];
+  }
+
+  if (output.sshHost === null && connection.sshHost !== null) {
+    if (connection.hasSshPrivateKey) changes.sshPrivateKey = null;
+    if (connection.hasSshPassword) changes.sshPassword = null;
+  }
+
+  return changes;
+}
@@ -0,0 +1,32 @@
+export type DateRangePreset = '7d' | '30d' | '90d' | '365d' | 'all';
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string; days: number | null }[] =
+  [
+    { value: '7d', label: 'Last 7 days', days: 7 },
+    { value: '30d', label: 'Last 30 days', days: 30 },
+    { value: '90d', label: 'Last 90 days', days: 90 },
+    { value: '365d', label: 'Last 12 months', days: 365 },
+    { value: 'all', label: 'All time', days: null },
+  ];
+
+export type DateRange = {
+  from: string | null;
+  to: string | null;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// MySQL DATETIME literal in the browser's local time zone
+const toSqlDateTime = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+  `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+// Whole days ending today; 'all' leaves both bounds null so queries can skip the filter
+export function resolveDateRange(preset: DateRangePreset, now: Date = new Date()): DateRange {
+  const days = DATE_RANGE_PRESETS.find((entry) => entry.value === preset)?.days ?? null;
+  if (days === null) return { from: null, to: null };
+
+  const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+  const to = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59);
+  return { from: toSqlDateTime(from), to: toSqlDateTime(to) };
+}
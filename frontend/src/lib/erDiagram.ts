@@ -0,0 +1,240 @@
+import type { DatabaseSchema } from 'api-client';
+
+type TableInfo = DatabaseSchema['tables'][number];
+
+export const NODE_WIDTH = 240;
+export const HEADER_HEIGHT = 32;
+export const ROW_HEIGHT = 22;
+// Longer tables are cut off with a "… more columns" row so the diagram stays readable
+export const MAX_NODE_COLUMNS = 12;
+
+const COLUMN_GAP = 120;
+const ROW_GAP = 40;
+const MARGIN = 24;
+
+export interface DiagramNode {
+  table: TableInfo;
+  x: number;
+  y: number;
+  height: number;
+  // Columns drawn in the box, in order
+  columns: string[];
+  hiddenColumns: number;
+}
+
+export interface DiagramEdge {
+  // Foreign key name, unique within its table
+  id: string;
+  from: { table: string; x: number; y: number };
+  to: { table: string; x: number; y: number };
+  // Which sides the line leaves and enters by
+  fromSide: 'left' | 'right';
+  toSide: 'left' | 'right';
+}
+
+export interface DiagramLayout {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  width: number;
+  height: number;
+}
+
+// Key columns first, so relationships stay visible when long tables are cut off
+function visibleColumns(table: TableInfo): string[] {
+  const keyColumns = new Set([
+    ...table.indexes.filter((index) => index.primary).flatMap((index) => index.columns),
+    ...table.foreignKeys.flatMap((foreignKey) => foreignKey.columns),
+  ]);
+  const ordered = [
+    ...table.columns.filter((column) => keyColumns.has(column.name)),
+    ...table.columns.filter((column) => !keyColumns.has(column.name)),
+  ];
+  return ordered.slice(0, MAX_NODE_COLUMNS).map((column) => column.name);
+}
+
+const nodeHeight = (columns: number, hidden: number) =>
+  HEADER_HEIGHT + (columns + (hidden > 0 ? 1 : 0)) * ROW_HEIGHT + 8;
+
+// Lay tables out in columns by foreign key depth: referenced tables on the left, tables that
+// reference them to their right. Within a column tables are ordered next to the tables they
+// reference to cut down on crossing lines. Tables without relationships go in a grid below.
+export function layoutDiagram(tables: TableInfo[]): DiagramLayout {
+  const byName = new Map(tables.map((table) => [table.name, table]));
+  const references = (table: TableInfo) =>
+    [...new Set(table.foreignKeys.map((foreignKey) => foreignKey.referencedTable))].filter(
+      (name) => name !== table.name && byName.has(name)
+    );
+
+  const related = new Set<string>();
+  for (const table of tables) {
+    for (const name of references(table)) {
+      related.add(table.name);
+      related.add(name);
+    }
+  }
+
+  // Longest chain of references below each table; a reference back into the chain being
+  // walked (a cycle) is ignored
+  const ranks = new Map<string, number>();
+  const visiting = new Set<string>();
+  const rankOf = (table: TableInfo): number => {
+    const known = ranks.get(table.name);
+    if (known !== undefined) return known;
+    visiting.add(table.name);
+    const rank = Math.max(
+      -1,
+      ...references(table)
+        .filter((name) => !visiting.has(name))
+        .map((name) => rankOf(byName.get(name)!))
+    ) + 1;
+    visiting.delete(table.name);
+    ranks.set(table.name, rank);
+    return rank;
+  };
+
+  const layers: TableInfo[][] = [];
+  for (const table of tables.filter((entry) => related.has(entry.name))) {
+    (layers[rankOf(table)] ??= []).push(table);
+  }
+
+  // Order each layer by the average position of the tables it references in earlier layers
+  const order = new Map<string, number>();
+  for (const layer of layers) {
+    const barycenter = (table: TableInfo) => {
+      const positions = references(table)
+        .map((name) => order.get(name))
+        .filter((position): position is number => position !== undefined);
+      return positions.length > 0
+        ? positions.reduce((sum, position) => sum + position, 0) / positions.length
+        : Number.MAX_SAFE_INTEGER;
+    };
+    layer.sort((a, b) => barycenter(a) - barycenter(b) || a.name.localeCompare(b.name));
+    layer.forEach((table, index) => order.set(table.name, index));
+  }
+
+  const nodes: DiagramNode[] = [];
+  const place = (table: TableInfo, x: number, y: number) => {
+    const columns = visibleColumns(table);
+    const hiddenColumns = table.columns.length - columns.length;
+    const node = { table, x, y, columns, hiddenColumns, height: nodeHeight(columns.length, hiddenColumns) };
+    nodes.push(node);
+    return node;
+  };
+
+  let graphHeight = 0;
+  layers.forEach((layer, rank) => {
+    let y = MARGIN;
+    for (const table of layer) {
+      y += place(table, MARGIN + rank * (NODE_WIDTH + COLUMN_GAP), y).height + ROW_GAP;
+    }
+    graphHeight = Math.max(graphHeight, y);
+  });
+
+  // Unrelated tables, in rows as wide as the graph above (or four tables)
+  const isolated = tables.filter((table) => !related.has(table.name));
+  const perRow = Math.max(layers.length, 4);
+  let rowTop = layers.length > 0 ? graphHeight + ROW_GAP : MARGIN;
+  for (let start = 0; start < isolated.length; start += perRow) {
+    const row = isolated
+      .slice(start, start + perRow)
+      .map((table, index) => place(table, MARGIN + index * (NODE_WIDTH + COLUMN_GAP), rowTop));
+    rowTop += Math.max(...row.map((node) => node.height)) + ROW_GAP;
+  }
+
+  const nodeByName = new Map(nodes.map((node) => [node.table.name, node]));
+  const columnY = (node: DiagramNode, column: string | undefined) => {
+    const index = column === undefined ? -1 : node.columns.indexOf(column);
+    // Columns that were cut off attach to the header
+    return node.y + (index === -1 ? HEADER_HEIGHT / 2 : HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2);
+  };
+
+  const edges: DiagramEdge[] = [];
+  for (const node of nodes) {
+    for (const foreignKey of node.table.foreignKeys) {
+      const target = nodeByName.get(foreignKey.referencedTable);
+      if (!target) continue;
+
+      // Lines run between facing sides. Tables in the same column, including a table that
+      // references itself, are joined by a loop out on the right.
+      const fromSide = target.x < node.x ? 'left' : 'right';
+      const toSide = target.x > node.x ? 'left' : 'right';
+
+      edges.push({
+        id: `${node.table.name}.${foreignKey.name}`,
+        from: {
+          table: node.table.name,
+          x: fromSide === 'left' ? node.x : node.x + NODE_WIDTH,
+          y: columnY(node, foreignKey.columns[0]),
+        },
+        to: {
+          table: target.table.name,
+          x: toSide === 'left' ? target.x : target.x + NODE_WIDTH,
+          y: columnY(target, foreignKey.referencedColumns[0]),
+        },
+        fromSide,
+        toSide,
+      });
+    }
+  }
+
+  return {
+    nodes,
+    edges,
+    width: Math.max(MARGIN * 2, ...nodes.map((node) => node.x + NODE_WIDTH + MARGIN)),
+    height: Math.max(MARGIN * 2, ...nodes.map((node) => node.y + node.height + MARGIN)),
+  };
+}
+
+// A curve leaving and entering horizontally, bulging out on the side it leaves by
+export function edgePath({ from, to, fromSide, toSide }: DiagramEdge): string {
+  const bend = Math.max(40, Math.abs(to.x - from.x) / 2);
+  const fromControl = from.x + (fromSide === 'right' ? bend : -bend);
+  const toControl = to.x + (toSide === 'right' ? bend : -bend);
+  return `M ${from.x} ${from.y} C ${fromControl} ${from.y}, ${toControl} ${to.y}, ${to.x} ${to.y}`;
+}
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// The diagram's markup as a standalone SVG file. It draws with fixed colors, so it looks the
+// same outside the app.
+const serializeSvg = (svg: SVGSVGElement) => {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  return new XMLSerializer().serializeToString(copy);
+};
+
+export function exportSvg(svg: SVGSVGElement, filename: string) {
+  download(new Blob([serializeSvg(svg)], { type: 'image/svg+xml' }), filename);
+}
+
+// Rendered at twice the diagram's size so it stays sharp when zoomed
+export async function exportPng(svg: SVGSVGElement, filename: string, scale = 2) {
+  const url = URL.createObjectURL(new Blob([serializeSvg(svg)], { type: 'image/svg+xml' }));
+
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = svg.width.baseVal.value * scale;
+    canvas.height = svg.height.baseVal.value * scale;
+    const context = canvas.getContext('2d')!;
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('The browser could not encode the diagram as PNG');
+    download(blob, filename);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
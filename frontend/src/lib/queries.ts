@@ -0,0 +1,266 @@
+import type {
+  ChartsQuery,
+  Connection,
+  ConnectionsQuery,
+  CreateChartRequest,
+  CreateConnectionRequest,
+  CreateDashboardRequest,
+  CreateSavedQueryRequest,
+  Dashboard,
+  DashboardWidgetsRequest,
+  ImportConnectionsRequest,
+  DataResponse,
+  PaginatedResponse,
+  PaginationQuery,
+  QueryHistoryQuery,
+  RunQueryRequest,
+  SavedQueriesQuery,
+  UpdateChartRequest,
+  UpdateConnectionRequest,
+  UpdateDashboardRequest,
+} from 'api-client';
+import { api } from '@/lib/api';
+import { setQueriesData } from '@/lib/queryCache';
+import { optimisticUpdate, useMutation, useQuery, type UseQueryOptions } from '@/lib/useQuery';
+
+// Query keys by resource. Invalidating a resource's root key reloads all of its queries.
+export const queryKeys = {
+  connections: ['connections'] as const,
+  connectionList: (query: ConnectionsQuery = {}) => ['connections', 'list', query] as const,
+  connection: (id: number) => ['connections', 'detail', id] as const,
+  connectionUrl: (id: number, reveal = false) => ['connections', 'url', id, reveal] as const,
+  connectionSchema: (id: number) => ['connections', 'schema', id] as const,
+  tablePreview: (id: number, table: string) => ['connections', 'schema', id, 'rows', table] as const,
+  savedQueries: ['savedQueries'] as const,
+  savedQueryList: (query: SavedQueriesQuery = {}) => ['savedQueries', 'list', query] as const,
+  savedQueryTags: ['savedQueries', 'tags'] as const,
+  savedQueryResult: (id: number, parameters: Record<string, string | null> = {}) =>
+    ['savedQueries', 'result', id, parameters] as const,
+  queryHistory: ['queryHistory'] as const,
+  queryHistoryList: (query: QueryHistoryQuery = {}) => ['queryHistory', 'list', query] as const,
+  charts: ['charts'] as const,
+  chartList: (query: ChartsQuery = {}) => ['charts', 'list', query] as const,
+  dashboards: ['dashboards'] as const,
+  dashboardList: (query: PaginationQuery = {}) => ['dashboards', 'list', query] as const,
+  dashboard: (id: number) => ['dashboards', 'detail', id] as const,
+};
+
+export const useConnections = (query: ConnectionsQuery = {}, options?: UseQueryOptions) =>
+  useQuery(
+    queryKeys.connectionList(query),
+    (signal) => api.connections.list(query, { signal }),
+    options
+  );
+
+export const useConnection = (id: number, options?: UseQueryOptions) =>
+  useQuery(queryKeys.connection(id), (signal) => api.connections.get(id, { signal }), options);
+
+// Credentials come back masked unless reveal is set, which needs the editor role
+export const useConnectionUrl = (id: number, reveal = false, options?: UseQueryOptions) =>
+  useQuery(
+    queryKeys.connectionUrl(id, reveal),
+    (signal) => api.connections.url(id, { reveal }, { signal }),
+    options
+  );
+
+export const useConnectionSchema = (id: number, options?: UseQueryOptions) =>
+  useQuery(queryKeys.connectionSchema(id), (signal) => api.connections.schema(id, { signal }), options);
+
+// Reads the schema from the database again instead of the server's cache
+export const useRefreshConnectionSchema = () =>
+  useMutation({
+    mutationFn: (id: number) => api.connections.refreshSchema(id),
+    invalidates: (id) => [queryKeys.connectionSchema(id)],
+  });
+
+export const useTablePreview = (id: number, table: string, options?: UseQueryOptions) =>
+  useQuery(
+    queryKeys.tablePreview(id, table),
+    (signal) => api.connections.previewTable(id, table, { signal }),
+    options
+  );
+
+export const useCreateConnection = () =>
+  useMutation({
+    mutationFn: (body: CreateConnectionRequest) => api.connections.create(body),
+    invalidates: [queryKeys.connections],
+  });
+
+export const useImportConnections = () =>
+  useMutation({
+    mutationFn: (body: ImportConnectionsRequest) => api.connections.import(body),
+    invalidates: [queryKeys.connections],
+  });
+
+// Whether a write-only secret is stored after an edit that may have set or cleared it
+const isStored = (value: string | null | undefined, stored: boolean) =>
+  value === undefined ? stored : Boolean(value);
+
+// Secrets are write-only, so an edit can only tell whether one is now stored
+const applyConnectionChanges = (
+  connection: Connection,
+  { username, password, sslKey, sshPrivateKey, sshPassword, ...fields }: UpdateConnectionRequest
+): Connection => ({
+  ...connection,
+  ...fields,
+  hasUsername: isStored(username, connection.hasUsername),
+  hasPassword: isStored(password, connection.hasPassword),
+  hasSslKey: isStored(sslKey, connection.hasSslKey),
+  hasSshPrivateKey: isStored(sshPrivateKey, connection.hasSshPrivateKey),
+  hasSshPassword: isStored(sshPassword, connection.hasSshPassword),
+});
+
+// Edits show up in every cached list and detail view straight away, and are rolled back if
+// the server rejects them
+export const useUpdateConnection = () =>
+  useMutation({
+    mutationFn: ({ id, changes }: { id: number; changes: UpdateConnectionRequest }) =>
+      api.connections.update(id, changes),
+    optimistic: ({ id, changes }) => {
+      const updateOne = (response: DataResponse<Connection>) =>
+        response.data.id === id
+          ? { ...response, data: applyConnectionChanges(response.data, changes) }
+          : response;
+
+      return [
+        optimisticUpdate(queryKeys.connection(id), updateOne),
+        optimisticUpdate(['connections', 'list'], (response: PaginatedResponse<Connection>) => ({
+          ...response,
+          data: response.data.map((connection) =>
+            connection.id === id ? applyConnectionChanges(connection, changes) : connection
+          ),
+        })),
+      ];
+    },
+    invalidates: [queryKeys.connections],
+  });
+
+export const useDeleteConnection = () =>
+  useMutation({
+    mutationFn: (id: number) => api.connections.delete(id),
+    invalidates: [queryKeys.connections],
+  });
+
+// Tests a stored connection; the result is also recorded on it as its status
+export const useTestConnection = () =>
+  useMutation({
+    mutationFn: (id: number) => api.connections.test(id),
+    invalidates: [queryKeys.connections],
+  });
+
+export const useSavedQueries = (query: SavedQueriesQuery = {}, options?: UseQueryOptions) =>
+  useQuery(
+    queryKeys.savedQueryList(query),
+    (signal) => api.savedQueries.list(query, { signal }),
+    options
+  );
+
+export const useSavedQueryTags = (options?: UseQueryOptions) =>
+  useQuery(queryKeys.savedQueryTags, (signal) => api.savedQueries.tags({ signal }), options);
+
+// Runs the saved query against its connection; charts and widgets render the result
+export const useSavedQueryResult = (
+  id: number,
+  parameters: Record<string, string | null> = {},
+  options?: UseQueryOptions
+) =>
+  useQuery(
+    queryKeys.savedQueryResult(id, parameters),
+    (signal) => api.savedQueries.run(id, { parameters }, { signal }),
+    options
+  );
+
+export const useCreateSavedQuery = () =>
+  useMutation({
+    mutationFn: (body: CreateSavedQueryRequest) => api.savedQueries.create(body),
+    invalidates: [queryKeys.savedQueries],
+  });
+
+// Charts and widgets built on the query go with it
+export const useDeleteSavedQuery = () =>
+  useMutation({
+    mutationFn: (id: number) => api.savedQueries.delete(id),
+    invalidates: [queryKeys.savedQueries, queryKeys.charts, queryKeys.dashboards],
+  });
+
+export const useQueryHistory = (query: QueryHistoryQuery = {}, options?: UseQueryOptions) =>
+  useQuery(
+    queryKeys.queryHistoryList(query),
+    (signal) => api.queryHistory.list(query, { signal }),
+    options
+  );
+
+// Ad hoc SQL against a connection. Every run is recorded in the query history.
+export const useRunQuery = () =>
+  useMutation({
+    mutationFn: ({ id, body }: { id: number; body: RunQueryRequest }) => api.connections.query(id, body),
+    invalidates: [queryKeys.queryHistory],
+  });
+
+export const useCharts = (query: ChartsQuery = {}, options?: UseQueryOptions) =>
+  useQuery(queryKeys.chartList(query), (signal) => api.charts.list(query, { signal }), options);
+
+export const useCreateChart = () =>
+  useMutation({
+    mutationFn: (body: CreateChartRequest) => api.charts.create(body),
+    invalidates: [queryKeys.charts],
+  });
+
+// Dashboards embed their charts, so chart edits reload them too
+export const useUpdateChart = () =>
+  useMutation({
+    mutationFn: ({ id, changes }: { id: number; changes: UpdateChartRequest }) =>
+      api.charts.update(id, changes),
+    invalidates: [queryKeys.charts, queryKeys.dashboards],
+  });
+
+export const useDeleteChart = () =>
+  useMutation({
+    mutationFn: (id: number) => api.charts.delete(id),
+    invalidates: [queryKeys.charts, queryKeys.dashboards],
+  });
+
+export const useDashboards = (query: PaginationQuery = {}, options?: UseQueryOptions) =>
+  useQuery(
+    queryKeys.dashboardList(query),
+    (signal) => api.dashboards.list(query, { signal }),
+    options
+  );
+
+export const useCreateDashboard = () =>
+  useMutation({
+    mutationFn: (body: CreateDashboardRequest) => api.dashboards.create(body),
+    invalidates: [queryKeys.dashboards],
+  });
+
+export const useDashboard = (id: number, options?: UseQueryOptions) =>
+  useQuery(queryKeys.dashboard(id), (signal) => api.dashboards.get(id, { signal }), options);
+
+// Settings apply straight away and are rolled back if the server rejects them
+export const useUpdateDashboard = () =>
+  useMutation({
+    mutationFn: ({ id, changes }: { id: number; changes: UpdateDashboardRequest }) =>
+      api.dashboards.update(id, changes),
+    optimistic: ({ id, changes }) => [
+      optimisticUpdate(queryKeys.dashboard(id), (response: DataResponse<Dashboard>) => ({
+        ...response,
+        data: { ...response.data, ...changes },
+      })),
+    ],
+    invalidates: [queryKeys.dashboards],
+  });
+
+// The saved layout replaces the cached one straight away, so the editor can close on it
+export const useSetDashboardWidgets = () =>
+  useMutation({
+    mutationFn: ({ id, body }: { id: number; body: DashboardWidgetsRequest }) =>
+      api.dashboards.setWidgets(id, body),
+    onSuccess: (response, { id }) => setQueriesData(queryKeys.dashboard(id), () => response),
+    invalidates: [queryKeys.dashboards],
+  });
+
+export const useDeleteDashboard = () =>
+  useMutation({
+    mutationFn: (id: number) => api.dashboards.delete(id),
+    invalidates: [queryKeys.dashboards],
+  });
@@ -0,0 +1,235 @@
+// Shared cache behind useQuery: one entry per query key, holding the last response and the
+// request in flight so components asking for the same data share a single request.
+
+export type QueryKey = readonly unknown[];
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QueryState<T = unknown> {
+  data: T | undefined;
+  error: unknown;
+  status: 'pending' | 'success' | 'error';
+  // True while a request is in flight, including background revalidation of cached data
+  isFetching: boolean;
+  // When data was last received; 0 marks the entry stale
+  updatedAt: number;
+}
+
+interface Entry {
+  key: QueryKey;
+  state: QueryState;
+  fetcher?: QueryFetcher<unknown>;
+  staleTime: number;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Cached data is served without a request for this long, then revalidated in the background
+export const DEFAULT_STALE_TIME = 30_000;
+
+// Entries nobody has used for this long are dropped
+const GC_TIME = 5 * 60_000;
+
+const INITIAL_STATE: QueryState = {
+  data: undefined,
+  error: undefined,
+  status: 'pending',
+  isFetching: false,
+  updatedAt: 0,
+};
+
+const entries = new Map<string, Entry>();
+
+export const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+// ['connections'] matches ['connections', 'list', {...}] and ['connections', 'detail', 1]
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]));
+
+const scheduleGc = (hash: string, entry: Entry) => {
+  clearTimeout(entry.gcTimer);
+  entry.gcTimer = setTimeout(() => {
+    if (entry.listeners.size === 0 && !entry.promise) entries.delete(hash);
+  }, GC_TIME);
+};
+
+const getEntry = (key: QueryKey) => {
+  const hash = hashKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = { key, state: INITIAL_STATE, staleTime: DEFAULT_STALE_TIME, listeners: new Set() };
+    entries.set(hash, entry);
+    scheduleGc(hash, entry);
+  }
+  return entry;
+};
+
+// States are replaced rather than mutated so useSyncExternalStore sees the change
+const setState = (entry: Entry, changes: Partial<QueryState>) => {
+  entry.state = { ...entry.state, ...changes };
+  entry.listeners.forEach((listener) => listener());
+};
+
+const isStale = (entry: Entry) => Date.now() - entry.state.updatedAt >= entry.staleTime;
+
+export const getQueryState = <T>(key: QueryKey) =>
+  (entries.get(hashKey(key))?.state ?? INITIAL_STATE) as QueryState<T>;
+
+export const getQueryData = <T>(key: QueryKey) => getQueryState<T>(key).data;
+
+// Remember how to load a key, so focus refetches and invalidation can reload it later
+export function registerQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>, staleTime: number) {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher as QueryFetcher<unknown>;
+  entry.staleTime = staleTime;
+}
+
+// Load a key, joining the request already in flight for it if there is one
+export function fetchQuery<T>(key: QueryKey, fetcher?: QueryFetcher<T>): Promise<T> {
+  const entry = getEntry(key);
+  if (fetcher) entry.fetcher = fetcher as QueryFetcher<unknown>;
+  if (entry.promise) return entry.promise as Promise<T>;
+  if (!entry.fetcher) return Promise.reject(new Error(`No fetcher for query ${hashKey(key)}`));
+
+  const controller = new AbortController();
+  const promise = entry
+    .fetcher(controller.signal)
+    .then(
+      (data) => {
+        if (entry.controller === controller) {
+          setState(entry, {
+            data,
+            error: undefined,
+            status: 'success',
+            isFetching: false,
+            updatedAt: Date.now(),
+          });
+        }
+        return data;
+      },
+      (error) => {
+        // Cancelled requests leave the entry to whatever replaced them
+        if (entry.controller === controller) {
+          setState(entry, {
+            error,
+            status: entry.state.data === undefined ? 'error' : 'success',
+            isFetching: false,
+          });
+        }
+        throw error;
+      }
+    )
+    .finally(() => {
+      if (entry.controller === controller) {
+        entry.promise = undefined;
+        entry.controller = undefined;
+      }
+    });
+
+  entry.promise = promise;
+  entry.controller = controller;
+  setState(entry, { isFetching: true });
+  return promise as Promise<T>;
+}
+
+// Refetch when the cached data is older than the entry's stale time. Failures are kept in
+// the entry's state rather than thrown.
+export function revalidateQuery(key: QueryKey) {
+  const entry = getEntry(key);
+  if (entry.promise || !isStale(entry)) return;
+  fetchQuery(key).catch(() => {});
+}
+
+// Abort the request in flight for a key, e.g. before writing optimistic data it would overwrite
+export function cancelQuery(key: QueryKey) {
+  const entry = entries.get(hashKey(key));
+  if (!entry?.controller) return;
+  entry.controller.abort();
+  entry.promise = undefined;
+  entry.controller = undefined;
+  setState(entry, { isFetching: false });
+}
+
+// Replace the data of every cached key under a prefix. Returns what was there before, for
+// rolling back.
+export function setQueriesData<T>(prefix: QueryKey, update: (data: T) => T) {
+  const previous: [QueryKey, QueryState][] = [];
+  for (const entry of entries.values()) {
+    if (!matchesPrefix(entry.key, prefix) || entry.state.data === undefined) continue;
+    cancelQuery(entry.key);
+    previous.push([entry.key, entry.state]);
+    setState(entry, { data: update(entry.state.data as T) });
+  }
+  return previous;
+}
+
+export function restoreQueries(snapshot: [QueryKey, QueryState][]) {
+  for (const [key, state] of snapshot) {
+    setState(getEntry(key), state);
+  }
+}
+
+// Mark every key under a prefix stale and reload the ones on screen
+export function invalidateQueries(prefix: QueryKey) {
+  for (const entry of entries.values()) {
+    if (!matchesPrefix(entry.key, prefix)) continue;
+    cancelQuery(entry.key);
+    entry.state = { ...entry.state, updatedAt: 0 };
+    if (entry.listeners.size > 0) revalidateQuery(entry.key);
+  }
+}
+
+// Let failed queries load again, e.g. when an ErrorBoundary's "Try Again" is clicked
+export function resetQueryErrors() {
+  for (const entry of entries.values()) {
+    if (entry.state.status !== 'error') continue;
+    setState(entry, INITIAL_STATE);
+    if (entry.listeners.size > 0) revalidateQuery(entry.key);
+  }
+}
+
+// Forget all cached data, e.g. when the user signs out. Entries still on screen are kept
+// (empty) so their components stay subscribed.
+export function clearQueries() {
+  for (const [hash, entry] of entries) {
+    cancelQuery(entry.key);
+    if (entry.listeners.size > 0) {
+      setState(entry, INITIAL_STATE);
+    } else {
+      clearTimeout(entry.gcTimer);
+      entries.delete(hash);
+    }
+  }
+}
+
+const revalidateVisible = () => {
+  if (document.visibilityState !== 'visible') return;
+  for (const entry of entries.values()) {
+    if (entry.listeners.size > 0) revalidateQuery(entry.key);
+  }
+};
+
+let focusListening = false;
+
+// Returning to the tab revalidates whatever is on screen
+const listenForFocus = () => {
+  if (focusListening) return;
+  focusListening = true;
+  window.addEventListener('focus', revalidateVisible);
+  document.addEventListener('visibilitychange', revalidateVisible);
+};
+
+export function subscribeQuery(key: QueryKey, listener: () => void) {
+  const hash = hashKey(key);
+  const entry = getEntry(key);
+  listenForFocus();
+  entry.listeners.add(listener);
+  clearTimeout(entry.gcTimer);
+
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0) scheduleGc(hash, entry);
+  };
+}
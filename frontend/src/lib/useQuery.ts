@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryState,
+  hashKey,
+  invalidateQueries,
+  registerQuery,
+  restoreQueries,
+  revalidateQuery,
+  setQueriesData,
+  subscribeQuery,
+  type QueryFetcher,
+  type QueryKey,
+  type QueryState,
+} from '@/lib/queryCache';
+
+export interface UseQueryOptions {
+  // Skip loading until this is true, e.g. while an ID is not known yet
+  enabled?: boolean;
+  staleTime?: number;
+  // Throw load errors to the nearest ErrorBoundary instead of returning them
+  throwOnError?: boolean;
+}
+
+export interface UseQueryResult<T> extends QueryState<T> {
+  // No data yet and a first load is pending
+  isLoading: boolean;
+  refetch: () => Promise<T>;
+}
+
+// Cached data for a key, loaded on mount and revalidated in the background once stale.
+// Components using the same key share one request and one copy of the data.
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { enabled = true, staleTime = DEFAULT_STALE_TIME, throwOnError = false }: UseQueryOptions = {}
+): UseQueryResult<T> {
+  const hash = hashKey(key);
+  // Key arrays are rebuilt on every render; only their contents identify the query
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const stableKey = useMemo(() => key, [hash]);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => subscribeQuery(stableKey, onChange),
+    [stableKey]
+  );
+  const state = useSyncExternalStore(subscribe, () => getQueryState<T>(stableKey));
+
+  // Keep the latest fetcher so later loads see current props. Runs before the effect below.
+  useEffect(() => {
+    if (enabled) registerQuery(stableKey, fetcher, staleTime);
+  });
+
+  useEffect(() => {
+    if (enabled) revalidateQuery(stableKey);
+  }, [stableKey, enabled]);
+
+  const refetch = useCallback(() => fetchQuery<T>(stableKey), [stableKey]);
+
+  if (throwOnError && state.status === 'error') throw state.error;
+
+  return { ...state, isLoading: enabled && state.status === 'pending', refetch };
+}
+
+// useQuery for components rendered inside <Suspense> and an ErrorBoundary: suspends until
+// the first load finishes and throws if it fails, so `data` is always there.
+export function useSuspenseQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  options: Omit<UseQueryOptions, 'enabled' | 'throwOnError'> = {}
+): UseQueryResult<T> & { data: T } {
+  const result = useQuery(key, fetcher, { ...options, throwOnError: true });
+
+  if (result.status === 'pending') {
+    registerQuery(key, fetcher, options.staleTime ?? DEFAULT_STALE_TIME);
+    throw fetchQuery(key);
+  }
+
+  return result as UseQueryResult<T> & { data: T };
+}
+
+// A cache write applied before a mutation's request and rolled back if it fails
+export interface OptimisticUpdate {
+  // Every cached key under this prefix is updated
+  key: QueryKey;
+  update: (data: never) => unknown;
+}
+
+export const optimisticUpdate = <T>(key: QueryKey, update: (data: T) => T): OptimisticUpdate => ({
+  key,
+  update: update as (data: never) => unknown,
+});
+
+export interface UseMutationOptions<TVariables, TData> {
+  mutationFn: (variables: TVariables) => Promise<TData>;
+  optimistic?: (variables: TVariables) => OptimisticUpdate[];
+  // Prefixes to reload once the mutation settles, whether it succeeded or not
+  invalidates?: QueryKey[] | ((variables: TVariables) => QueryKey[]);
+  onSuccess?: (data: TData, variables: TVariables) => void;
+}
+
+interface MutationState {
+  isPending: boolean;
+  error: unknown;
+}
+
+// A write to the API. `mutate` resolves with the response or rejects with its error, which is
+// also kept in `error` for rendering.
+export function useMutation<TVariables, TData>(options: UseMutationOptions<TVariables, TData>) {
+  const [state, setState] = useState<MutationState>({ isPending: false, error: null });
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const mutate = useCallback(async (variables: TVariables) => {
+    const { mutationFn, optimistic, invalidates = [], onSuccess } = optionsRef.current;
+    setState({ isPending: true, error: null });
+
+    const snapshot = (optimistic?.(variables) ?? []).flatMap(({ key, update }) =>
+      setQueriesData(key, update as (data: unknown) => unknown)
+    );
+
+    try {
+      const data = await mutationFn(variables);
+      setState({ isPending: false, error: null });
+      onSuccess?.(data, variables);
+      return data;
+    } catch (error) {
+      restoreQueries(snapshot);
+      setState({ isPending: false, error });
+      throw error;
+    } finally {
+      const keys = typeof invalidates === 'function' ? invalidates(variables) : invalidates;
+      keys.forEach(invalidateQueries);
+    }
+  }, []);
+
+  const reset = useCallback(() => setState({ isPending: false, error: null }), []);
+
+  return { ...state, mutate, reset };
+}
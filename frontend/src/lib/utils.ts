@@ -1,6 +1,7 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import Decimal from 'decimal.js';
+import type { ColumnKind } from 'api-client';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -37,3 +38,7 @@ export function divideDecimal(a: number | string | Decimal, b: number | string |
 export function toNumber(value: Decimal): number {
   return value.toNumber();
 }
+
+// Result columns whose values sort and aggregate as numbers, whatever the database calls them
+export const isNumericKind = (kind: ColumnKind) =>
+  kind === 'integer' || kind === 'decimal' || kind === 'float';
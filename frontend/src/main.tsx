@@ -4,14 +4,18 @@ import { BrowserRouter } from 'react-router-dom';
 import './index.css';
 import App from './App.tsx';
 import { ThemeProvider } from './contexts/ThemeContext.tsx';
+import { AuthProvider } from './contexts/AuthContext.tsx';
 import ErrorBoundary from './components/ErrorBoundary.tsx';
+import { resetQueryErrors } from './lib/queryCache.ts';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter>
-      <ErrorBoundary>
+      <ErrorBoundary onReset={resetQueryErrors}>
         <ThemeProvider defaultTheme="system" storageKey="vite-ui-theme">
-          <App />
+          <AuthProvider>
+            <App />
+          </AuthProvider>
         </ThemeProvider>
       </ErrorBoundary>
     </BrowserRouter>
@@ -0,0 +1,484 @@
+import { useState, useMemo } from 'react';
+import {
+  ChartBar,
+  ChartLine,
+  ChartLineUp,
+  ChartPieSlice,
+  ChartScatter,
+  CircleNotch,
+  FloppyDisk,
+  Play,
+  Plus,
+  Trash,
+  Warning,
+} from '@phosphor-icons/react';
+import type { Chart, QueryResult } from 'api-client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ChartWrapper } from '@/components/ChartWrapper';
+import { ChartRenderer } from '@/components/ChartRenderer';
+import { cn, isNumericKind } from '@/lib/utils';
+import {
+  buildChartData,
+  type ChartAggregation,
+  type ChartConfig,
+  type ChartType,
+} from '@/lib/chartData';
+import { describeError } from '@/lib/api';
+import {
+  useCharts,
+  useCreateChart,
+  useDeleteChart,
+  useSavedQueries,
+  useSavedQueryResult,
+  useUpdateChart,
+} from '@/lib/queries';
+
+const CHART_TYPES: { type: ChartType; label: string; icon: typeof ChartLine }[] = [
+  { type: 'line', label: 'Line', icon: ChartLine },
+  { type: 'bar', label: 'Bar', icon: ChartBar },
+  { type: 'area', label: 'Area', icon: ChartLineUp },
+  { type: 'pie', label: 'Pie', icon: ChartPieSlice },
+  { type: 'scatter', label: 'Scatter', icon: ChartScatter },
+];
+
+const AGGREGATIONS: { value: ChartAggregation; label: string }[] = [
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'count', label: 'Count' },
+  { value: 'min', label: 'Minimum' },
+  { value: 'max', label: 'Maximum' },
+  { value: 'none', label: 'None (one point per row)' },
+];
+
+const emptyConfig: ChartConfig = {
+  xColumn: '',
+  yColumns: [],
+  seriesColumn: null,
+  aggregation: 'sum',
+};
+
+const selectClasses =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+// Default to the first column as X and the first numeric column as Y
+const defaultConfig = (result: QueryResult): ChartConfig => {
+  const numeric = result.columns.find((column) => isNumericKind(column.kind));
+  return {
+    ...emptyConfig,
+    xColumn: result.columns[0]?.name ?? '',
+    yColumns: numeric ? [numeric.name] : [],
+  };
+};
+
+export function ChartsPage() {
+  const chartsQuery = useCharts({ limit: 100 });
+  const savedQueriesQuery = useSavedQueries({ limit: 100 });
+  const [chartId, setChartId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<ChartType>('line');
+  const [savedQueryId, setSavedQueryId] = useState<number | null>(null);
+  const [config, setConfig] = useState<ChartConfig>(emptyConfig);
+  // Set when a saved query is picked, until its result gives the config its defaults
+  const [needsDefaults, setNeedsDefaults] = useState(false);
+  // Run the saved query so the chart always reflects current data
+  const resultQuery = useSavedQueryResult(savedQueryId ?? 0, {}, { enabled: savedQueryId !== null });
+  const { mutate: createChart, isPending: creating, error: createError, reset: resetCreate } =
+    useCreateChart();
+  const { mutate: updateChart, isPending: updating, error: updateError, reset: resetUpdate } =
+    useUpdateChart();
+  const { mutate: deleteChartById, error: deleteError, reset: resetDelete } = useDeleteChart();
+
+  const charts = chartsQuery.data?.data ?? [];
+  const savedQueries = savedQueriesQuery.data?.data ?? [];
+  const loading = chartsQuery.isLoading || savedQueriesQuery.isLoading;
+  const result = savedQueryId !== null ? (resultQuery.data?.data ?? null) : null;
+  const running = resultQuery.isFetching;
+  const saving = creating || updating;
+  const listError = chartsQuery.error ?? savedQueriesQuery.error;
+  const saveError = createError ?? updateError;
+  const error =
+    listError !== undefined
+      ? describeError(listError, 'Failed to fetch charts')
+      : savedQueryId !== null && resultQuery.error !== undefined
+        ? describeError(resultQuery.error, 'Query failed')
+        : saveError
+          ? describeError(saveError, 'Failed to save chart')
+          : deleteError
+            ? describeError(deleteError, 'Failed to delete chart')
+            : null;
+
+  // The result is keyed by the saved query, so it can only ever belong to the current one
+  if (needsDefaults && result) {
+    setNeedsDefaults(false);
+    setConfig(defaultConfig(result));
+  }
+
+  const selectSavedQuery = (id: number) => {
+    setSavedQueryId(id);
+    setNeedsDefaults(true);
+  };
+
+  const openChart = (chart: Chart) => {
+    setChartId(chart.id);
+    setName(chart.name);
+    setType(chart.type);
+    setSavedQueryId(chart.savedQueryId);
+    setConfig(chart.config);
+    setNeedsDefaults(false);
+  };
+
+  const newChart = () => {
+    setChartId(null);
+    setName('');
+    setType('line');
+    setSavedQueryId(null);
+    setConfig(emptyConfig);
+    setNeedsDefaults(false);
+    resetCreate();
+    resetUpdate();
+    resetDelete();
+  };
+
+  const toggleYColumn = (column: string) => {
+    setConfig((current) => {
+      if (current.yColumns.includes(column)) {
+        return { ...current, yColumns: current.yColumns.filter((entry) => entry !== column) };
+      }
+      // Pie charts and series breakdowns plot a single value
+      const single = type === 'pie' || current.seriesColumn !== null;
+      return { ...current, yColumns: single ? [column] : [...current.yColumns, column].slice(-5) };
+    });
+  };
+
+  const saveChart = async () => {
+    if (!name.trim() || savedQueryId === null || saving) return;
+
+    try {
+      const body = { name, type, savedQueryId, config };
+      const { data } =
+        chartId === null
+          ? await createChart(body)
+          : await updateChart({ id: chartId, changes: body });
+      setChartId(data.id);
+    } catch {
+      // Shown through saveError
+    }
+  };
+
+  const deleteChart = async () => {
+    if (chartId === null) return;
+
+    try {
+      await deleteChartById(chartId);
+      newChart();
+    } catch {
+      // Shown through deleteError
+    }
+  };
+
+  const { data, keys } = useMemo(
+    () => (result ? buildChartData(result.columns, result.rows, config) : { data: [], keys: [] }),
+    [result, config]
+  );
+
+  const columns = result?.columns ?? [];
+
+  return (
+    <div className="min-h-[calc(100vh-12rem)]">
+      <main className="container mx-auto px-4 py-8">
+        <div className="space-y-8">
+          {/* Page Header */}
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+              <ChartBar size={32} weight="duotone" className="text-primary" />
+              Charts
+            </h1>
+            <p className="text-muted-foreground">
+              Visualize saved query results with theme-aware charts
+            </p>
+          </div>
+
+          {/* Error State */}
+          {error && (
+            <Card className="border-destructive">
+              <CardContent className="pt-6">
+                <div className="flex items-start gap-3 text-destructive">
+                  <Warning size={24} weight="fill" />
+                  <div>
+                    <p className="font-medium mb-1">Chart Error</p>
+                    <p className="text-sm">{error}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="grid gap-8 lg:grid-cols-4">
+            {/* Saved charts */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>Saved Charts</CardTitle>
+                <Button variant="ghost" size="icon" onClick={newChart} aria-label="New chart">
+                  <Plus />
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+                    <CircleNotch size={16} className="animate-spin" />
+                    Loading...
+                  </div>
+                ) : (
+                  <ul className="space-y-2">
+                    {charts.length === 0 && (
+                      <li className="py-4 text-center text-sm text-muted-foreground">
+                        No saved charts
+                      </li>
+                    )}
+                    {charts.map((chart) => (
+                      <li key={chart.id}>
+                        <button
+                          type="button"
+                          onClick={() => openChart(chart)}
+                          className={cn(
+                            'w-full rounded-md border p-2 text-left hover:bg-muted/50',
+                            chart.id === chartId && 'border-primary'
+                          )}
+                        >
+                          <p className="truncate text-sm font-medium">{chart.name}</p>
+                          <p className="truncate text-xs text-muted-foreground">
+                            {chart.type} · {chart.savedQuery?.name}
+                          </p>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="space-y-8 lg:col-span-3">
+              {/* Builder */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>{chartId === null ? 'New Chart' : 'Edit Chart'}</CardTitle>
+                  <CardDescription>
+                    Pick a saved query, then map its columns to the chart axes
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <label htmlFor="chart-name" className="text-sm font-medium">
+                        Name
+                      </label>
+                      <Input
+                        id="chart-name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Monthly revenue"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label htmlFor="chart-query" className="text-sm font-medium">
+                        Saved Query
+                      </label>
+                      <div className="flex gap-2">
+                        <select
+                          id="chart-query"
+                          value={savedQueryId ?? ''}
+                          onChange={(e) => selectSavedQuery(Number(e.target.value))}
+                          className={selectClasses}
+                        >
+                          <option value="" disabled>
+                            Select a saved query
+                          </option>
+                          {savedQueries.map((query) => (
+                            <option key={query.id} value={query.id}>
+                              {query.name}
+                            </option>
+                          ))}
+                        </select>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => resultQuery.refetch().catch(() => {})}
+                          disabled={savedQueryId === null || running}
+                          aria-label="Refresh data"
+                        >
+                          {running ? <CircleNotch className="animate-spin" /> : <Play />}
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Chart type */}
+                  <div className="flex flex-wrap gap-2">
+                    {CHART_TYPES.map(({ type: option, label, icon: Icon }) => (
+                      <Button
+                        key={option}
+                        variant={type === option ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => {
+                          setType(option);
+                          if (option === 'pie') {
+                            setConfig((current) => ({
+                              ...current,
+                              yColumns: current.yColumns.slice(0, 1),
+                              seriesColumn: null,
+                            }));
+                          }
+                        }}
+                      >
+                        <Icon />
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+
+                  {columns.length > 0 && (
+                    <div className="grid gap-4 md:grid-cols-3">
+                      <div className="space-y-2">
+                        <label htmlFor="chart-x" className="text-sm font-medium">
+                          {type === 'pie' ? 'Label column' : 'X axis'}
+                        </label>
+                        <select
+                          id="chart-x"
+                          value={config.xColumn}
+                          onChange={(e) =>
+                            setConfig((current) => ({ ...current, xColumn: e.target.value }))
+                          }
+                          className={selectClasses}
+                        >
+                          {columns.map((column) => (
+                            <option key={column.name} value={column.name}>
+                              {column.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div className="space-y-2">
+                        <label htmlFor="chart-series" className="text-sm font-medium">
+                          Series
+                        </label>
+                        <select
+                          id="chart-series"
+                          value={config.seriesColumn ?? ''}
+                          onChange={(e) =>
+                            setConfig((current) => ({
+                              ...current,
+                              seriesColumn: e.target.value || null,
+                              yColumns: e.target.value
+                                ? current.yColumns.slice(0, 1)
+                                : current.yColumns,
+                            }))
+                          }
+                          disabled={type === 'pie'}
+                          className={selectClasses}
+                        >
+                          <option value="">None</option>
+                          {columns.map((column) => (
+                            <option key={column.name} value={column.name}>
+                              {column.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div className="space-y-2">
+                        <label htmlFor="chart-aggregation" className="text-sm font-medium">
+                          Aggregation
+                        </label>
+                        <select
+                          id="chart-aggregation"
+                          value={config.aggregation}
+                          onChange={(e) =>
+                            setConfig((current) => ({
+                              ...current,
+                              aggregation: e.target.value as ChartAggregation,
+                            }))
+                          }
+                          className={selectClasses}
+                        >
+                          {AGGREGATIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div className="space-y-2 md:col-span-3">
+                        <p className="text-sm font-medium">
+                          {type === 'pie' ? 'Value column' : 'Y axis'}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          {columns
+                            .filter((column) => column.name !== config.xColumn)
+                            .map((column) => (
+                              <button
+                                key={column.name}
+                                type="button"
+                                onClick={() => toggleYColumn(column.name)}
+                                className={cn(
+                                  'rounded-full border px-3 py-1 text-xs',
+                                  config.yColumns.includes(column.name)
+                                    ? 'border-primary bg-primary text-primary-foreground'
+                                    : 'hover:bg-muted'
+                                )}
+                              >
+                                {column.name}
+                              </button>
+                            ))}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex justify-end gap-2">
+                    {chartId !== null && (
+                      <Button variant="outline" onClick={deleteChart}>
+                        <Trash />
+                        Delete
+                      </Button>
+                    )}
+                    <Button
+                      onClick={saveChart}
+                      disabled={
+                        !name.trim() ||
+                        savedQueryId === null ||
+                        !config.xColumn ||
+                        config.yColumns.length === 0 ||
+                        saving
+                      }
+                    >
+                      {saving ? <CircleNotch className="animate-spin" /> : <FloppyDisk />}
+                      Save Chart
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Preview */}
+              {result && (
+                <ChartWrapper
+                  title={name || 'Preview'}
+                  description={
+                    result.truncated
+                      ? 'Based on a truncated result; add a LIMIT or aggregate in SQL for full coverage'
+                      : undefined
+                  }
+                >
+                  <ChartRenderer type={type} data={data} xKey={config.xColumn} keys={keys} />
+                </ChartWrapper>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
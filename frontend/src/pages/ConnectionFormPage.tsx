@@ -0,0 +1,105 @@
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, CircleNotch, Database, Warning } from '@phosphor-icons/react';
+import { ConnectionForm } from '@/components/ConnectionForm';
+import { Card, CardContent } from '@/components/ui/card';
+import { describeError } from '@/lib/api';
+import {
+  connectionFormValues,
+  emptyConnectionForm,
+  toUpdateRequest,
+  type ConnectionFormOutput,
+} from '@/lib/connectionForm';
+import { useConnection, useCreateConnection, useUpdateConnection } from '@/lib/queries';
+
+// Create a connection at /connections/new, or edit one at /connections/:id/edit
+export function ConnectionFormPage() {
+  const navigate = useNavigate();
+  const { id: idParam } = useParams();
+  const id = idParam === undefined ? null : Number(idParam);
+
+  const { data, error: loadError, isLoading } = useConnection(id ?? 0, { enabled: id !== null });
+  const connection = id === null ? undefined : data?.data;
+  const create = useCreateConnection();
+  const update = useUpdateConnection();
+  const { isPending: saving, error: saveError } = id === null ? create : update;
+
+  const backTo = id === null ? '/connections' : `/connections/${id}`;
+
+  const save = async (output: ConnectionFormOutput) => {
+    try {
+      if (id === null) {
+        const { data: created } = await create.mutate(output);
+        navigate(`/connections/${created.id}`);
+        return;
+      }
+
+      const changes = toUpdateRequest(output, connection!);
+      if (Object.keys(changes).length > 0) {
+        await update.mutate({ id, changes });
+      }
+      navigate(backTo);
+    } catch {
+      // Shown by the form through saveError
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-12rem)]">
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto space-y-8">
+          {/* Page Header */}
+          <div>
+            <Link
+              to={backTo}
+              className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft size={14} />
+              {id === null ? 'Connections' : 'Connection'}
+            </Link>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+              <Database size={32} weight="duotone" className="text-primary" />
+              {id === null ? 'New Connection' : 'Edit Connection'}
+            </h1>
+          </div>
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="flex items-center justify-center gap-3 text-muted-foreground py-8">
+              <CircleNotch size={24} className="animate-spin" />
+              <span>Loading connection details...</span>
+            </div>
+          )}
+
+          {/* Error State */}
+          {id !== null && !connection && loadError !== undefined && (
+            <Card className="border-destructive">
+              <CardContent className="pt-6">
+                <div className="flex items-start gap-3 text-destructive">
+                  <Warning size={24} weight="fill" />
+                  <div>
+                    <p className="font-medium mb-1">Error Loading Connection</p>
+                    <p className="text-sm">{describeError(loadError, 'Failed to fetch connection')}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {(id === null || connection) && (
+            <ConnectionForm
+              // Start over if the connection loads or changes underneath the form
+              key={connection ? `${connection.id}-${connection.updatedAt}` : 'new'}
+              initialValues={connection ? connectionFormValues(connection) : emptyConnectionForm}
+              connection={connection}
+              submitLabel={id === null ? 'Create Connection' : 'Save Changes'}
+              submitting={saving}
+              submitError={saveError}
+              onSubmit={save}
+              onCancel={() => navigate(backTo)}
+            />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,50 +1,47 @@
-import { useState, useEffect } from 'react';
-import { Database, Warning, CircleNotch } from '@phosphor-icons/react';
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Database,
+  Warning,
+  CircleNotch,
+  Eye,
+  EyeSlash,
+  PencilSimple,
+  Trash,
+  TreeStructure,
+} from '@phosphor-icons/react';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ConnectionTestButton } from '@/components/ConnectionTestButton';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-
-interface Connection {
-  id: number;
-  name: string;
-  host: string;
-  port: number;
-  database: string;
-  status: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import { describeError } from '@/lib/api';
+import { driverLabel } from '@/lib/connectionForm';
+import { useConnection, useConnectionUrl, useDeleteConnection } from '@/lib/queries';
 
 export function ConnectionPage() {
-  const [connection, setConnection] = useState<Connection | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const id = Number(useParams().id);
+  const { data, error, isLoading } = useConnection(id);
+  const connection = data?.data;
+  // The role on this connection, which a grant can set below the account role
+  const canEdit = connection !== undefined && connection.role !== 'viewer';
 
-  useEffect(() => {
-    fetchConnection();
-  }, []);
+  // Viewers only ever get the masked URL
+  const [revealCredentials, setRevealCredentials] = useState(false);
+  const connectionUrl = useConnectionUrl(id, revealCredentials, {
+    enabled: connection !== undefined,
+  });
 
-  const fetchConnection = async () => {
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const { mutate: deleteConnection, isPending: deleting, error: deleteError } = useDeleteConnection();
+
+  const confirmDelete = async () => {
     try {
-      setLoading(true);
-      setError(null);
-      
-      const apiUrl = import.meta.env.VITE_API_URL;
-      const fullUrl = `${apiUrl}/api/connection`;
-      console.log('🔍 Debug - VITE_API_URL:', apiUrl);
-      console.log('🔍 Debug - Full URL:', fullUrl);
-      console.log('🔍 Debug - All env vars:', import.meta.env);
-      
-      const response = await fetch(fullUrl);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch connection: ${response.statusText}`);
-      }
-      
-      const result = await response.json();
-      setConnection(result.data);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch connection');
-    } finally {
-      setLoading(false);
+      await deleteConnection(id);
+      navigate('/connections');
+    } catch {
+      // Shown in the dialog through deleteError
     }
   };
 
@@ -53,18 +50,45 @@ export function ConnectionPage() {
       <main className="container mx-auto px-4 py-8">
         <div className="max-w-3xl mx-auto space-y-8">
           {/* Page Header */}
-          <div>
-            <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
-              <Database size={32} weight="duotone" className="text-primary" />
-              Database Connection
-            </h1>
-            <p className="text-muted-foreground">
-              View information about the active database connection
-            </p>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <Link
+                to="/connections"
+                className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+              >
+                <ArrowLeft size={14} />
+                Connections
+              </Link>
+              <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+                <Database size={32} weight="duotone" className="text-primary" />
+                Database Connection
+              </h1>
+            </div>
+            {connection && (
+              <div className="flex items-start gap-2">
+                <Button variant="outline" size="sm" onClick={() => navigate(`/connections/${id}/schema`)}>
+                  <TreeStructure />
+                  Browse Schema
+                </Button>
+                {canEdit && (
+                  <>
+                    <ConnectionTestButton connectionId={id} />
+                    <Button variant="outline" size="sm" onClick={() => navigate(`/connections/${id}/edit`)}>
+                      <PencilSimple />
+                      Edit
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setConfirmingDelete(true)}>
+                      <Trash />
+                      Delete
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Loading State */}
-          {loading && (
+          {isLoading && (
             <Card>
               <CardContent className="pt-6">
                 <div className="flex items-center justify-center gap-3 text-muted-foreground py-8">
@@ -76,14 +100,14 @@ export function ConnectionPage() {
           )}
 
           {/* Error State */}
-          {error && (
+          {!connection && error !== undefined && (
             <Card className="border-destructive">
               <CardContent className="pt-6">
                 <div className="flex items-start gap-3 text-destructive">
                   <Warning size={24} weight="fill" />
                   <div>
                     <p className="font-medium mb-1">Error Loading Connection</p>
-                    <p className="text-sm">{error}</p>
+                    <p className="text-sm">{describeError(error, 'Failed to fetch connection')}</p>
                   </div>
                 </div>
               </CardContent>
@@ -91,7 +115,7 @@ export function ConnectionPage() {
           )}
 
           {/* Connection Details */}
-          {connection && !loading && (
+          {connection && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -113,16 +137,26 @@ export function ConnectionPage() {
                 <div className="space-y-4">
                   {/* Connection Details Grid */}
                   <div className="grid gap-4 md:grid-cols-2">
-                    <div className="space-y-1">
-                      <p className="text-sm font-medium text-muted-foreground">Host</p>
-                      <p className="text-base font-mono">{connection.host}</p>
-                    </div>
+                    {/* SQLite connections are a file on the server, with no host or port */}
+                    {connection.host !== null && (
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium text-muted-foreground">Host</p>
+                        <p className="text-base font-mono">{connection.host}</p>
+                      </div>
+                    )}
+
+                    {connection.port !== null && (
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium text-muted-foreground">Port</p>
+                        <p className="text-base font-mono">{connection.port}</p>
+                      </div>
+                    )}
                     
                     <div className="space-y-1">
-                      <p className="text-sm font-medium text-muted-foreground">Port</p>
-                      <p className="text-base font-mono">{connection.port}</p>
+                      <p className="text-sm font-medium text-muted-foreground">Engine</p>
+                      <p className="text-base">{driverLabel(connection.driver)}</p>
                     </div>
-                    
+
                     <div className="space-y-1">
                       <p className="text-sm font-medium text-muted-foreground">Database</p>
                       <p className="text-base font-mono">{connection.database}</p>
@@ -141,6 +175,30 @@ export function ConnectionPage() {
                         <p className="text-base capitalize">{connection.status}</p>
                       </div>
                     </div>
+
+                    {connection.host !== null && (
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium text-muted-foreground">TLS</p>
+                        <p className="text-base">
+                          {connection.sslMode === 'disabled'
+                            ? 'Disabled'
+                            : !connection.sslVerifyServerCert
+                              ? 'Required, server certificate not verified'
+                              : connection.sslVerifyHostname
+                                ? 'Required, server certificate and host name verified'
+                                : 'Required, server certificate verified'}
+                        </p>
+                      </div>
+                    )}
+
+                    {connection.sshHost !== null && (
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium text-muted-foreground">SSH Tunnel</p>
+                        <p className="text-base font-mono">
+                          {connection.sshUsername}@{connection.sshHost}:{connection.sshPort}
+                        </p>
+                      </div>
+                    )}
                   </div>
 
                   {/* Additional Info */}
@@ -151,6 +209,21 @@ export function ConnectionPage() {
                         <p className="font-mono">#{connection.id}</p>
                       </div>
                       
+                      <div className="space-y-1">
+                        <p className="font-medium text-muted-foreground">Last Checked</p>
+                        <p>
+                          {connection.lastCheckedAt
+                            ? new Date(connection.lastCheckedAt).toLocaleDateString('en-US', {
+                                year: 'numeric',
+                                month: 'short',
+                                day: 'numeric',
+                                hour: '2-digit',
+                                minute: '2-digit',
+                              })
+                            : 'Never'}
+                        </p>
+                      </div>
+
                       <div className="space-y-1">
                         <p className="font-medium text-muted-foreground">Last Updated</p>
                         <p>
@@ -166,12 +239,37 @@ export function ConnectionPage() {
                     </div>
                   </div>
 
+                  {connection.lastError && (
+                    <div className="rounded-lg border border-destructive p-4 text-sm text-destructive">
+                      <p className="font-medium mb-1">Last Error</p>
+                      <p className="break-words">{connection.lastError}</p>
+                    </div>
+                  )}
+
                   {/* Connection String Info */}
                   <div className="rounded-lg bg-muted p-4">
-                    <p className="text-sm font-medium mb-2">Connection String Format</p>
-                    <p className="text-sm font-mono text-muted-foreground break-all">
-                      mysql://user:password@{connection.host}:{connection.port}/{connection.database}
-                    </p>
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <p className="text-sm font-medium">Connection String</p>
+                      {canEdit && (connection.hasUsername || connection.hasPassword) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRevealCredentials((reveal) => !reveal)}
+                        >
+                          {revealCredentials ? <EyeSlash size={16} /> : <Eye size={16} />}
+                          {revealCredentials ? 'Hide credentials' : 'Show credentials'}
+                        </Button>
+                      )}
+                    </div>
+                    {connectionUrl.error !== undefined ? (
+                      <p className="text-sm text-destructive">
+                        {describeError(connectionUrl.error, 'Failed to fetch connection string')}
+                      </p>
+                    ) : (
+                      <p className="text-sm font-mono text-muted-foreground break-all">
+                        {connectionUrl.data?.data.url ?? 'Loading...'}
+                      </p>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -179,6 +277,19 @@ export function ConnectionPage() {
           )}
         </div>
       </main>
+
+      <ConfirmDialog
+        open={confirmingDelete}
+        title="Delete connection?"
+        confirmLabel="Delete"
+        pending={deleting}
+        error={deleteError ? describeError(deleteError, 'Failed to delete connection') : null}
+        onConfirm={confirmDelete}
+        onCancel={() => setConfirmingDelete(false)}
+      >
+        <strong className="text-foreground">{connection?.name}</strong> will be removed along with its
+        health checks and query history. Saved queries that use it are kept without a connection.
+      </ConfirmDialog>
     </div>
   );
 }
@@ -0,0 +1,312 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  CaretLeft,
+  CaretRight,
+  CircleNotch,
+  Database,
+  MagnifyingGlass,
+  PencilSimple,
+  Plus,
+  Trash,
+  Warning,
+} from '@phosphor-icons/react';
+import type { Connection, ConnectionWithRole } from 'api-client';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ConnectionTestButton } from '@/components/ConnectionTestButton';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import { describeError } from '@/lib/api';
+import { CONNECTION_STATUSES, driverLabel, type ConnectionStatus } from '@/lib/connectionForm';
+import { useConnections, useDeleteConnection } from '@/lib/queries';
+
+const PAGE_SIZE = 20;
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+const selectClasses =
+  'flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 sm:w-44';
+
+const statusDotClasses: Record<string, string> = {
+  active: 'bg-green-500',
+  inactive: 'bg-muted-foreground',
+  error: 'bg-destructive',
+};
+
+// Where a connection points, as shown in lists
+const connectionAddress = (connection: Connection) =>
+  connection.host === null
+    ? connection.database
+    : `${connection.host}:${connection.port}/${connection.database}`;
+
+export function ConnectionsPage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  // Creating a connection depends on the account role; editing one on the role it grants
+  const canCreate = user?.role !== 'viewer';
+
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<ConnectionStatus | ''>('');
+  const [page, setPage] = useState(1);
+  const [deleting, setDeleting] = useState<Connection | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const { data, error, isLoading } = useConnections({
+    page,
+    limit: PAGE_SIZE,
+    ...(search && { search }),
+    ...(status && { status }),
+  });
+  const { mutate: deleteConnection, isPending: deletePending, error: deleteError, reset: resetDelete } =
+    useDeleteConnection();
+
+  const connections: ConnectionWithRole[] = data?.data ?? [];
+  const canEdit = (connection: ConnectionWithRole) => connection.role !== 'viewer';
+  const showActions = connections.some(canEdit);
+  const pagination = data?.pagination;
+  const filtered = search !== '' || status !== '';
+
+  // Deleting the last row of a page would leave it empty
+  useEffect(() => {
+    if (pagination && pagination.totalPages > 0 && page > pagination.totalPages) {
+      setPage(pagination.totalPages);
+    }
+  }, [pagination, page]);
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await deleteConnection(deleting.id);
+      setDeleting(null);
+    } catch {
+      // Shown in the dialog through deleteError
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-12rem)]">
+      <main className="container mx-auto px-4 py-8">
+        <div className="space-y-8">
+          {/* Page Header */}
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+                <Database size={32} weight="duotone" className="text-primary" />
+                Connections
+              </h1>
+              <p className="text-muted-foreground">The databases you can query and monitor</p>
+            </div>
+            {canCreate && (
+              <Button onClick={() => navigate('/connections/new')}>
+                <Plus />
+                New Connection
+              </Button>
+            )}
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <div className="relative flex-1">
+              <MagnifyingGlass
+                size={16}
+                className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground"
+              />
+              <Input
+                value={searchInput}
+                onChange={(e) => {
+                  setSearchInput(e.target.value);
+                  setPage(1);
+                }}
+                placeholder="Search by name, host or database"
+                aria-label="Search connections"
+                className="pl-9"
+              />
+            </div>
+            <select
+              value={status}
+              onChange={(e) => {
+                setStatus(e.target.value as ConnectionStatus | '');
+                setPage(1);
+              }}
+              aria-label="Filter by status"
+              className={`${selectClasses} capitalize`}
+            >
+              <option value="">All statuses</option>
+              {CONNECTION_STATUSES.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Error State */}
+          {!data && error !== undefined && (
+            <Card className="border-destructive">
+              <CardContent className="pt-6">
+                <div className="flex items-start gap-3 text-destructive">
+                  <Warning size={24} weight="fill" />
+                  <div>
+                    <p className="font-medium mb-1">Error Loading Connections</p>
+                    <p className="text-sm">{describeError(error, 'Failed to fetch connections')}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="flex items-center justify-center gap-3 text-muted-foreground py-8">
+              <CircleNotch size={24} className="animate-spin" />
+              <span>Loading connections...</span>
+            </div>
+          )}
+
+          {data && connections.length === 0 && (
+            <p className="text-center text-muted-foreground py-8">
+              {filtered ? 'No connections match these filters' : 'No connections yet'}
+            </p>
+          )}
+
+          {connections.length > 0 && (
+            <Card>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b text-left text-muted-foreground">
+                    <tr>
+                      <th className="px-4 py-3 font-medium">Name</th>
+                      <th className="px-4 py-3 font-medium">Engine</th>
+                      <th className="px-4 py-3 font-medium">Address</th>
+                      <th className="px-4 py-3 font-medium">Status</th>
+                      <th className="px-4 py-3 font-medium">Last Checked</th>
+                      {showActions && <th className="px-4 py-3 font-medium text-right">Actions</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {connections.map((connection) => (
+                      <tr key={connection.id} className="border-b last:border-0 align-top">
+                        <td className="px-4 py-3 font-medium">
+                          <Link to={`/connections/${connection.id}`} className="hover:underline">
+                            {connection.name}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-3">{driverLabel(connection.driver)}</td>
+                        <td className="px-4 py-3 font-mono text-xs break-all">
+                          {connectionAddress(connection)}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center gap-2">
+                            <div
+                              className={`w-2 h-2 rounded-full ${statusDotClasses[connection.status] ?? 'bg-yellow-500'}`}
+                            />
+                            <span className="capitalize">{connection.status}</span>
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-muted-foreground">
+                          {connection.lastCheckedAt
+                            ? new Date(connection.lastCheckedAt).toLocaleString('en-US', {
+                                month: 'short',
+                                day: 'numeric',
+                                hour: '2-digit',
+                                minute: '2-digit',
+                              })
+                            : 'Never'}
+                        </td>
+                        {showActions && (
+                          <td className="px-4 py-3">
+                            {canEdit(connection) && (
+                              <div className="flex items-start justify-end gap-2">
+                                <div className="max-w-64">
+                                  <ConnectionTestButton connectionId={connection.id} />
+                                </div>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => navigate(`/connections/${connection.id}/edit`)}
+                                  aria-label={`Edit ${connection.name}`}
+                                >
+                                  <PencilSimple />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => {
+                                    resetDelete();
+                                    setDeleting(connection);
+                                  }}
+                                  aria-label={`Delete ${connection.name}`}
+                                >
+                                  <Trash />
+                                </Button>
+                              </div>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
+
+          {/* Pagination */}
+          {pagination && pagination.total > 0 && (
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {(pagination.page - 1) * pagination.limit + 1}–
+                {Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total}
+              </span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  aria-label="Previous page"
+                >
+                  <CaretLeft />
+                </Button>
+                <span>
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pagination.totalPages}
+                  aria-label="Next page"
+                >
+                  <CaretRight />
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <ConfirmDialog
+        open={deleting !== null}
+        title="Delete connection?"
+        confirmLabel="Delete"
+        pending={deletePending}
+        error={deleteError ? describeError(deleteError, 'Failed to delete connection') : null}
+        onConfirm={confirmDelete}
+        onCancel={() => setDeleting(null)}
+      >
+        <strong className="text-foreground">{deleting?.name}</strong> will be removed along with its
+        health checks and query history. Saved queries that use it are kept without a connection.
+      </ConfirmDialog>
+    </div>
+  );
+}
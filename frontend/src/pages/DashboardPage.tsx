@@ -0,0 +1,496 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowClockwise,
+  ArrowLeft,
+  CircleNotch,
+  FloppyDisk,
+  PencilSimple,
+  Plus,
+  SquaresFour,
+  Trash,
+  Warning,
+} from '@phosphor-icons/react';
+import {
+  ApiError,
+  type Dashboard,
+  type DashboardWidget as DashboardWidgetRow,
+} from 'api-client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  DashboardWidget,
+  WIDGET_GAP,
+  WIDGET_ROW_HEIGHT,
+  type DashboardWidgetData,
+} from '@/components/DashboardWidget';
+import type { ChartAggregation } from '@/lib/chartData';
+import { DATE_RANGE_PRESETS, resolveDateRange, type DateRangePreset } from '@/lib/dateRange';
+import { describeError } from '@/lib/api';
+import {
+  useCharts,
+  useDashboard,
+  useDeleteDashboard,
+  useSavedQueries,
+  useSetDashboardWidgets,
+  useUpdateDashboard,
+} from '@/lib/queries';
+
+// Client-side key so unsaved widgets can be reordered before they have an ID
+type LayoutWidget = DashboardWidgetData & { key: string };
+
+const REFRESH_INTERVALS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Auto-refresh off' },
+  { value: 30, label: 'Every 30 seconds' },
+  { value: 60, label: 'Every minute' },
+  { value: 300, label: 'Every 5 minutes' },
+  { value: 900, label: 'Every 15 minutes' },
+  { value: 3600, label: 'Every hour' },
+];
+
+const AGGREGATIONS: ChartAggregation[] = ['sum', 'avg', 'count', 'min', 'max', 'none'];
+
+const selectClasses =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+const toLayout = (widgets: DashboardWidgetRow[]): LayoutWidget[] =>
+  widgets.map((widget) => ({ ...widget, key: `widget-${widget.id}` }));
+
+// Only the fields the widgets endpoint accepts
+const toPayload = (widget: LayoutWidget) =>
+  widget.kind === 'chart'
+    ? {
+        kind: widget.kind,
+        chartId: widget.chartId,
+        title: widget.title,
+        width: widget.width,
+        height: widget.height,
+      }
+    : {
+        kind: widget.kind,
+        savedQueryId: widget.savedQueryId,
+        title: widget.title,
+        config: widget.config,
+        width: widget.width,
+        height: widget.height,
+      };
+
+export function DashboardPage() {
+  const { id } = useParams();
+  const dashboardId = Number(id);
+  const navigate = useNavigate();
+  const { data: dashboardResponse, error: loadError, isLoading } = useDashboard(dashboardId);
+  // The pickers for new widgets are optional; the dashboard still renders without them
+  const { data: chartsResponse } = useCharts({ limit: 100 });
+  const { data: savedQueriesResponse } = useSavedQueries({ limit: 100 });
+  const { mutate: updateDashboard, error: updateError } = useUpdateDashboard();
+  const { mutate: setWidgets, isPending: saving, error: saveError } = useSetDashboardWidgets();
+  const { mutate: deleteDashboardById, error: deleteError } = useDeleteDashboard();
+  // The layout being edited; null while the saved one is shown
+  const [draft, setDraft] = useState<LayoutWidget[] | null>(null);
+  const [refreshToken, setRefreshToken] = useState(0);
+  const [newKind, setNewKind] = useState<'chart' | 'kpi'>('chart');
+  const [newChartId, setNewChartId] = useState('');
+  const [newKpi, setNewKpi] = useState({
+    savedQueryId: '',
+    title: '',
+    valueColumn: '',
+    aggregation: 'sum' as ChartAggregation,
+    prefix: '',
+  });
+  const nextKey = useRef(0);
+
+  const dashboard = dashboardResponse?.data ?? null;
+  const charts = chartsResponse?.data ?? [];
+  const savedQueries = savedQueriesResponse?.data ?? [];
+  const editing = draft !== null;
+  const savedWidgets = dashboard?.widgets;
+  const widgets = useMemo(() => draft ?? toLayout(savedWidgets ?? []), [draft, savedWidgets]);
+
+  const editWidgets = (update: (current: LayoutWidget[]) => LayoutWidget[]) =>
+    setDraft((current) => (current ? update(current) : current));
+
+  const error =
+    loadError !== undefined
+      ? loadError instanceof ApiError && loadError.status === 404
+        ? 'Dashboard not found'
+        : describeError(loadError, 'Failed to fetch dashboard')
+      : updateError
+        ? describeError(updateError, 'Failed to update dashboard')
+        : saveError
+          ? describeError(saveError, 'Failed to save layout')
+          : deleteError
+            ? describeError(deleteError, 'Failed to delete dashboard')
+            : null;
+
+  // Auto-refresh, skipped while the tab is hidden
+  const refreshIntervalSeconds = dashboard?.refreshIntervalSeconds ?? null;
+  useEffect(() => {
+    if (!refreshIntervalSeconds) return;
+    const timer = setInterval(() => {
+      if (!document.hidden) setRefreshToken((token) => token + 1);
+    }, refreshIntervalSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [refreshIntervalSeconds]);
+
+  // Passed to every widget query as :from and :to
+  const dateRangePreset = dashboard?.dateRangePreset ?? '30d';
+  const parameters = useMemo(
+    () => resolveDateRange(dateRangePreset),
+    // Recompute on refresh so "last N days" keeps moving with the clock
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [dateRangePreset, refreshToken]
+  );
+
+  const updateSettings = (
+    changes: Partial<Pick<Dashboard, 'refreshIntervalSeconds' | 'dateRangePreset'>>
+  ) => {
+    // Rolled back and shown through updateError if it fails
+    updateDashboard({ id: dashboardId, changes }).catch(() => {});
+  };
+
+  const addWidget = () => {
+    const key = `new-${nextKey.current++}`;
+
+    if (newKind === 'chart') {
+      const chart = charts.find((entry) => entry.id === Number(newChartId));
+      if (!chart) return;
+      editWidgets((current) => [
+        ...current,
+        { key, kind: 'chart', chartId: chart.id, chart, title: null, width: 2, height: 2 },
+      ]);
+      setNewChartId('');
+      return;
+    }
+
+    if (!newKpi.savedQueryId || !newKpi.title.trim() || !newKpi.valueColumn.trim()) return;
+    editWidgets((current) => [
+      ...current,
+      {
+        key,
+        kind: 'kpi',
+        savedQueryId: Number(newKpi.savedQueryId),
+        title: newKpi.title.trim(),
+        config: {
+          valueColumn: newKpi.valueColumn.trim(),
+          aggregation: newKpi.aggregation,
+          decimals: 2,
+          prefix: newKpi.prefix,
+          suffix: '',
+        },
+        width: 1,
+        height: 1,
+      },
+    ]);
+    setNewKpi({ savedQueryId: '', title: '', valueColumn: '', aggregation: 'sum', prefix: '' });
+  };
+
+  const moveWidget = (index: number, offset: -1 | 1) => {
+    editWidgets((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const saveLayout = async () => {
+    if (!draft) return;
+
+    try {
+      await setWidgets({
+        id: dashboardId,
+        body: { widgets: draft.map(toPayload) },
+      });
+      setDraft(null);
+    } catch {
+      // Shown through saveError
+    }
+  };
+
+  const deleteDashboard = async () => {
+    if (!dashboard || !window.confirm(`Delete dashboard "${dashboard.name}"?`)) return;
+
+    try {
+      await deleteDashboardById(dashboardId);
+      navigate('/dashboards');
+    } catch {
+      // Shown through deleteError
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-[calc(100vh-12rem)]">
+        <main className="container mx-auto px-4 py-8">
+          <div className="flex items-center justify-center gap-3 text-muted-foreground py-8">
+            <CircleNotch size={24} className="animate-spin" />
+            <span>Loading dashboard...</span>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-12rem)]">
+      <main className="container mx-auto px-4 py-8">
+        <div className="space-y-8">
+          {/* Page Header */}
+          <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+            <div>
+              <Link
+                to="/dashboards"
+                className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+              >
+                <ArrowLeft size={14} />
+                All dashboards
+              </Link>
+              <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+                <SquaresFour size={32} weight="duotone" className="text-primary" />
+                {dashboard?.name ?? 'Dashboard'}
+              </h1>
+              {dashboard?.description && (
+                <p className="text-muted-foreground">{dashboard.description}</p>
+              )}
+            </div>
+
+            {dashboard && (
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={dashboard.dateRangePreset}
+                  onChange={(e) =>
+                    updateSettings({ dateRangePreset: e.target.value as DateRangePreset })
+                  }
+                  className={`${selectClasses} w-auto`}
+                  aria-label="Date range"
+                >
+                  {DATE_RANGE_PRESETS.map((preset) => (
+                    <option key={preset.value} value={preset.value}>
+                      {preset.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={dashboard.refreshIntervalSeconds ?? ''}
+                  onChange={(e) =>
+                    updateSettings({
+                      refreshIntervalSeconds: e.target.value ? Number(e.target.value) : null,
+                    })
+                  }
+                  className={`${selectClasses} w-auto`}
+                  aria-label="Auto-refresh interval"
+                >
+                  {REFRESH_INTERVALS.map((interval) => (
+                    <option key={interval.label} value={interval.value ?? ''}>
+                      {interval.label}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setRefreshToken((token) => token + 1)}
+                  aria-label="Refresh now"
+                >
+                  <ArrowClockwise />
+                </Button>
+                {editing ? (
+                  <>
+                    <Button variant="ghost" onClick={() => setDraft(null)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={saveLayout} disabled={saving}>
+                      {saving ? <CircleNotch className="animate-spin" /> : <FloppyDisk />}
+                      Save Layout
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button variant="outline" onClick={() => setDraft(widgets)}>
+                      <PencilSimple />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={deleteDashboard}
+                      aria-label="Delete dashboard"
+                    >
+                      <Trash />
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Error State */}
+          {error && (
+            <Card className="border-destructive">
+              <CardContent className="pt-6">
+                <div className="flex items-start gap-3 text-destructive">
+                  <Warning size={24} weight="fill" />
+                  <div>
+                    <p className="font-medium mb-1">Dashboard Error</p>
+                    <p className="text-sm">{error}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Add widget */}
+          {editing && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Add Widget</CardTitle>
+                <CardDescription>
+                  Saved queries receive the date range as :from and :to, e.g.{' '}
+                  <code className="font-mono">WHERE (:from IS NULL OR created_at &gt;= :from)</code>
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant={newKind === 'chart' ? 'default' : 'outline'}
+                    onClick={() => setNewKind('chart')}
+                  >
+                    Chart
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={newKind === 'kpi' ? 'default' : 'outline'}
+                    onClick={() => setNewKind('kpi')}
+                  >
+                    KPI
+                  </Button>
+                </div>
+
+                {newKind === 'chart' ? (
+                  <div className="flex flex-col gap-2 sm:flex-row">
+                    <select
+                      value={newChartId}
+                      onChange={(e) => setNewChartId(e.target.value)}
+                      className={selectClasses}
+                      aria-label="Chart"
+                    >
+                      <option value="">Select a saved chart</option>
+                      {charts.map((chart) => (
+                        <option key={chart.id} value={chart.id}>
+                          {chart.name}
+                        </option>
+                      ))}
+                    </select>
+                    <Button onClick={addWidget} disabled={!newChartId}>
+                      <Plus />
+                      Add
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="grid gap-2 md:grid-cols-6">
+                    <select
+                      value={newKpi.savedQueryId}
+                      onChange={(e) => setNewKpi({ ...newKpi, savedQueryId: e.target.value })}
+                      className={`${selectClasses} md:col-span-2`}
+                      aria-label="Saved query"
+                    >
+                      <option value="">Select a saved query</option>
+                      {savedQueries.map((query) => (
+                        <option key={query.id} value={query.id}>
+                          {query.name}
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      value={newKpi.title}
+                      onChange={(e) => setNewKpi({ ...newKpi, title: e.target.value })}
+                      placeholder="Title"
+                      aria-label="KPI title"
+                    />
+                    <Input
+                      value={newKpi.valueColumn}
+                      onChange={(e) => setNewKpi({ ...newKpi, valueColumn: e.target.value })}
+                      placeholder="Value column"
+                      aria-label="Value column"
+                    />
+                    <select
+                      value={newKpi.aggregation}
+                      onChange={(e) =>
+                        setNewKpi({ ...newKpi, aggregation: e.target.value as ChartAggregation })
+                      }
+                      className={selectClasses}
+                      aria-label="Aggregation"
+                    >
+                      {AGGREGATIONS.map((aggregation) => (
+                        <option key={aggregation} value={aggregation}>
+                          {aggregation}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="flex gap-2">
+                      <Input
+                        value={newKpi.prefix}
+                        onChange={(e) => setNewKpi({ ...newKpi, prefix: e.target.value })}
+                        placeholder="Prefix"
+                        aria-label="Value prefix"
+                        maxLength={10}
+                      />
+                      <Button
+                        onClick={addWidget}
+                        disabled={
+                          !newKpi.savedQueryId || !newKpi.title.trim() || !newKpi.valueColumn.trim()
+                        }
+                        aria-label="Add KPI"
+                      >
+                        <Plus />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {dashboard && widgets.length === 0 && !editing && (
+            <Card>
+              <CardContent className="pt-6 text-center text-muted-foreground">
+                This dashboard is empty. Click Edit to add charts and KPIs.
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Widget grid */}
+          <section
+            className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4"
+            style={{ gridAutoRows: WIDGET_ROW_HEIGHT, gap: WIDGET_GAP }}
+          >
+            {widgets.map((widget, index) => (
+              <DashboardWidget
+                key={widget.key}
+                widget={widget}
+                parameters={parameters}
+                refreshToken={refreshToken}
+                editing={editing}
+                onResize={(width, height) =>
+                  editWidgets((current) =>
+                    current.map((entry) =>
+                      entry.key === widget.key ? { ...entry, width, height } : entry
+                    )
+                  )
+                }
+                onMove={(offset) => moveWidget(index, offset)}
+                onRemove={() =>
+                  editWidgets((current) => current.filter((entry) => entry.key !== widget.key))
+                }
+              />
+            ))}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { SquaresFour, CircleNotch, Plus, Warning } from '@phosphor-icons/react';
+import type { DashboardSummary } from 'api-client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { describeError } from '@/lib/api';
+import { useCreateDashboard, useDashboards } from '@/lib/queries';
+
+export function DashboardsPage() {
+  const navigate = useNavigate();
+  const [name, setName] = useState('');
+  const { data, error: loadError, isLoading: loading } = useDashboards({ limit: 100 });
+  const { mutate: create, isPending: creating, error: createError } = useCreateDashboard();
+
+  const dashboards: DashboardSummary[] = data?.data ?? [];
+  const error = createError
+    ? describeError(createError, 'Failed to create dashboard')
+    : !data && loadError !== undefined
+      ? describeError(loadError, 'Failed to fetch dashboards')
+      : null;
+
+  const createDashboard = async () => {
+    if (!name.trim() || creating) return;
+
+    try {
+      const { data } = await create({ name });
+      navigate(`/dashboards/${data.id}`);
+    } catch {
+      // Shown through createError
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-12rem)]">
+      <main className="container mx-auto px-4 py-8">
+        <div className="space-y-8">
+          {/* Page Header */}
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+              <SquaresFour size={32} weight="duotone" className="text-primary" />
+              Dashboards
+            </h1>
+            <p className="text-muted-foreground">Charts and KPIs from your saved queries</p>
+          </div>
+
+          {/* Create */}
+          <Card>
+            <CardContent className="pt-6">
+              <form
+                className="flex flex-col gap-2 sm:flex-row"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  createDashboard();
+                }}
+              >
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="New dashboard name"
+                  aria-label="Dashboard name"
+                />
+                <Button type="submit" disabled={!name.trim() || creating}>
+                  {creating ? <CircleNotch className="animate-spin" /> : <Plus />}
+                  Create
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {/* Error State */}
+          {error && (
+            <Card className="border-destructive">
+              <CardContent className="pt-6">
+                <div className="flex items-start gap-3 text-destructive">
+                  <Warning size={24} weight="fill" />
+                  <div>
+                    <p className="font-medium mb-1">Error</p>
+                    <p className="text-sm">{error}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Loading State */}
+          {loading && (
+            <div className="flex items-center justify-center gap-3 text-muted-foreground py-8">
+              <CircleNotch size={24} className="animate-spin" />
+              <span>Loading dashboards...</span>
+            </div>
+          )}
+
+          {!loading && dashboards.length === 0 && !error && (
+            <p className="text-center text-muted-foreground py-8">No dashboards yet</p>
+          )}
+
+          <section className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {dashboards.map((dashboard) => (
+              <Link key={dashboard.id} to={`/dashboards/${dashboard.id}`}>
+                <Card className="h-full transition-colors hover:border-primary">
+                  <CardHeader>
+                    <CardTitle>{dashboard.name}</CardTitle>
+                    {dashboard.description && (
+                      <CardDescription>{dashboard.description}</CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent className="text-sm text-muted-foreground">
+                    {dashboard._count.widgets} widget{dashboard._count.widgets === 1 ? '' : 's'}
+                    {dashboard.refreshIntervalSeconds &&
+                      ` · refreshes every ${dashboard.refreshIntervalSeconds}s`}
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
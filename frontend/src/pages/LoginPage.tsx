@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Navigate, useLocation, type Location } from 'react-router-dom';
+import { CircleNotch, SignIn, Warning } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+
+export function LoginPage() {
+  const { user, loading, login } = useAuth();
+  const location = useLocation();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Send the user back to the page that required sign-in
+  const from = (location.state as { from?: Location } | null)?.from?.pathname || '/';
+
+  if (!loading && user) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async () => {
+    if (submitting) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await login(email, password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-12rem)]">
+      <main className="container mx-auto px-4 py-16">
+        <Card className="mx-auto max-w-sm">
+          <CardHeader>
+            <CardTitle>Sign in</CardTitle>
+            <CardDescription>Use the account your administrator created for you</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSubmit();
+              }}
+            >
+              <div className="space-y-2">
+                <label htmlFor="login-email" className="text-sm font-medium">
+                  Email
+                </label>
+                <Input
+                  id="login-email"
+                  type="email"
+                  autoComplete="username"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="login-password" className="text-sm font-medium">
+                  Password
+                </label>
+                <Input
+                  id="login-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+
+              {error && (
+                <div className="flex items-start gap-2 text-sm text-destructive">
+                  <Warning size={16} weight="fill" className="mt-0.5 shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <Button type="submit" className="w-full" disabled={submitting || !email || !password}>
+                {submitting ? <CircleNotch className="animate-spin" /> : <SignIn />}
+                Sign in
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import {
+  TerminalWindow,
+  Warning,
+  CircleNotch,
+  Play,
+  Table,
+  FloppyDisk,
+} from '@phosphor-icons/react';
+import type { Connection, QueryResult } from 'api-client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { SqlEditor } from '@/components/SqlEditor';
+import { ResultsGrid } from '@/components/ResultsGrid';
+import { QueryLibrary } from '@/components/QueryLibrary';
+import { describeError } from '@/lib/api';
+import { useConnections, useCreateSavedQuery, useRunQuery } from '@/lib/queries';
+
+export function QueryPage() {
+  const connectionsQuery = useConnections({ limit: 100 });
+  const [selectedConnectionId, setConnectionId] = useState<number | null>(null);
+  const [sql, setSql] = useState('SELECT 1;');
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [saveTags, setSaveTags] = useState('');
+  const { mutate: runSql, isPending: running, error: runError } = useRunQuery();
+  const { mutate: createSavedQuery, isPending: saving, error: createError } = useCreateSavedQuery();
+
+  const connections: Connection[] = connectionsQuery.data?.data ?? [];
+  const loadingConnections = connectionsQuery.isLoading;
+  // Default to the first connection until one is picked
+  const connectionId = selectedConnectionId ?? connections[0]?.id ?? null;
+  const connectionsError =
+    !connectionsQuery.data && connectionsQuery.error !== undefined
+      ? describeError(connectionsQuery.error, 'Failed to fetch connections')
+      : null;
+  const error = runError ? describeError(runError, 'Query failed') : null;
+  const saveError = createError ? describeError(createError, 'Failed to save query') : null;
+
+  const runQuery = async () => {
+    if (connectionId === null || running || !sql.trim()) return;
+
+    try {
+      setResult((await runSql({ id: connectionId, body: { sql } })).data);
+    } catch {
+      // Shown through runError
+      setResult(null);
+    }
+  };
+
+  const saveQuery = async () => {
+    if (!saveName.trim() || saving) return;
+
+    try {
+      await createSavedQuery({
+        name: saveName,
+        sql,
+        connectionId,
+        tags: saveTags
+          .split(',')
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+      });
+
+      setShowSaveForm(false);
+      setSaveName('');
+      setSaveTags('');
+    } catch {
+      // Shown through saveError
+    }
+  };
+
+  const loadQuery = (nextSql: string, nextConnectionId: number | null) => {
+    setSql(nextSql);
+    if (nextConnectionId !== null && connections.some((c) => c.id === nextConnectionId)) {
+      setConnectionId(nextConnectionId);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-12rem)]">
+      <main className="container mx-auto px-4 py-8">
+        <div className="space-y-8">
+          {/* Page Header */}
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+              <TerminalWindow size={32} weight="duotone" className="text-primary" />
+              Query Editor
+            </h1>
+            <p className="text-muted-foreground">Run read-only SQL against a stored connection</p>
+          </div>
+
+          <div className="grid gap-8 lg:grid-cols-4">
+            <div className="space-y-8 lg:col-span-3">
+              {/* Editor */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>SQL</CardTitle>
+                  <CardDescription>
+                    Press Ctrl+Enter (⌘+Enter on macOS) to run the query
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                    <label htmlFor="query-connection" className="text-sm font-medium">
+                      Connection
+                    </label>
+                    <select
+                      id="query-connection"
+                      value={connectionId ?? ''}
+                      onChange={(e) => setConnectionId(Number(e.target.value))}
+                      disabled={loadingConnections || connections.length === 0}
+                      className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 sm:w-80"
+                    >
+                      {loadingConnections && <option value="">Loading connections...</option>}
+                      {!loadingConnections && connections.length === 0 && (
+                        <option value="">No connections available</option>
+                      )}
+                      {connections.map((connection) => (
+                        <option key={connection.id} value={connection.id}>
+                          {connection.name} ({connection.database}@{connection.host})
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowSaveForm((show) => !show)}
+                      disabled={!sql.trim()}
+                      className="sm:ml-auto"
+                    >
+                      <FloppyDisk />
+                      Save
+                    </Button>
+                    <Button
+                      onClick={runQuery}
+                      disabled={connectionId === null || running || !sql.trim()}
+                    >
+                      {running ? <CircleNotch className="animate-spin" /> : <Play weight="fill" />}
+                      Run
+                    </Button>
+                  </div>
+
+                  {showSaveForm && (
+                    <div className="rounded-lg bg-muted p-4 space-y-3">
+                      <div className="grid gap-3 md:grid-cols-2">
+                        <Input
+                          value={saveName}
+                          onChange={(e) => setSaveName(e.target.value)}
+                          placeholder="Query name"
+                          aria-label="Query name"
+                        />
+                        <Input
+                          value={saveTags}
+                          onChange={(e) => setSaveTags(e.target.value)}
+                          placeholder="Tags, comma separated"
+                          aria-label="Tags"
+                        />
+                      </div>
+                      {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setShowSaveForm(false)}>
+                          Cancel
+                        </Button>
+                        <Button size="sm" onClick={saveQuery} disabled={!saveName.trim() || saving}>
+                          {saving && <CircleNotch className="animate-spin" />}
+                          Save Query
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  <SqlEditor
+                    value={sql}
+                    onChange={setSql}
+                    onRun={runQuery}
+                    placeholder="SELECT * FROM your_table LIMIT 100;"
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Running State */}
+              {running && (
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="flex items-center justify-center gap-3 text-muted-foreground py-8">
+                      <CircleNotch size={24} className="animate-spin" />
+                      <span>Running query...</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Error State */}
+              {(error ?? connectionsError) && !running && (
+                <Card className="border-destructive">
+                  <CardContent className="pt-6">
+                    <div className="flex items-start gap-3 text-destructive">
+                      <Warning size={24} weight="fill" />
+                      <div>
+                        <p className="font-medium mb-1">Error Running Query</p>
+                        <p className="text-sm">{error ?? connectionsError}</p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Results */}
+              {result && !running && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Table size={24} weight="duotone" className="text-primary" />
+                      Results
+                    </CardTitle>
+                    <CardDescription>
+                      {result.columns.length > 0
+                        ? `${result.rowCount.toLocaleString()} row${result.rowCount === 1 ? '' : 's'}`
+                        : `${result.affectedRows ?? 0} row(s) affected`}{' '}
+                      in {result.durationMs} ms
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {result.truncated && (
+                      <div className="flex items-center gap-2 rounded-lg bg-muted p-3 text-sm">
+                        <Warning size={16} weight="fill" className="text-yellow-500" />
+                        <span>
+                          Results were truncated to the first {result.rowCount.toLocaleString()}{' '}
+                          rows. Add a LIMIT clause to narrow the query.
+                        </span>
+                      </div>
+                    )}
+                    {result.columns.length > 0 && (
+                      <ResultsGrid columns={result.columns} rows={result.rows} />
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+
+            {/* Saved queries and history */}
+            <div>
+              <QueryLibrary onSelect={loadQuery} />
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
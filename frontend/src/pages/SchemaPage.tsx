@@ -0,0 +1,440 @@
+import { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  ArrowsClockwise,
+  CaretDown,
+  CaretRight,
+  CircleNotch,
+  Eye,
+  MagnifyingGlass,
+  Table,
+  TreeStructure,
+  Warning,
+} from '@phosphor-icons/react';
+import type { DatabaseSchema } from 'api-client';
+import { ErDiagram } from '@/components/ErDiagram';
+import { ResultsGrid } from '@/components/ResultsGrid';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { describeError } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { useConnection, useConnectionSchema, useRefreshConnectionSchema, useTablePreview } from '@/lib/queries';
+
+type TableInfo = DatabaseSchema['tables'][number];
+
+// A table in the tree, with the columns to list under it when expanded
+interface TreeEntry {
+  table: TableInfo;
+  columns: TableInfo['columns'];
+  // Shown expanded because only its columns matched the search
+  matchedByColumn: boolean;
+}
+
+function filterTables(tables: TableInfo[], search: string): TreeEntry[] {
+  const term = search.trim().toLowerCase();
+  if (term === '') {
+    return tables.map((table) => ({ table, columns: table.columns, matchedByColumn: false }));
+  }
+
+  return tables.flatMap((table): TreeEntry[] => {
+    if (table.name.toLowerCase().includes(term)) {
+      return [{ table, columns: table.columns, matchedByColumn: false }];
+    }
+    const columns = table.columns.filter((column) => column.name.toLowerCase().includes(term));
+    return columns.length > 0 ? [{ table, columns, matchedByColumn: true }] : [];
+  });
+}
+
+const headerClasses = 'px-4 py-2 font-medium';
+const cellClasses = 'px-4 py-2';
+
+// Browse a connection's tables at /connections/:id/schema
+export function SchemaPage() {
+  const id = Number(useParams().id);
+  const { data: connectionData } = useConnection(id);
+  const { data, error, isLoading } = useConnectionSchema(id);
+  const { mutate: refreshSchema, isPending: refreshing, error: refreshError } = useRefreshConnectionSchema();
+  const schema = data?.data;
+
+  const [search, setSearch] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [view, setView] = useState<'table' | 'diagram'>('table');
+
+  const entries = useMemo(() => filterTables(schema?.tables ?? [], search), [schema, search]);
+  // The selected table can disappear when the schema is refreshed
+  const selected = schema?.tables.find((table) => table.name === selectedName);
+
+  const preview = useTablePreview(id, selected?.name ?? '', {
+    enabled: selected !== undefined && view === 'table',
+  });
+
+  const toggle = (name: string) => {
+    const next = new Set(expanded);
+    if (next.has(name)) next.delete(name);
+    else next.add(name);
+    setExpanded(next);
+  };
+
+  const select = (name: string) => {
+    setSelectedName(name);
+    setView('table');
+  };
+
+  const refresh = async () => {
+    try {
+      await refreshSchema(id);
+    } catch {
+      // Shown above the tree through refreshError
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-12rem)]">
+      <main className="container mx-auto px-4 py-8">
+        <div className="space-y-8">
+          {/* Page Header */}
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <Link
+                to={`/connections/${id}`}
+                className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+              >
+                <ArrowLeft size={14} />
+                {connectionData?.data.name ?? 'Connection'}
+              </Link>
+              <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+                <TreeStructure size={32} weight="duotone" className="text-primary" />
+                Schema
+              </h1>
+              {schema && (
+                <p className="text-muted-foreground">
+                  {schema.database} · read{' '}
+                  {new Date(schema.introspectedAt).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="flex rounded-md border p-0.5">
+                <Button
+                  variant={view === 'table' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setView('table')}
+                >
+                  Table
+                </Button>
+                <Button
+                  variant={view === 'diagram' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setView('diagram')}
+                >
+                  Diagram
+                </Button>
+              </div>
+              <Button variant="outline" size="sm" onClick={refresh} disabled={refreshing}>
+                <ArrowsClockwise className={cn(refreshing && 'animate-spin')} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          {refreshError !== null && (
+            <p className="text-sm text-destructive">{describeError(refreshError, 'Failed to refresh schema')}</p>
+          )}
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="flex items-center justify-center gap-3 text-muted-foreground py-8">
+              <CircleNotch size={24} className="animate-spin" />
+              <span>Reading schema...</span>
+            </div>
+          )}
+
+          {/* Error State */}
+          {!schema && error !== undefined && (
+            <Card className="border-destructive">
+              <CardContent className="pt-6">
+                <div className="flex items-start gap-3 text-destructive">
+                  <Warning size={24} weight="fill" />
+                  <div>
+                    <p className="font-medium mb-1">Error Loading Schema</p>
+                    <p className="text-sm">{describeError(error, 'Failed to fetch schema')}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {schema && (
+            <div className="grid gap-6 lg:grid-cols-[18rem_1fr]">
+              {/* Table Tree */}
+              <Card className="self-start">
+                <CardContent className="pt-6 space-y-3">
+                  <div className="relative">
+                    <MagnifyingGlass
+                      size={16}
+                      className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground"
+                    />
+                    <Input
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Search tables and columns"
+                      aria-label="Search tables and columns"
+                      className="pl-9"
+                    />
+                  </div>
+
+                  {entries.length === 0 && (
+                    <p className="text-center text-sm text-muted-foreground py-4">
+                      {schema.tables.length === 0 ? 'This database has no tables' : 'Nothing matches this search'}
+                    </p>
+                  )}
+
+                  <ul className="max-h-[60vh] overflow-y-auto text-sm">
+                    {entries.map(({ table, columns, matchedByColumn }) => {
+                      const open = matchedByColumn || expanded.has(table.name);
+                      const TableIcon = table.type === 'view' ? Eye : Table;
+                      return (
+                        <li key={table.name}>
+                          <div
+                            className={cn(
+                              'flex items-center rounded-md',
+                              table.name === selected?.name ? 'bg-secondary' : 'hover:bg-muted'
+                            )}
+                          >
+                            <button
+                              type="button"
+                              onClick={() => toggle(table.name)}
+                              disabled={matchedByColumn}
+                              aria-label={open ? `Collapse ${table.name}` : `Expand ${table.name}`}
+                              className="p-1.5 text-muted-foreground"
+                            >
+                              {open ? <CaretDown size={12} /> : <CaretRight size={12} />}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => select(table.name)}
+                              className="flex min-w-0 flex-1 items-center gap-2 py-1.5 pr-2 text-left"
+                            >
+                              <TableIcon size={14} className="shrink-0 text-muted-foreground" />
+                              <span className="truncate">{table.name}</span>
+                            </button>
+                          </div>
+                          {open && (
+                            <ul className="ml-6 border-l pl-3">
+                              {columns.map((column) => (
+                                <li key={column.name} className="flex items-baseline justify-between gap-2 py-0.5">
+                                  <span className="truncate">{column.name}</span>
+                                  <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                                    {column.columnType}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </CardContent>
+              </Card>
+
+              {/* Diagram */}
+              {view === 'diagram' && (
+                <Card>
+                  <CardContent className="pt-6">
+                    <ErDiagram
+                      schema={schema}
+                      selectedTable={selected?.name ?? null}
+                      onSelectTable={select}
+                      filename={`${schema.database}-schema`}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {view === 'table' && !selected && (
+                <p className="text-center text-muted-foreground py-8">
+                  Select a table to see its columns and data
+                </p>
+              )}
+
+              {/* Table Details */}
+              {view === 'table' && selected && (
+                <div className="min-w-0 space-y-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        {selected.type === 'view' ? <Eye size={20} /> : <Table size={20} />}
+                        {selected.name}
+                      </CardTitle>
+                      <CardDescription>
+                        {selected.type === 'view' ? 'View' : 'Table'}
+                        {selected.engine && ` · ${selected.engine}`}
+                        {selected.approximateRowCount !== null &&
+                          ` · about ${selected.approximateRowCount.toLocaleString()} rows`}
+                        {selected.comment && ` · ${selected.comment}`}
+                      </CardDescription>
+                    </CardHeader>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead className="border-y text-left text-muted-foreground">
+                          <tr>
+                            <th className={headerClasses}>Column</th>
+                            <th className={headerClasses}>Type</th>
+                            <th className={headerClasses}>Nullable</th>
+                            <th className={headerClasses}>Default</th>
+                            <th className={headerClasses}>Key</th>
+                            <th className={headerClasses}>Extra</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {selected.columns.map((column) => (
+                            <tr key={column.name} className="border-b last:border-0">
+                              <td className={`${cellClasses} font-medium`}>{column.name}</td>
+                              <td className={`${cellClasses} font-mono text-xs`}>{column.columnType}</td>
+                              <td className={cellClasses}>{column.nullable ? 'Yes' : 'No'}</td>
+                              <td className={`${cellClasses} font-mono text-xs`}>
+                                {column.defaultValue ?? <span className="text-muted-foreground">—</span>}
+                              </td>
+                              <td className={cellClasses}>{column.key}</td>
+                              <td className={`${cellClasses} text-muted-foreground`}>{column.extra}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </Card>
+
+                  {selected.indexes.length > 0 && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Indexes</CardTitle>
+                      </CardHeader>
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead className="border-y text-left text-muted-foreground">
+                            <tr>
+                              <th className={headerClasses}>Name</th>
+                              <th className={headerClasses}>Columns</th>
+                              <th className={headerClasses}>Kind</th>
+                              <th className={headerClasses}>Type</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {selected.indexes.map((index) => (
+                              <tr key={index.name} className="border-b last:border-0">
+                                <td className={`${cellClasses} font-medium`}>{index.name}</td>
+                                <td className={`${cellClasses} font-mono text-xs`}>{index.columns.join(', ')}</td>
+                                <td className={cellClasses}>
+                                  {index.primary ? 'Primary' : index.unique ? 'Unique' : 'Index'}
+                                </td>
+                                <td className={`${cellClasses} text-muted-foreground`}>{index.type}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </Card>
+                  )}
+
+                  {selected.foreignKeys.length > 0 && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Foreign Keys</CardTitle>
+                      </CardHeader>
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead className="border-y text-left text-muted-foreground">
+                            <tr>
+                              <th className={headerClasses}>Name</th>
+                              <th className={headerClasses}>Columns</th>
+                              <th className={headerClasses}>References</th>
+                              <th className={headerClasses}>On Update</th>
+                              <th className={headerClasses}>On Delete</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {selected.foreignKeys.map((foreignKey) => {
+                              const referenced = schema.tables.some(
+                                (table) => table.name === foreignKey.referencedTable
+                              );
+                              const references = `${foreignKey.referencedTable}(${foreignKey.referencedColumns.join(', ')})`;
+                              return (
+                                <tr key={foreignKey.name} className="border-b last:border-0">
+                                  <td className={`${cellClasses} font-medium`}>{foreignKey.name}</td>
+                                  <td className={`${cellClasses} font-mono text-xs`}>
+                                    {foreignKey.columns.join(', ')}
+                                  </td>
+                                  <td className={`${cellClasses} font-mono text-xs`}>
+                                    {referenced ? (
+                                      <button
+                                        type="button"
+                                        onClick={() => select(foreignKey.referencedTable)}
+                                        className="text-primary hover:underline"
+                                      >
+                                        {references}
+                                      </button>
+                                    ) : (
+                                      references
+                                    )}
+                                  </td>
+                                  <td className={cellClasses}>{foreignKey.onUpdate}</td>
+                                  <td className={cellClasses}>{foreignKey.onDelete}</td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    </Card>
+                  )}
+
+                  {/* Data Preview */}
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Data</CardTitle>
+                      {preview.data?.data.truncated && (
+                        <CardDescription>Showing the first {preview.data.data.rowCount} rows</CardDescription>
+                      )}
+                    </CardHeader>
+                    <CardContent>
+                      {preview.isLoading && (
+                        <div className="flex items-center justify-center gap-3 text-muted-foreground py-8">
+                          <CircleNotch size={24} className="animate-spin" />
+                          <span>Loading rows...</span>
+                        </div>
+                      )}
+                      {!preview.data && preview.error !== undefined && (
+                        <p className="text-sm text-destructive">
+                          {describeError(preview.error, 'Failed to load rows')}
+                        </p>
+                      )}
+                      {preview.data && preview.data.data.rows.length === 0 && (
+                        <p className="text-center text-muted-foreground py-8">This table is empty</p>
+                      )}
+                      {preview.data && preview.data.data.rows.length > 0 && (
+                        <ResultsGrid
+                          columns={preview.data.data.columns}
+                          rows={preview.data.data.rows}
+                          height={360}
+                        />
+                      )}
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import type { Request } from 'express';
+import prisma from './prisma';
+import { redact } from './redact';
+import type { AuditAction } from './auditActions';
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+type JsonObject = { [key: string]: JsonValue };
+
+// Json columns only take plain JSON, so dates become ISO strings the way the API sends them
+const toJsonObject = (value: object): JsonObject => JSON.parse(JSON.stringify(value));
+
+interface AuditEntry {
+  action: AuditAction;
+  connectionId?: number | null;
+  success?: boolean;
+  changes?: FieldChanges | null;
+  metadata?: Record<string, unknown> | null;
+  // Defaults to req.user; set for events that happen before a session exists, like logins
+  actor?: { id: number | null; email: string } | null;
+}
+
+// Fields that change on every write and would only add noise to a diff
+const IGNORED_DIFF_FIELDS = new Set(['updatedAt']);
+
+const comparable = (value: unknown) =>
+  value instanceof Date ? value.toISOString() : JSON.stringify(value);
+
+// Field-by-field diff of two versions of a record. Pass null for a record that was
+// created or deleted. Values under sensitive keys come out as [REDACTED].
+export function diffFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): FieldChanges {
+  const changes: FieldChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    if (IGNORED_DIFF_FIELDS.has(key)) continue;
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (comparable(from) !== comparable(to)) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return redact(changes) as FieldChanges;
+}
+
+// Append an event to the audit log. Like query history, a failed write is logged
+// and swallowed so it never changes the outcome of the action being audited.
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  const actor = entry.actor ?? req.user ?? null;
+
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        action: entry.action,
+        actorId: actor?.id ?? null,
+        actorEmail: actor?.email ?? null,
+        connectionId: entry.connectionId ?? null,
+        requestId: req.id,
+        ipAddress: req.ip ?? null,
+        success: entry.success ?? true,
+        changes: entry.changes ? toJsonObject(entry.changes) : undefined,
+        metadata: entry.metadata ? toJsonObject(redact(entry.metadata) as object) : undefined,
+      },
+    });
+  } catch (error) {
+    req.log.error('Failed to record audit event', { err: error, action: entry.action });
+  }
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'action',
+  'success',
+  'actorId',
+  'actorEmail',
+  'connectionId',
+  'requestId',
+  'ipAddress',
+  'changes',
+  'metadata',
+] as const;
+
+const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+  // Cells starting with =, +, - or @ get a leading quote so spreadsheets don't run them as formulas
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const AUDIT_CSV_HEADER = CSV_COLUMNS.join(',') + '\n';
+
+export const toAuditCsvRow = (event: Record<string, unknown>): string =>
+  CSV_COLUMNS.map((column) => toCsvCell(event[column])).join(',') + '\n';
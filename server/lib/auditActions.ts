@@ -0,0 +1,15 @@
+// Every audit event type. The API client types its audit filters from this list.
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.login_failed',
+  'auth.logout',
+  'connection.create',
+  'connection.update',
+  'connection.credentials_change',
+  'connection.url_reveal',
+  'connection.delete',
+  'connection.grant_update',
+  'connection.grant_delete',
+  'query.run',
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
@@ -0,0 +1,232 @@
+import type { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import prisma from './prisma';
+import { env } from './env';
+import { toRole, type Role } from './roles';
+
+export const SESSION_COOKIE_NAME = 'sferal_session';
+
+export interface AuthUser {
+  id: number;
+  email: string;
+  name: string | null;
+  role: Role;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+const SESSION_TTL_MS = env.SESSION_TTL_HOURS * 60 * 60 * 1000;
+
+// Failed logins allowed per client address before it is locked out for the window
+const MAX_FAILED_LOGINS = 10;
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+export const toAuthUser = (user: {
+  id: number;
+  email: string;
+  name: string | null;
+  role: string;
+}): AuthUser => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: toRole(user.role),
+});
+
+// Passwords are hashed with Bun's built-in argon2id implementation
+export const hashPassword = (password: string): Promise<string> => Bun.password.hash(password);
+
+// Session tokens are only stored hashed, so a leaked sessions table can't be replayed
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Verified against unknown emails so response timing doesn't reveal which accounts exist
+let dummyPasswordHash: Promise<string> | null = null;
+
+export async function authenticateUser(email: string, password: string): Promise<AuthUser | null> {
+  const user = await prisma.user.findUnique({
+    where: { email: email.toLowerCase() },
+  });
+
+  if (!user) {
+    dummyPasswordHash ??= hashPassword(crypto.randomBytes(16).toString('hex'));
+    await Bun.password.verify(password, await dummyPasswordHash);
+    return null;
+  }
+
+  if (!(await Bun.password.verify(password, user.passwordHash))) {
+    return null;
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date() },
+  });
+
+  return toAuthUser(user);
+}
+
+const failedLogins = new Map<string, { count: number; resetAt: number }>();
+
+export function isLoginLocked(clientKey: string): boolean {
+  const entry = failedLogins.get(clientKey);
+  if (!entry) return false;
+  if (entry.resetAt <= Date.now()) {
+    failedLogins.delete(clientKey);
+    return false;
+  }
+  return entry.count >= MAX_FAILED_LOGINS;
+}
+
+export function recordLoginAttempt(clientKey: string, success: boolean) {
+  if (success) {
+    failedLogins.delete(clientKey);
+    return;
+  }
+
+  const now = Date.now();
+  const entry = failedLogins.get(clientKey);
+  if (!entry || entry.resetAt <= now) {
+    failedLogins.set(clientKey, { count: 1, resetAt: now + FAILED_LOGIN_WINDOW_MS });
+  } else {
+    entry.count++;
+  }
+}
+
+export async function createSession(
+  userId: number,
+  meta: { userAgent?: string; ipAddress?: string }
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await prisma.session.create({
+    data: {
+      tokenHash: hashToken(token),
+      userId,
+      expiresAt,
+      userAgent: meta.userAgent?.slice(0, 512) ?? null,
+      ipAddress: meta.ipAddress ?? null,
+    },
+  });
+
+  // Opportunistic cleanup keeps the table from growing without a separate job
+  await prisma.session.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+
+  return { token, expiresAt };
+}
+
+// Delete a session, returning the user it belonged to (null if it was already gone)
+export async function destroySession(token: string): Promise<AuthUser | null> {
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  if (!session) return null;
+
+  await prisma.session.deleteMany({
+    where: { id: session.id },
+  });
+
+  return toAuthUser(session.user);
+}
+
+export function readSessionToken(req: Request): string | null {
+  const header = req.headers.cookie;
+  if (!header) return null;
+
+  for (const part of header.split(';')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name === SESSION_COOKIE_NAME) {
+      try {
+        return decodeURIComponent(rest.join('=')) || null;
+      } catch {
+        // Not valid percent-encoding, so it cannot hold a token we issued
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+export function setSessionCookie(res: Response, token: string, expiresAt: Date) {
+  res.cookie(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(res: Response) {
+  res.clearCookie(SESSION_COOKIE_NAME, {
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+  });
+}
+
+// Look up the session behind a token. Sessions past half their lifetime are extended
+// (sliding expiry), in which case the new expiry is returned so the cookie can be refreshed.
+export async function resolveSession(
+  token: string
+): Promise<{ user: AuthUser; renewedUntil: Date | null } | null> {
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  if (!session) return null;
+
+  const now = Date.now();
+  if (session.expiresAt.getTime() <= now) {
+    await prisma.session.deleteMany({ where: { id: session.id } });
+    return null;
+  }
+
+  let renewedUntil: Date | null = null;
+  if (session.expiresAt.getTime() - now < SESSION_TTL_MS / 2) {
+    renewedUntil = new Date(now + SESSION_TTL_MS);
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { expiresAt: renewedUntil },
+    });
+  }
+
+  return { user: toAuthUser(session.user), renewedUntil };
+}
+
+// Reject requests without a valid session cookie and expose the user as req.user
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = readSessionToken(req);
+    const session = token ? await resolveSession(token) : null;
+
+    if (!token || !session) {
+      if (token) clearSessionCookie(res);
+      res.status(401).json({
+        error: 'Authentication required',
+      });
+      return;
+    }
+
+    if (session.renewedUntil) {
+      setSessionCookie(res, token, session.renewedUntil);
+    }
+
+    req.user = session.user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
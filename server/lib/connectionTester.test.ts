@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { closedPort, startFakeMysqlServer, type FakeMysqlServer } from '../test/fakeMysqlServer';
+import { testConnection } from './connectionTester';
+import { categorizeConnectionError, TargetDatabaseError, type ConnectionTarget } from './targetDatabase';
+
+const mysqlTarget = (port: number): ConnectionTarget => ({
+  driver: 'mysql',
+  host: '127.0.0.1',
+  port,
+  database: 'app',
+  username: 'app',
+  password: 'wrong',
+  tls: null,
+  sshTunnel: null,
+});
+
+describe('testConnection', () => {
+  let server: FakeMysqlServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  test('reports a timeout when the server never answers the handshake', async () => {
+    server = await startFakeMysqlServer({ kind: 'silent' });
+
+    const result = await testConnection(mysqlTarget(server.port), 300);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toMatchObject({ category: 'timeout', code: 'ETIMEDOUT' });
+    expect(result.latencyMs).toBeGreaterThanOrEqual(290);
+    expect(server.connections).toBe(1);
+  });
+
+  test('reports a refused connection when nothing listens on the port', async () => {
+    const result = await testConnection(mysqlTarget(await closedPort()), 2000);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toMatchObject({ category: 'refused', code: 'ECONNREFUSED' });
+  });
+
+  test('reports an auth failure when the server rejects the login', async () => {
+    server = await startFakeMysqlServer({
+      kind: 'reject',
+      errno: 1045,
+      sqlState: '28000',
+      message: "Access denied for user 'app'@'localhost' (using password: YES)",
+    });
+
+    const result = await testConnection(mysqlTarget(server.port), 2000);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toEqual({
+      category: 'auth',
+      code: 'ER_ACCESS_DENIED_ERROR',
+      message: "Access denied for user 'app'@'localhost' (using password: YES)",
+    });
+  });
+
+  test('reports an unknown database when the server does not have it', async () => {
+    server = await startFakeMysqlServer({
+      kind: 'reject',
+      errno: 1049,
+      sqlState: '42000',
+      message: "Unknown database 'app'",
+    });
+
+    const result = await testConnection(mysqlTarget(server.port), 2000);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toMatchObject({ category: 'unknown_database', code: 'ER_BAD_DB_ERROR' });
+  });
+});
+
+describe('categorizeConnectionError', () => {
+  test.each([
+    ['ENOTFOUND', 'dns'],
+    ['EAI_AGAIN', 'dns'],
+    ['ECONNREFUSED', 'refused'],
+    ['ECONNRESET', 'refused'],
+    ['EHOSTUNREACH', 'refused'],
+    ['ER_ACCESS_DENIED_ERROR', 'auth'],
+    ['ER_DBACCESS_DENIED_ERROR', 'auth'],
+    ['SQLITE_AUTH', 'auth'],
+    ['ER_BAD_DB_ERROR', 'unknown_database'],
+    ['SQLITE_CANTOPEN', 'unknown_database'],
+    ['ETIMEDOUT', 'timeout'],
+    ['PROTOCOL_SEQUENCE_TIMEOUT', 'timeout'],
+    ['ER_QUERY_TIMEOUT', 'timeout'],
+    ['ER_PARSE_ERROR', 'unknown'],
+  ])('%s is categorized as %s', (code, category) => {
+    expect(categorizeConnectionError({ code, message: 'failed' })).toEqual({
+      category: category as ReturnType<typeof categorizeConnectionError>['category'],
+      code,
+      message: 'failed',
+    });
+  });
+
+  test('keeps the category of errors that already have one', () => {
+    const error = new TargetDatabaseError({ category: 'auth', code: 'SSH_AUTH_FAILED', message: 'denied' });
+    expect(categorizeConnectionError(error)).toEqual({ category: 'auth', code: 'SSH_AUTH_FAILED', message: 'denied' });
+  });
+
+  test('falls back to a generic message for errors without one', () => {
+    expect(categorizeConnectionError(undefined)).toEqual({ category: 'unknown', message: 'Connection failed' });
+  });
+});
@@ -0,0 +1,81 @@
+import { getDriver } from './drivers';
+import { withTunnel } from './sshTunnel';
+import {
+  ConnectionTimeoutError,
+  categorizeConnectionError,
+  type ConnectionErrorInfo,
+  type ConnectionTarget,
+} from './targetDatabase';
+
+export type ConnectionTestResult =
+  | {
+      ok: true;
+      latencyMs: number;
+      serverVersion: string;
+      ssl: boolean;
+      checkedAt: string;
+    }
+  | {
+      ok: false;
+      latencyMs: number;
+      error: ConnectionErrorInfo;
+      checkedAt: string;
+    };
+
+export const DEFAULT_TEST_TIMEOUT_MS = 5000;
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, onTimeout: () => void) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      onTimeout();
+      reject(new ConnectionTimeoutError(timeoutMs));
+    }, timeoutMs);
+
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+// Open a real connection to the target through its driver, collect basic server facts and
+// close it. Never throws: failures are reported through the result.
+export async function testConnection(
+  target: ConnectionTarget,
+  timeoutMs: number = DEFAULT_TEST_TIMEOUT_MS
+): Promise<ConnectionTestResult> {
+  const startedAt = performance.now();
+  const controller = new AbortController();
+
+  try {
+    const info = await withTimeout(
+      // Opening the tunnel counts towards the timeout too
+      withTunnel(
+        target,
+        (reachable) => getDriver(target.driver).test(reachable, timeoutMs, controller.signal),
+        { timeoutMs, signal: controller.signal }
+      ),
+      timeoutMs,
+      () => controller.abort()
+    );
+
+    return {
+      ok: true,
+      latencyMs: Math.round(performance.now() - startedAt),
+      ...info,
+      checkedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: Math.round(performance.now() - startedAt),
+      error: categorizeConnectionError(error),
+      checkedAt: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,246 @@
+import { DRIVER_NAMES, type DriverName } from './drivers/types';
+import type { ConnectionCredentials } from './credentials';
+import type { ConnectionSettings, SslMode } from './targetDatabase';
+
+// Schemes accepted for each engine, the first one being used when writing URLs, and the port
+// a URL without one means. Engines without a default port are file-based and take a path.
+const URL_FORMATS: Record<DriverName, { schemes: string[]; defaultPort: number | null }> = {
+  mysql: { schemes: ['mysql', 'mariadb'], defaultPort: 3306 },
+  postgres: { schemes: ['postgres', 'postgresql'], defaultPort: 5432 },
+  sqlite: { schemes: ['sqlite'], defaultPort: null },
+  mssql: { schemes: ['sqlserver', 'mssql'], defaultPort: 1433 },
+};
+
+const driverForScheme = (scheme: string) =>
+  DRIVER_NAMES.find((name) => URL_FORMATS[name].schemes.includes(scheme.toLowerCase()));
+
+// Shown in place of credentials when a URL is exported without them
+const MASK = '****';
+
+export class ConnectionUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConnectionUrlError';
+  }
+}
+
+// The parts of a connection URL. Options are the query parameters, kept in order.
+export interface ConnectionUrl {
+  driver: DriverName;
+  host: string | null;
+  port: number | null;
+  database: string;
+  username: string | null;
+  password: string | null;
+  options: Record<string, string>;
+}
+
+// Host (a name, an IPv4 address or a bracketed IPv6 address), optional port, database and
+// query, as they follow the credentials. The database may not contain '@' or '/', which is
+// what lets passwords containing '@' be told apart from the host.
+const AUTHORITY_PATTERN = /^(\[[0-9A-Fa-f:.]+\]|[^:/?#@[\]]+)(?::(\d*))?(?:\/([^?#@/]*))?(?:\?([^#]*))?(?:#.*)?$/;
+
+// Values that were never percent-encoded (a password with a bare '%') are taken literally
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const parseOptions = (query: string | undefined): Record<string, string> =>
+  Object.fromEntries(new URLSearchParams(query ?? ''));
+
+export function parseConnectionUrl(input: string): ConnectionUrl {
+  const match = /^([A-Za-z][A-Za-z0-9+.-]*):(.*)$/s.exec(input.trim());
+  if (!match) {
+    throw new ConnectionUrlError('Connection URLs start with a scheme, e.g. mysql://');
+  }
+
+  const scheme = match[1]!.toLowerCase();
+  const rest = match[2]!;
+  const driver = driverForScheme(scheme);
+  if (!driver) {
+    throw new ConnectionUrlError(`Unsupported scheme "${scheme}:"`);
+  }
+
+  const { defaultPort } = URL_FORMATS[driver];
+
+  // File-based engines take a path: sqlite:reports/sales.db
+  if (defaultPort === null) {
+    const [path = '', query] = rest.replace(/^\/\//, '').split('?', 2);
+    return {
+      driver,
+      host: null,
+      port: null,
+      database: path.split('/').map(decode).join('/'),
+      username: null,
+      password: null,
+      options: parseOptions(query),
+    };
+  }
+
+  if (!rest.startsWith('//')) {
+    throw new ConnectionUrlError(`Expected "${scheme}://" followed by a host`);
+  }
+  const afterScheme = rest.slice(2);
+
+  // Passwords may contain unencoded '@' and ':', so try each '@' from the left (and none at
+  // all) until what follows it is a valid host
+  const separators = [-1];
+  for (let index = afterScheme.indexOf('@'); index !== -1; index = afterScheme.indexOf('@', index + 1)) {
+    separators.push(index);
+  }
+
+  for (const separator of separators) {
+    const authority = AUTHORITY_PATTERN.exec(afterScheme.slice(separator + 1));
+    if (!authority) continue;
+
+    const [, host, port, database, query] = authority;
+    const userinfo = separator === -1 ? '' : afterScheme.slice(0, separator);
+    const colon = userinfo.indexOf(':');
+    const username = decode(colon === -1 ? userinfo : userinfo.slice(0, colon));
+
+    const portNumber = port ? Number(port) : defaultPort;
+    if (portNumber < 1 || portNumber > 65535) {
+      throw new ConnectionUrlError('Port must be between 1 and 65535');
+    }
+
+    return {
+      driver,
+      host: host!.replace(/^\[(.*)\]$/, '$1'),
+      port: portNumber,
+      database: decode(database ?? ''),
+      username: username || null,
+      password: colon === -1 ? null : decode(userinfo.slice(colon + 1)),
+      options: parseOptions(query),
+    };
+  }
+
+  throw new ConnectionUrlError('Could not find a valid host in the URL');
+}
+
+export function formatConnectionUrl(
+  url: ConnectionUrl,
+  { maskCredentials = false }: { maskCredentials?: boolean } = {}
+): string {
+  const { schemes, defaultPort } = URL_FORMATS[url.driver];
+  const scheme = schemes[0]!;
+  const query = new URLSearchParams(url.options).toString();
+  const suffix = query ? `?${query}` : '';
+
+  if (defaultPort === null) {
+    return `${scheme}:${url.database.split('/').map(encodeURIComponent).join('/')}${suffix}`;
+  }
+
+  const secret = (value: string) => (maskCredentials ? MASK : encodeURIComponent(value));
+  const userinfo =
+    url.username !== null || url.password !== null
+      ? `${url.username !== null ? secret(url.username) : ''}${url.password !== null ? `:${secret(url.password)}` : ''}@`
+      : '';
+  const host = url.host?.includes(':') ? `[${url.host}]` : (url.host ?? '');
+  const port = url.port !== null ? `:${url.port}` : '';
+
+  return `${scheme}://${userinfo}${host}${port}/${encodeURIComponent(url.database)}${suffix}`;
+}
+
+// TLS options as MySQL and PostgreSQL clients spell them. Any of these are understood on
+// import; exports use the spelling of the connection's engine.
+const TLS_OPTION_NAMES = ['ssl-mode', 'sslmode', 'ssl'];
+type TlsSettings = { sslMode: SslMode; sslVerifyServerCert: boolean; sslVerifyHostname: boolean };
+
+// verify-ca checks the certificate chain only; verify-full and verify_identity add the host name
+const DISABLED: TlsSettings = { sslMode: 'disabled', sslVerifyServerCert: true, sslVerifyHostname: true };
+const UNVERIFIED: TlsSettings = { sslMode: 'required', sslVerifyServerCert: false, sslVerifyHostname: false };
+const VERIFY_CA: TlsSettings = { sslMode: 'required', sslVerifyServerCert: true, sslVerifyHostname: false };
+const VERIFY_FULL: TlsSettings = { sslMode: 'required', sslVerifyServerCert: true, sslVerifyHostname: true };
+
+const TLS_OPTION_VALUES: Record<string, TlsSettings> = {
+  disabled: DISABLED,
+  disable: DISABLED,
+  false: DISABLED,
+  required: UNVERIFIED,
+  require: UNVERIFIED,
+  true: UNVERIFIED,
+  verify_ca: VERIFY_CA,
+  'verify-ca': VERIFY_CA,
+  verify_identity: VERIFY_FULL,
+  'verify-full': VERIFY_FULL,
+};
+
+function tlsOptions(driver: DriverName, connection: ConnectionSettings): Record<string, string> {
+  if (connection.sslMode === 'disabled') return {};
+  if (!connection.sslVerifyServerCert) {
+    return driver === 'postgres' ? { sslmode: 'require' } : { 'ssl-mode': 'REQUIRED' };
+  }
+  if (!connection.sslVerifyHostname) {
+    return driver === 'postgres' ? { sslmode: 'verify-ca' } : { 'ssl-mode': 'VERIFY_CA' };
+  }
+  return driver === 'postgres' ? { sslmode: 'verify-full' } : { 'ssl-mode': 'VERIFY_IDENTITY' };
+}
+
+// Connection fields described by a URL. Options with no matching setting are reported back
+// rather than silently dropped.
+export function connectionFieldsFromUrl({ options, ...url }: ConnectionUrl) {
+  let tls: TlsSettings | undefined;
+  const ignoredOptions: string[] = [];
+
+  for (const [name, value] of Object.entries(options)) {
+    const setting = TLS_OPTION_NAMES.includes(name.toLowerCase())
+      ? TLS_OPTION_VALUES[value.toLowerCase()]
+      : undefined;
+    if (setting) {
+      tls = setting;
+    } else {
+      ignoredOptions.push(name);
+    }
+  }
+
+  return { fields: { ...url, ...tls }, ignoredOptions };
+}
+
+// The URL for a stored connection. SSH tunnels have no place in a URL and are left out.
+export const connectionUrlFor = (connection: ConnectionSettings & ConnectionCredentials): ConnectionUrl => ({
+  driver: connection.driver as DriverName,
+  host: connection.host,
+  port: connection.port,
+  database: connection.database,
+  username: connection.username,
+  password: connection.password,
+  options: tlsOptions(connection.driver as DriverName, connection),
+});
+
+// KEY=value lines, as written in .env files: `export` prefixes, comments and quoting are allowed
+function parseEnvFile(text: string): [key: string, value: string][] {
+  const entries: [string, string][] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match) continue;
+
+    const [, key, raw] = match as unknown as [string, string, string];
+    let value: string;
+    if (raw.startsWith('"')) {
+      value = (/^"((?:[^"\\]|\\.)*)"/.exec(raw)?.[1] ?? raw.slice(1)).replace(/\\(.)/g, (_, char: string) =>
+        char === 'n' ? '\n' : char
+      );
+    } else if (raw.startsWith("'")) {
+      value = /^'([^']*)'/.exec(raw)?.[1] ?? raw.slice(1);
+    } else {
+      // Unquoted values end at a comment
+      value = raw.replace(/\s+#.*$/, '');
+    }
+
+    entries.push([key, value]);
+  }
+
+  return entries;
+}
+
+// Entries of a .env file whose values are connection URLs for a known engine
+export const findConnectionUrls = (text: string) =>
+  parseEnvFile(text).filter(([, value]) => {
+    const scheme = /^([A-Za-z][A-Za-z0-9+.-]*):/.exec(value)?.[1];
+    return scheme !== undefined && driverForScheme(scheme) !== undefined;
+  });
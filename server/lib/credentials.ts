@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import { env } from './env';
+
+// Credentials are encrypted with AES-256-GCM and stored as
+// `v1.<keyId>.<iv>.<authTag>.<ciphertext>` (base64url segments).
+// The key id lets us decrypt values written with a previous key during rotation.
+const FORMAT_VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+const toEncryptionKey = (base64Key: string): EncryptionKey => {
+  const key = Buffer.from(base64Key, 'base64');
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+};
+
+const currentKey = toEncryptionKey(env.CREDENTIALS_ENCRYPTION_KEY);
+const keyring = new Map<string, EncryptionKey>(
+  [currentKey, ...env.CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS.map(toEncryptionKey)].map((entry) => [
+    entry.id,
+    entry,
+  ])
+);
+
+export class CredentialDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialDecryptionError';
+  }
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, currentKey.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [
+    FORMAT_VERSION,
+    currentKey.id,
+    iv.toString('base64url'),
+    authTag.toString('base64url'),
+    ciphertext.toString('base64url'),
+  ].join('.');
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, keyId, iv, authTag, ciphertext] = payload.split('.');
+
+  if (version !== FORMAT_VERSION || !keyId || !iv || !authTag || ciphertext === undefined) {
+    throw new CredentialDecryptionError('Unrecognized encrypted credential format');
+  }
+
+  const entry = keyring.get(keyId);
+  if (!entry) {
+    throw new CredentialDecryptionError(
+      `No encryption key configured for key id ${keyId}. Add it to CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS.`
+    );
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, entry.key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64url')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    throw new CredentialDecryptionError('Encrypted credential failed authentication');
+  }
+}
+
+// True when the value was encrypted with a key other than the current one
+export function needsReEncryption(payload: string): boolean {
+  return payload.split('.')[1] !== currentKey.id;
+}
+
+export function reEncryptSecret(payload: string): string {
+  return encryptSecret(decryptSecret(payload));
+}
+
+// Secrets kept on a Connection row, each in its own encrypted column: the database
+// credentials, the TLS client key and the SSH tunnel's key or password
+export const CONNECTION_SECRET_COLUMNS = {
+  username: 'usernameEncrypted',
+  password: 'passwordEncrypted',
+  sslKey: 'sslKeyEncrypted',
+  sshPrivateKey: 'sshPrivateKeyEncrypted',
+  sshPassword: 'sshPasswordEncrypted',
+} as const;
+
+type SecretName = keyof typeof CONNECTION_SECRET_COLUMNS;
+type SecretColumn = (typeof CONNECTION_SECRET_COLUMNS)[SecretName];
+
+const SECRET_NAMES = Object.keys(CONNECTION_SECRET_COLUMNS) as SecretName[];
+
+// Stored shape of the secret columns on a Connection row
+export type EncryptedCredentialFields = Record<SecretColumn, string | null>;
+
+export type ConnectionCredentials = Record<SecretName, string | null>;
+
+export function decryptConnectionCredentials(
+  connection: EncryptedCredentialFields
+): ConnectionCredentials {
+  const credentials = {} as ConnectionCredentials;
+
+  for (const name of SECRET_NAMES) {
+    const payload = connection[CONNECTION_SECRET_COLUMNS[name]];
+    credentials[name] = payload ? decryptSecret(payload) : null;
+  }
+
+  return credentials;
+}
+
+// Map plaintext secret input onto the encrypted columns.
+// `undefined` leaves a column untouched, `null` or an empty string clears it.
+export function encryptCredentialInput(
+  input: Partial<ConnectionCredentials>
+): Partial<EncryptedCredentialFields> {
+  const data: Partial<EncryptedCredentialFields> = {};
+
+  for (const name of SECRET_NAMES) {
+    const value = input[name];
+    if (value !== undefined) {
+      data[CONNECTION_SECRET_COLUMNS[name]] = value ? encryptSecret(value) : null;
+    }
+  }
+
+  return data;
+}
+
+// Split the write-only secrets out of a request body, leaving the plain fields
+export function splitCredentialInput<T extends Partial<ConnectionCredentials>>(
+  body: T
+): { secrets: Partial<ConnectionCredentials>; fields: Omit<T, SecretName> } {
+  const fields: Record<string, unknown> = { ...body };
+  const secrets: Partial<ConnectionCredentials> = {};
+
+  for (const name of SECRET_NAMES) {
+    secrets[name] = body[name];
+    delete fields[name];
+  }
+
+  return { secrets, fields: fields as Omit<T, SecretName> };
+}
+
+export interface PublicCredentialFlags {
+  hasUsername: boolean;
+  hasPassword: boolean;
+  hasSslKey: boolean;
+  hasSshPrivateKey: boolean;
+  hasSshPassword: boolean;
+}
+
+// Strip encrypted columns before a connection leaves the server.
+// Clients only learn whether secrets are set, never their values.
+export function toPublicConnection<T extends EncryptedCredentialFields>(
+  connection: T
+): Omit<T, keyof EncryptedCredentialFields> & PublicCredentialFlags {
+  const {
+    usernameEncrypted,
+    passwordEncrypted,
+    sslKeyEncrypted,
+    sshPrivateKeyEncrypted,
+    sshPasswordEncrypted,
+    ...rest
+  } = connection;
+  return {
+    ...rest,
+    hasUsername: usernameEncrypted !== null,
+    hasPassword: passwordEncrypted !== null,
+    hasSslKey: sslKeyEncrypted !== null,
+    hasSshPrivateKey: sshPrivateKeyEncrypted !== null,
+    hasSshPassword: sshPasswordEncrypted !== null,
+  };
+}
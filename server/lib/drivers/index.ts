@@ -0,0 +1,35 @@
+import { env } from '../env';
+import { mysqlDriver } from './mysql';
+import { sqliteDriver } from './sqlite';
+import { DRIVER_LABELS, type Driver, type DriverName } from './types';
+
+export * from './types';
+
+// Engines without an entry can be named on a connection but not used yet
+const drivers: Partial<Record<DriverName, Driver>> = {
+  mysql: mysqlDriver,
+  sqlite: sqliteDriver,
+};
+
+// Why connections using a driver cannot be saved or tested here, or null when they can
+export function driverUnavailableReason(name: DriverName): string | null {
+  if (!drivers[name]) {
+    return `${DRIVER_LABELS[name]} connections are not supported yet`;
+  }
+  if (name === 'sqlite' && !env.SQLITE_DATA_DIR) {
+    return 'SQLite connections are disabled because SQLITE_DATA_DIR is not set';
+  }
+  return null;
+}
+
+export function getDriver(name: DriverName): Driver {
+  const driver = drivers[name];
+  if (!driver) {
+    throw new Error(`No driver for ${name} connections`);
+  }
+  return driver;
+}
+
+export async function closeAllTargetConnections(): Promise<void> {
+  await Promise.all(Object.values(drivers).map((driver) => driver.closeAll()));
+}
@@ -0,0 +1,408 @@
+import mysql from 'mysql2/promise';
+import type { Connection as CoreConnection, FieldPacket } from 'mysql2';
+import {
+  ConnectionTimeoutError,
+  DEFAULT_CONNECT_TIMEOUT_MS,
+  toQueryError,
+  toTargetDatabaseError,
+  type ConnectionTarget,
+} from '../targetDatabase';
+import type { QueryColumn } from '../queryRunner';
+import { READ_ONLY_STATEMENTS } from '../sqlGuard';
+import type { DatabaseSchema, TableInfo } from '../schemaIntrospector';
+import type { ColumnKind, Driver, DriverQueryOptions, DriverQueryResult } from './types';
+
+// Connections currently open to target databases, so shutdown can close any still in use
+const openConnections = new Set<mysql.Connection>();
+
+async function openConnection(
+  target: ConnectionTarget,
+  connectTimeoutMs: number = DEFAULT_CONNECT_TIMEOUT_MS
+): Promise<mysql.Connection> {
+  const connection = await mysql.createConnection({
+    host: target.host ?? undefined,
+    port: target.port ?? undefined,
+    database: target.database,
+    user: target.username ?? undefined,
+    password: target.password ?? undefined,
+    connectTimeout: connectTimeoutMs,
+    // Without a CA the system's trusted roots are used. The host name is checked against the
+    // certificate too, except through a tunnel: those targets are reached as 127.0.0.1.
+    ...(target.tls && {
+      ssl: {
+        ca: target.tls.ca ?? undefined,
+        cert: target.tls.cert ?? undefined,
+        key: target.tls.key ?? undefined,
+        rejectUnauthorized: target.tls.verifyServerCert,
+        verifyIdentity: target.tls.verifyServerCert && target.tls.verifyHostname && !target.sshTunnel,
+      },
+    }),
+    // Return BIGINT/DECIMAL and date values exactly as the server sends them
+    supportBigNumbers: true,
+    bigNumberStrings: true,
+    dateStrings: true,
+  });
+  openConnections.add(connection);
+  return connection;
+}
+
+// Close a connection politely, destroying it if the server doesn't answer
+async function closeConnection(connection: mysql.Connection): Promise<void> {
+  openConnections.delete(connection);
+  await connection.end().catch(() => connection.destroy());
+}
+
+// Run an operation on a short-lived connection, translating driver failures into TargetDatabaseError
+async function withConnection<T>(
+  target: ConnectionTarget,
+  operation: (connection: mysql.Connection) => Promise<T>
+): Promise<T> {
+  let connection: mysql.Connection | undefined;
+
+  try {
+    connection = await openConnection(target);
+    return await operation(connection);
+  } catch (error) {
+    throw toTargetDatabaseError(error);
+  } finally {
+    if (connection) {
+      await closeConnection(connection);
+    }
+  }
+}
+
+// mysql2 reports column types as protocol codes
+const MYSQL_TYPE_NAMES: Record<number, string> = {
+  0: 'DECIMAL',
+  1: 'TINYINT',
+  2: 'SMALLINT',
+  3: 'INT',
+  4: 'FLOAT',
+  5: 'DOUBLE',
+  6: 'NULL',
+  7: 'TIMESTAMP',
+  8: 'BIGINT',
+  9: 'MEDIUMINT',
+  10: 'DATE',
+  11: 'TIME',
+  12: 'DATETIME',
+  13: 'YEAR',
+  15: 'VARCHAR',
+  16: 'BIT',
+  245: 'JSON',
+  246: 'DECIMAL',
+  247: 'ENUM',
+  248: 'SET',
+  249: 'TINYBLOB',
+  250: 'MEDIUMBLOB',
+  251: 'LONGBLOB',
+  252: 'BLOB',
+  253: 'VARCHAR',
+  254: 'CHAR',
+  255: 'GEOMETRY',
+};
+
+const MYSQL_COLUMN_KINDS: Record<string, ColumnKind> = {
+  TINYINT: 'integer',
+  SMALLINT: 'integer',
+  MEDIUMINT: 'integer',
+  INT: 'integer',
+  INTEGER: 'integer',
+  BIGINT: 'integer',
+  YEAR: 'integer',
+  DECIMAL: 'decimal',
+  NUMERIC: 'decimal',
+  FLOAT: 'float',
+  DOUBLE: 'float',
+  REAL: 'float',
+  BIT: 'binary',
+  BOOL: 'boolean',
+  BOOLEAN: 'boolean',
+  CHAR: 'string',
+  VARCHAR: 'string',
+  ENUM: 'string',
+  SET: 'string',
+  TINYTEXT: 'text',
+  TEXT: 'text',
+  MEDIUMTEXT: 'text',
+  LONGTEXT: 'text',
+  BINARY: 'binary',
+  VARBINARY: 'binary',
+  TINYBLOB: 'binary',
+  BLOB: 'binary',
+  MEDIUMBLOB: 'binary',
+  LONGBLOB: 'binary',
+  GEOMETRY: 'binary',
+  DATE: 'date',
+  DATETIME: 'datetime',
+  TIMESTAMP: 'datetime',
+  TIME: 'time',
+  JSON: 'json',
+};
+
+// Accepts both protocol names (VARCHAR) and INFORMATION_SCHEMA column types (int(10) unsigned)
+const columnKind = (nativeType: string): ColumnKind => {
+  const type = nativeType.trim().toUpperCase();
+  // TINYINT(1) is how MySQL declares BOOLEAN columns
+  if (type.startsWith('TINYINT(1)')) return 'boolean';
+  return MYSQL_COLUMN_KINDS[type.split(/[\s(]/)[0]!] ?? 'unknown';
+};
+
+const quoteIdentifier = (name: string) => `\`${name.replace(/`/g, '``')}\``;
+
+// Binary values are returned as hex so they survive JSON encoding
+const serializeValue = (value: unknown): unknown =>
+  Buffer.isBuffer(value) ? `0x${value.toString('hex')}` : value;
+
+// Stream the result set, keeping at most maxRows rows in memory.
+// Rows past the limit are drained and discarded; the statement timeout bounds how long that takes.
+function streamQuery(
+  connection: mysql.Connection,
+  sql: string,
+  { maxRows, timeoutMs, parameters }: DriverQueryOptions
+): Promise<DriverQueryResult> {
+  return new Promise((resolve, reject) => {
+    let columns: QueryColumn[] = [];
+    const rows: unknown[][] = [];
+    let totalRows = 0;
+    let affectedRows: number | null = null;
+
+    // The promise wrapper does not expose row events, so stream through the underlying
+    // callback connection (present at runtime but missing from mysql2's typings)
+    (connection as unknown as { connection: CoreConnection }).connection
+      .query({
+        sql,
+        timeout: timeoutMs,
+        rowsAsArray: true,
+        // Only parse placeholders when asked to, so a literal ':' or '?' in plain queries is left alone
+        ...(parameters && { namedPlaceholders: true, values: parameters }),
+      })
+      .on('fields', (fields: FieldPacket[]) => {
+        columns = fields.map((field) => {
+          const type = MYSQL_TYPE_NAMES[field.columnType ?? field.type ?? -1] ?? 'UNKNOWN';
+          return {
+            name: field.name,
+            type,
+            kind: columnKind(type),
+            table: field.orgTable || field.table || null,
+          };
+        });
+      })
+      .on('result', (result: unknown) => {
+        if (Array.isArray(result)) {
+          totalRows++;
+          if (rows.length < maxRows) {
+            rows.push(result.map(serializeValue));
+          }
+        } else if (result && typeof result === 'object' && 'affectedRows' in result) {
+          affectedRows = Number(result.affectedRows);
+        }
+      })
+      .on('error', reject)
+      .on('end', () => {
+        resolve({
+          columns,
+          rows,
+          rowCount: rows.length,
+          truncated: totalRows > rows.length,
+          affectedRows,
+        });
+      });
+  });
+}
+
+// Read-only statements execute inside a READ ONLY transaction with a server-side time limit
+const runQuery = (target: ConnectionTarget, sql: string, options: DriverQueryOptions) =>
+  withConnection(target, async (connection) => {
+    try {
+      if (options.readOnly) {
+        // MySQL 5.7.8+ only; servers without the variable still get the client-side timeout
+        await connection
+          .query(`SET SESSION max_execution_time = ${Math.floor(options.timeoutMs)}`)
+          .catch(() => undefined);
+        await connection.query('START TRANSACTION READ ONLY');
+      }
+
+      const result = await streamQuery(connection, sql, options);
+
+      if (options.readOnly) {
+        await connection.query('ROLLBACK');
+      }
+
+      return result;
+    } catch (error) {
+      throw toQueryError(error);
+    }
+  });
+
+async function test(target: ConnectionTarget, timeoutMs: number, signal: AbortSignal) {
+  let connection: mysql.Connection | undefined;
+  const abort = () => connection?.destroy();
+  signal.addEventListener('abort', abort);
+
+  try {
+    connection = await openConnection(target, timeoutMs);
+
+    // The deadline passed while the handshake was still in flight
+    if (signal.aborted) {
+      throw new ConnectionTimeoutError(timeoutMs);
+    }
+
+    const [versionRows] = await connection.query<mysql.RowDataPacket[]>(
+      'SELECT VERSION() AS version'
+    );
+    const [sslRows] = await connection.query<mysql.RowDataPacket[]>(
+      "SHOW SESSION STATUS LIKE 'Ssl_cipher'"
+    );
+
+    return {
+      serverVersion: String(versionRows[0]?.version ?? 'unknown'),
+      ssl: Boolean(sslRows[0]?.Value),
+    };
+  } finally {
+    signal.removeEventListener('abort', abort);
+    if (connection) {
+      await closeConnection(connection);
+    }
+  }
+}
+
+const emptyToNull = (value: unknown): string | null =>
+  value === null || value === undefined || value === '' ? null : String(value);
+
+async function readSchema(connection: mysql.Connection, database: string): Promise<DatabaseSchema> {
+  const [tables] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT TABLE_NAME, TABLE_TYPE, ENGINE, TABLE_ROWS, TABLE_COMMENT
+       FROM INFORMATION_SCHEMA.TABLES
+      WHERE TABLE_SCHEMA = ?
+      ORDER BY TABLE_NAME`,
+    [database]
+  );
+
+  const [columns] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT TABLE_NAME, COLUMN_NAME, ORDINAL_POSITION, DATA_TYPE, COLUMN_TYPE, IS_NULLABLE,
+            COLUMN_DEFAULT, COLLATION_NAME, COLUMN_KEY, EXTRA, COLUMN_COMMENT
+       FROM INFORMATION_SCHEMA.COLUMNS
+      WHERE TABLE_SCHEMA = ?
+      ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+    [database]
+  );
+
+  const [indexColumns] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT TABLE_NAME, INDEX_NAME, NON_UNIQUE, INDEX_TYPE, COLUMN_NAME
+       FROM INFORMATION_SCHEMA.STATISTICS
+      WHERE TABLE_SCHEMA = ?
+      ORDER BY TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX`,
+    [database]
+  );
+
+  const [foreignKeyColumns] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT k.TABLE_NAME, k.CONSTRAINT_NAME, k.COLUMN_NAME, k.REFERENCED_TABLE_NAME,
+            k.REFERENCED_COLUMN_NAME, r.UPDATE_RULE, r.DELETE_RULE
+       FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE k
+       JOIN INFORMATION_SCHEMA.REFERENTIAL_CONSTRAINTS r
+         ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA
+        AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+        AND r.TABLE_NAME = k.TABLE_NAME
+      WHERE k.TABLE_SCHEMA = ?
+        AND k.REFERENCED_TABLE_NAME IS NOT NULL
+      ORDER BY k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`,
+    [database]
+  );
+
+  const byName = new Map<string, TableInfo>(
+    tables.map((row) => [
+      row.TABLE_NAME,
+      {
+        name: row.TABLE_NAME,
+        type: row.TABLE_TYPE === 'VIEW' ? 'view' : 'table',
+        engine: emptyToNull(row.ENGINE),
+        approximateRowCount: row.TABLE_ROWS === null ? null : Number(row.TABLE_ROWS),
+        comment: emptyToNull(row.TABLE_COMMENT),
+        columns: [],
+        indexes: [],
+        foreignKeys: [],
+      },
+    ])
+  );
+
+  for (const row of columns) {
+    byName.get(row.TABLE_NAME)?.columns.push({
+      name: row.COLUMN_NAME,
+      position: Number(row.ORDINAL_POSITION),
+      dataType: row.DATA_TYPE,
+      columnType: row.COLUMN_TYPE,
+      kind: columnKind(row.COLUMN_TYPE),
+      nullable: row.IS_NULLABLE === 'YES',
+      defaultValue: row.COLUMN_DEFAULT === null ? null : String(row.COLUMN_DEFAULT),
+      collation: emptyToNull(row.COLLATION_NAME),
+      key: emptyToNull(row.COLUMN_KEY),
+      extra: emptyToNull(row.EXTRA),
+      comment: emptyToNull(row.COLUMN_COMMENT),
+    });
+  }
+
+  // STATISTICS and KEY_COLUMN_USAGE return one row per column, so group multi-column entries
+  for (const row of indexColumns) {
+    const table = byName.get(row.TABLE_NAME);
+    if (!table) continue;
+
+    const existing = table.indexes.find((index) => index.name === row.INDEX_NAME);
+    if (existing) {
+      existing.columns.push(row.COLUMN_NAME);
+    } else {
+      table.indexes.push({
+        name: row.INDEX_NAME,
+        unique: Number(row.NON_UNIQUE) === 0,
+        primary: row.INDEX_NAME === 'PRIMARY',
+        type: row.INDEX_TYPE,
+        columns: [row.COLUMN_NAME],
+      });
+    }
+  }
+
+  for (const row of foreignKeyColumns) {
+    const table = byName.get(row.TABLE_NAME);
+    if (!table) continue;
+
+    const existing = table.foreignKeys.find((fk) => fk.name === row.CONSTRAINT_NAME);
+    if (existing) {
+      existing.columns.push(row.COLUMN_NAME);
+      existing.referencedColumns.push(row.REFERENCED_COLUMN_NAME);
+    } else {
+      table.foreignKeys.push({
+        name: row.CONSTRAINT_NAME,
+        columns: [row.COLUMN_NAME],
+        referencedTable: row.REFERENCED_TABLE_NAME,
+        referencedColumns: [row.REFERENCED_COLUMN_NAME],
+        onUpdate: row.UPDATE_RULE,
+        onDelete: row.DELETE_RULE,
+      });
+    }
+  }
+
+  return {
+    database,
+    tables: [...byName.values()],
+    introspectedAt: new Date().toISOString(),
+  };
+}
+
+export const mysqlDriver: Driver = {
+  name: 'mysql',
+  capabilities: {
+    network: true,
+    defaultPort: 3306,
+    readOnlyStatements: READ_ONLY_STATEMENTS,
+    backslashEscapes: true,
+    ssl: true,
+  },
+  columnKind,
+  quoteIdentifier,
+  test,
+  readSchema: (target) => withConnection(target, (connection) => readSchema(connection, target.database)),
+  runQuery,
+  closeAll: async () => {
+    await Promise.all([...openConnections].map(closeConnection));
+  },
+};
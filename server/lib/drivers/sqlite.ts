@@ -0,0 +1,228 @@
+import path from 'path';
+import { env } from '../env';
+import {
+  ConnectionTimeoutError,
+  TargetDatabaseError,
+  toQueryError,
+  toTargetDatabaseError,
+  type ConnectionTarget,
+} from '../targetDatabase';
+import type { QueryParameterValue } from '../queryRunner';
+import { statementWords } from '../sqlGuard';
+import type { ColumnInfo, DatabaseSchema, TableInfo } from '../schemaIntrospector';
+import type { ColumnKind, Driver, DriverQueryOptions, DriverQueryResult } from './types';
+
+// Messages exchanged with sqliteWorker.ts, which does the actual file access
+export type SqliteRequest = { file: string } & (
+  | { kind: 'test' }
+  | { kind: 'schema' }
+  | {
+      kind: 'query';
+      sql: string;
+      readOnly: boolean;
+      maxRows: number;
+      parameters?: Record<string, QueryParameterValue>;
+    }
+);
+
+// Column kinds are filled in here, so the worker needs nothing but bun:sqlite
+export type SqliteTableInfo = Omit<TableInfo, 'columns'> & { columns: Omit<ColumnInfo, 'kind'>[] };
+
+export type SqliteResponse =
+  | { ok: true; kind: 'test'; serverVersion: string }
+  | { ok: true; kind: 'schema'; tables: SqliteTableInfo[] }
+  | {
+      ok: true;
+      kind: 'query';
+      columns: { name: string; type: string }[];
+      rows: unknown[][];
+      truncated: boolean;
+      affectedRows: number | null;
+    }
+  | { ok: false; error: { code?: string; message: string } };
+
+// SQLite databases are files on the API server itself, so connections may only open files
+// under SQLITE_DATA_DIR
+export function resolveSqliteFile(database: string): string {
+  if (!env.SQLITE_DATA_DIR) {
+    throw new TargetDatabaseError({ category: 'unknown_database', message: 'SQLITE_DATA_DIR is not set' });
+  }
+
+  const root = path.resolve(env.SQLITE_DATA_DIR);
+  const file = path.resolve(root, database);
+  if (!file.startsWith(root + path.sep)) {
+    throw new TargetDatabaseError({
+      category: 'unknown_database',
+      message: 'SQLite database paths must stay inside SQLITE_DATA_DIR',
+    });
+  }
+  return file;
+}
+
+// SQLite accepts any type name and derives an affinity from it; the common names are
+// recognised first, then the affinity rules are applied in SQLite's own order
+const columnKind = (nativeType: string): ColumnKind => {
+  const type = nativeType.trim().toUpperCase();
+
+  if (/^BOOL/.test(type)) return 'boolean';
+  if (/^(DATETIME|TIMESTAMP)/.test(type)) return 'datetime';
+  if (/^DATE/.test(type)) return 'date';
+  if (/^TIME/.test(type)) return 'time';
+  if (/^JSON/.test(type)) return 'json';
+  if (/^(DECIMAL|NUMERIC)/.test(type)) return 'decimal';
+  if (type.includes('INT')) return 'integer';
+  if (type.includes('CHAR')) return 'string';
+  if (type.includes('CLOB') || type.includes('TEXT')) return 'text';
+  if (type.includes('BLOB')) return 'binary';
+  if (type.includes('REAL') || type.includes('FLOA') || type.includes('DOUB')) return 'float';
+  return 'unknown';
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Reading the catalog is quick unless the file is locked or on a very slow disk
+const SCHEMA_TIMEOUT_MS = 30_000;
+
+// Workers still running, so shutdown can stop them
+const runningWorkers = new Set<() => void>();
+
+// Each request gets its own worker, terminated once it answers, times out or is aborted
+function callWorker<Kind extends SqliteRequest['kind']>(
+  request: SqliteRequest & { kind: Kind },
+  { timeoutError, timeoutMs, signal }: { timeoutError: Error; timeoutMs: number; signal?: AbortSignal }
+) {
+  type Response = Extract<SqliteResponse, { kind: Kind }>;
+
+  return new Promise<Response>((resolve, reject) => {
+    const worker = new Worker(new URL('./sqliteWorker.ts', import.meta.url).href);
+
+    const stop = (error?: unknown) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      runningWorkers.delete(cancel);
+      worker.terminate();
+      if (error) reject(error);
+    };
+    const cancel = () =>
+      stop(new TargetDatabaseError({ category: 'unknown', message: 'The operation was cancelled' }));
+    const onAbort = () => stop(timeoutError);
+    const timer = setTimeout(onAbort, timeoutMs);
+
+    signal?.addEventListener('abort', onAbort);
+    runningWorkers.add(cancel);
+
+    worker.onmessage = ({ data }: MessageEvent<SqliteResponse>) => {
+      if (data.ok) {
+        stop();
+        resolve(data as Response);
+      } else {
+        stop(data.error);
+      }
+    };
+    worker.onerror = (event) => stop(new Error(event.message));
+    worker.postMessage(request);
+  });
+}
+
+async function test(target: ConnectionTarget, timeoutMs: number, signal: AbortSignal) {
+  const { serverVersion } = await callWorker(
+    { kind: 'test', file: resolveSqliteFile(target.database) },
+    { timeoutError: new ConnectionTimeoutError(timeoutMs), timeoutMs, signal }
+  );
+  return { serverVersion, ssl: false };
+}
+
+async function readSchema(target: ConnectionTarget): Promise<DatabaseSchema> {
+  try {
+    const { tables } = await callWorker(
+      { kind: 'schema', file: resolveSqliteFile(target.database) },
+      {
+        timeoutError: new TargetDatabaseError({
+          category: 'timeout',
+          message: `Reading the schema timed out after ${SCHEMA_TIMEOUT_MS}ms`,
+        }),
+        timeoutMs: SCHEMA_TIMEOUT_MS,
+      }
+    );
+
+    return {
+      database: target.database,
+      tables: tables.map((table) => ({
+        ...table,
+        columns: table.columns.map((column) => ({ ...column, kind: columnKind(column.columnType) })),
+      })),
+      introspectedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    throw toTargetDatabaseError(error);
+  }
+}
+
+// Statements that open files other than the connection's own and so would get around
+// resolveSqliteFile. They are refused even when writes are allowed.
+function fileAccessOf(sql: string): string | null {
+  const words = statementWords(sql, sqliteDriver.capabilities);
+  if (words.includes('ATTACH')) return 'ATTACH';
+  if (words[0] === 'VACUUM' && words.includes('INTO')) return 'VACUUM INTO';
+  if (words.includes('LOAD_EXTENSION')) return 'load_extension';
+  return null;
+}
+
+// Read-only statements run on a read-only handle, so SQLite itself rejects writes
+async function runQuery(
+  target: ConnectionTarget,
+  sql: string,
+  { maxRows, timeoutMs, parameters, readOnly }: DriverQueryOptions
+): Promise<DriverQueryResult> {
+  try {
+    const fileAccess = fileAccessOf(sql);
+    if (fileAccess) {
+      throw new TargetDatabaseError({
+        category: 'query',
+        message: `${fileAccess} is not allowed on SQLite connections`,
+      });
+    }
+
+    const { columns, rows, truncated, affectedRows } = await callWorker(
+      { kind: 'query', file: resolveSqliteFile(target.database), sql, readOnly, maxRows, parameters },
+      {
+        timeoutError: new TargetDatabaseError({
+          category: 'timeout',
+          code: 'SQLITE_INTERRUPT',
+          message: `Query timed out after ${timeoutMs}ms`,
+        }),
+        timeoutMs,
+      }
+    );
+
+    return {
+      // SQLite does not report which table a result column came from
+      columns: columns.map((column) => ({ ...column, kind: columnKind(column.type), table: null })),
+      rows,
+      rowCount: rows.length,
+      truncated,
+      affectedRows,
+    };
+  } catch (error) {
+    throw toQueryError(error);
+  }
+}
+
+export const sqliteDriver: Driver = {
+  name: 'sqlite',
+  capabilities: {
+    network: false,
+    defaultPort: null,
+    readOnlyStatements: ['SELECT', 'EXPLAIN', 'WITH'],
+    backslashEscapes: false,
+    ssl: false,
+  },
+  columnKind,
+  quoteIdentifier,
+  test,
+  readSchema,
+  runQuery,
+  closeAll: async () => {
+    runningWorkers.forEach((cancel) => cancel());
+  },
+};
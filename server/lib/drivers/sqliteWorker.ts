@@ -0,0 +1,255 @@
+// Runs SQLite work off the main thread. bun:sqlite is synchronous, so this is what lets
+// timeouts stop a runaway statement: the worker is terminated. Started by drivers/sqlite.ts.
+import { Database, type Statement } from 'bun:sqlite';
+import type { ForeignKeyInfo, IndexInfo } from '../schemaIntrospector';
+import type { SqliteRequest, SqliteResponse, SqliteTableInfo } from './sqlite';
+
+declare const self: Worker;
+
+// Integers are read as bigint so none lose precision; those past 2^53 are sent as strings,
+// like BIGINT columns from MySQL. Binary values are returned as hex so they survive JSON encoding.
+const serializeValue = (value: unknown): unknown => {
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (value instanceof Uint8Array) {
+    return `0x${Buffer.from(value).toString('hex')}`;
+  }
+  return value;
+};
+
+// Values are read with safeIntegers, so integers arrive as bigint and reals as number
+const storageClass = (value: unknown): string => {
+  if (value === null) return 'NULL';
+  if (typeof value === 'bigint') return 'INTEGER';
+  if (typeof value === 'number') return 'REAL';
+  if (value instanceof Uint8Array) return 'BLOB';
+  return 'TEXT';
+};
+
+function test(db: Database): SqliteResponse {
+  const { version } = db.query('SELECT sqlite_version() AS version').get() as { version: string };
+  // Reading the schema makes SQLite check the file header, so files that are not
+  // databases fail the test rather than the first query
+  db.query('PRAGMA schema_version').get();
+  return { ok: true, kind: 'test', serverVersion: `SQLite ${version}` };
+}
+
+interface ColumnRow {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+interface ForeignKeyRow {
+  id: number;
+  table: string;
+  from: string;
+  to: string | null;
+  on_update: string;
+  on_delete: string;
+}
+
+const primaryKeyColumns = (db: Database, table: string) =>
+  (
+    db
+      .query('SELECT name FROM pragma_table_info(?) WHERE pk > 0 ORDER BY pk')
+      .all(table) as { name: string }[]
+  ).map((column) => column.name);
+
+function readTable(db: Database, name: string, type: 'table' | 'view'): SqliteTableInfo {
+  const columns = db
+    .query('SELECT cid, name, type, "notnull", dflt_value, pk FROM pragma_table_info(?) ORDER BY cid')
+    .all(name) as ColumnRow[];
+  const primaryKey = columns
+    .filter((column) => column.pk > 0)
+    .sort((a, b) => a.pk - b.pk)
+    .map((column) => column.name);
+
+  const indexes: IndexInfo[] = (
+    db
+      .query('SELECT name, "unique", origin FROM pragma_index_list(?) ORDER BY seq')
+      .all(name) as { name: string; unique: number; origin: string }[]
+  ).map((index) => ({
+    name: index.origin === 'pk' ? 'PRIMARY' : index.name,
+    unique: index.unique === 1,
+    primary: index.origin === 'pk',
+    type: 'BTREE',
+    columns: (
+      db
+        .query('SELECT name FROM pragma_index_info(?) ORDER BY seqno')
+        .all(index.name) as { name: string | null }[]
+    ).map((column) => column.name ?? '(expression)'),
+  }));
+
+  // An INTEGER PRIMARY KEY is the table's rowid and has no index of its own
+  if (primaryKey.length > 0 && !indexes.some((index) => index.primary)) {
+    indexes.unshift({ name: 'PRIMARY', unique: true, primary: true, type: 'BTREE', columns: primaryKey });
+  }
+
+  // One row per column of each key. SQLite keeps no constraint names, so keys are named
+  // after their position.
+  const foreignKeys = new Map<number, ForeignKeyInfo>();
+  const foreignKeyRows = db
+    .query(
+      'SELECT id, "table", "from", "to", on_update, on_delete FROM pragma_foreign_key_list(?) ORDER BY id, seq'
+    )
+    .all(name) as ForeignKeyRow[];
+
+  for (const row of foreignKeyRows) {
+    const existing = foreignKeys.get(row.id);
+    if (existing) {
+      existing.columns.push(row.from);
+      existing.referencedColumns.push(row.to ?? '');
+    } else {
+      foreignKeys.set(row.id, {
+        name: `${name}_fk_${row.id}`,
+        columns: [row.from],
+        referencedTable: row.table,
+        referencedColumns: [row.to ?? ''],
+        onUpdate: row.on_update,
+        onDelete: row.on_delete,
+      });
+    }
+  }
+
+  // Keys declared without parent columns reference the parent table's primary key
+  for (const foreignKey of foreignKeys.values()) {
+    if (foreignKey.referencedColumns.includes('')) {
+      foreignKey.referencedColumns = primaryKeyColumns(db, foreignKey.referencedTable);
+    }
+  }
+
+  // Keys are reported the way MySQL's COLUMN_KEY does: PRI, UNI for single-column unique
+  // indexes and MUL for the leading column of any other index
+  const columnKey = (column: string) => {
+    if (primaryKey.includes(column)) return 'PRI';
+    if (indexes.some((index) => index.unique && index.columns.length === 1 && index.columns[0] === column)) {
+      return 'UNI';
+    }
+    return indexes.some((index) => index.columns[0] === column) ? 'MUL' : null;
+  };
+
+  return {
+    name,
+    type,
+    engine: null,
+    // SQLite keeps no row estimate without ANALYZE, and counting would read every table
+    approximateRowCount: null,
+    comment: null,
+    columns: columns.map((column) => ({
+      name: column.name,
+      position: column.cid + 1,
+      dataType: column.type.split(/[\s(]/)[0]!.toLowerCase(),
+      columnType: column.type,
+      nullable: column.notnull === 0 && column.pk === 0,
+      defaultValue: column.dflt_value,
+      collation: null,
+      key: columnKey(column.name),
+      extra: null,
+      comment: null,
+    })),
+    indexes,
+    foreignKeys: [...foreignKeys.values()],
+  };
+}
+
+function readSchema(db: Database): SqliteResponse {
+  const tables = db
+    .query(
+      `SELECT name, type FROM sqlite_master
+        WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+        ORDER BY name`
+    )
+    .all() as { name: string; type: 'table' | 'view' }[];
+
+  return { ok: true, kind: 'schema', tables: tables.map((table) => readTable(db, table.name, table.type)) };
+}
+
+function runQuery(
+  db: Database,
+  { sql, maxRows, parameters }: Extract<SqliteRequest, { kind: 'query' }>
+): SqliteResponse {
+  // bun:sqlite expects the placeholder prefix on each name; names without a value bind as NULL
+  const bindings = Object.fromEntries(
+    Object.entries(parameters ?? {}).map(([name, value]) => [`:${name}`, value])
+  );
+
+  let statement: Statement = db.prepare(sql);
+
+  if (statement.columnNames.length === 0) {
+    const { changes } = statement.run(bindings);
+    return { ok: true, kind: 'query', columns: [], rows: [], truncated: false, affectedRows: changes };
+  }
+
+  // Rows are read as objects keyed by column name, so duplicate names (SELECT * over a join)
+  // would collapse. Selecting from the statement as a subquery makes SQLite rename them.
+  if (new Set(statement.columnNames).size < statement.columnNames.length) {
+    statement.finalize();
+    statement = db.prepare(`SELECT * FROM (\n${sql.trim().replace(/;+$/, '')}\n)`);
+  }
+
+  const columnNames = statement.columnNames;
+  const rows: unknown[][] = [];
+  let truncated = false;
+  let types: string[] | undefined;
+
+  // Declared types exist for columns read straight from a table; expressions fall back to
+  // the storage class of their first value. Both are only known once the statement has run.
+  // Statement.columnTypes is not used: it steps the statement again, repeating the first row
+  // of aggregates, and throws for writes with RETURNING.
+  const readTypes = (row?: Record<string, unknown>) =>
+    columnNames.map((name, index) => statement.declaredTypes[index] ?? (row ? storageClass(row[name]) : 'NULL'));
+
+  // Stop one row past the limit; that row only tells us the result was cut short
+  for (const row of statement.iterate(bindings) as IterableIterator<Record<string, unknown>>) {
+    types ??= readTypes(row);
+    if (rows.length === maxRows) {
+      truncated = true;
+      break;
+    }
+    rows.push(columnNames.map((name) => serializeValue(row[name])));
+  }
+
+  return {
+    ok: true,
+    kind: 'query',
+    columns: columnNames.map((name, index) => ({ name, type: (types ?? readTypes())[index]!.toUpperCase() })),
+    rows,
+    truncated,
+    affectedRows: null,
+  };
+}
+
+// Never creates the file: a typo in the path should fail rather than leave an empty database.
+// Query results read integers as bigint (see serializeValue); catalog reads don't need to.
+const openDatabase = (request: SqliteRequest) =>
+  request.kind === 'query' && !request.readOnly
+    ? new Database(request.file, { readwrite: true, create: false, safeIntegers: true })
+    : new Database(request.file, { readonly: true, safeIntegers: request.kind === 'query' });
+
+function handle(request: SqliteRequest): SqliteResponse {
+  const db = openDatabase(request);
+
+  try {
+    if (request.kind === 'test') return test(db);
+    if (request.kind === 'schema') return readSchema(db);
+    return runQuery(db, request);
+  } finally {
+    db.close();
+  }
+}
+
+self.onmessage = ({ data }: MessageEvent<SqliteRequest>) => {
+  let response: SqliteResponse;
+  try {
+    response = handle(data);
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    response = { ok: false, error: { code: err?.code, message: err?.message || String(error) } };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,75 @@
+import type { ConnectionTarget } from '../targetDatabase';
+import type { QueryResult, RunQueryOptions } from '../queryRunner';
+import type { DatabaseSchema } from '../schemaIntrospector';
+import type { SqlDialect } from '../sqlGuard';
+
+// Engines a Connection can point at. Not all of them have a driver yet (see drivers/index.ts).
+export const DRIVER_NAMES = ['mysql', 'postgres', 'sqlite', 'mssql'] as const;
+
+export type DriverName = (typeof DRIVER_NAMES)[number];
+
+export const DRIVER_LABELS: Record<DriverName, string> = {
+  mysql: 'MySQL',
+  postgres: 'PostgreSQL',
+  sqlite: 'SQLite',
+  mssql: 'SQL Server',
+};
+
+// Engine-neutral column types, so clients can tell numbers from dates without knowing
+// each engine's type names
+export const COLUMN_KINDS = [
+  'integer',
+  'decimal',
+  'float',
+  'boolean',
+  'string',
+  'text',
+  'binary',
+  'date',
+  'datetime',
+  'time',
+  'json',
+  'unknown',
+] as const;
+
+export type ColumnKind = (typeof COLUMN_KINDS)[number];
+
+// The SQL dialect says how the query runner reads statements for the engine
+export interface DriverCapabilities extends SqlDialect {
+  // Reached over the network, so connections need a host and port. Otherwise the
+  // connection's database is a file path.
+  network: boolean;
+  defaultPort: number | null;
+  // Whether test results can report an encrypted session
+  ssl: boolean;
+}
+
+export interface ServerInfo {
+  serverVersion: string;
+  ssl: boolean;
+}
+
+export interface DriverQueryOptions extends RunQueryOptions {
+  // Run so that the engine itself rejects writes
+  readOnly: boolean;
+}
+
+export type DriverQueryResult = Omit<QueryResult, 'statementType' | 'durationMs'>;
+
+// What the connection tester, schema introspector and query runner need from an engine.
+// readSchema and runQuery fail with TargetDatabaseError; test may throw the engine's own errors.
+export interface Driver {
+  name: DriverName;
+  capabilities: DriverCapabilities;
+  // Map a native type name, e.g. VARCHAR(20) or int4, onto the common vocabulary
+  columnKind(nativeType: string): ColumnKind;
+  // Quote a table or column name for use in generated SQL
+  quoteIdentifier(name: string): string;
+  // Connect, collect basic server facts and disconnect. The signal aborts once timeoutMs
+  // has passed; the attempt should then release whatever it holds.
+  test(target: ConnectionTarget, timeoutMs: number, signal: AbortSignal): Promise<ServerInfo>;
+  readSchema(target: ConnectionTarget): Promise<DatabaseSchema>;
+  runQuery(target: ConnectionTarget, sql: string, options: DriverQueryOptions): Promise<DriverQueryResult>;
+  // Release every connection still open, on shutdown
+  closeAll(): Promise<void>;
+}
@@ -0,0 +1,175 @@
+import dotenv from 'dotenv';
+import { z } from 'zod';
+import path from 'path';
+
+// Load environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+// AES-256 keys are supplied as base64-encoded 32-byte values
+const encryptionKeySchema = (name: string) =>
+  z.string()
+    .trim()
+    .refine(
+      (key) => Buffer.from(key, 'base64').length === 32,
+      `${name} must be a base64-encoded 32-byte key (generate one with: openssl rand -base64 32)`
+    );
+
+// Environment variable validation schema
+export const envSchema = z.object({
+  PORT: z.string()
+    .min(1, 'PORT is required')
+    .regex(/^\d+$/, 'PORT must be a valid port number')
+    .transform(Number)
+    .refine((port) => port > 0 && port < 65536, 'PORT must be between 1 and 65535'),
+
+  NODE_ENV: z.enum(['development', 'production', 'test'], {
+    message: 'NODE_ENV must be one of: development, production, test'
+  }),
+
+  // The app's own Prisma database, which is always MySQL. Connections users add can point at
+  // other engines (see server/lib/drivers).
+  DATABASE_URL: z.string()
+    .min(1, 'DATABASE_URL is required')
+    .regex(/^mysql:\/\/.+/, 'DATABASE_URL must be a valid MySQL connection string (mysql://...)'),
+
+  CREDENTIALS_ENCRYPTION_KEY: z.string({ message: 'CREDENTIALS_ENCRYPTION_KEY is required' })
+    .min(1, 'CREDENTIALS_ENCRYPTION_KEY is required')
+    .pipe(encryptionKeySchema('CREDENTIALS_ENCRYPTION_KEY')),
+
+  // Comma-separated keys that were previously used as CREDENTIALS_ENCRYPTION_KEY.
+  // They are only used for decryption while credentials are rotated to the current key.
+  CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS: z.string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((key) => key.trim()).filter(Boolean) : []))
+    .pipe(z.array(encryptionKeySchema('CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS'))),
+
+  HEALTH_MONITOR_ENABLED: z.enum(['true', 'false'], {
+    message: 'HEALTH_MONITOR_ENABLED must be true or false'
+  })
+    .optional()
+    .default('true')
+    .transform((value) => value === 'true'),
+
+  // Allow the ad-hoc query runner to execute statements other than SELECT/SHOW/EXPLAIN/DESCRIBE
+  QUERY_RUNNER_ALLOW_WRITES: z.enum(['true', 'false'], {
+    message: 'QUERY_RUNNER_ALLOW_WRITES must be true or false'
+  })
+    .optional()
+    .default('false')
+    .transform((value) => value === 'true'),
+
+  // Directory holding the SQLite files connections may open, by paths relative to it.
+  // SQLite connections are rejected while it is unset.
+  SQLITE_DATA_DIR: z.string()
+    .trim()
+    .min(1, 'SQLITE_DATA_DIR must not be empty')
+    .optional(),
+
+  // Browser origins allowed to call the API with the session cookie
+  CORS_ORIGINS: z.string()
+    .optional()
+    .default('http://localhost:5173')
+    .transform((value) => value.split(',').map((origin) => origin.trim()).filter(Boolean))
+    .pipe(z.array(z.url({ message: 'CORS_ORIGINS must be a comma-separated list of URLs' }))),
+
+  SESSION_TTL_HOURS: z.string()
+    .regex(/^\d+$/, 'SESSION_TTL_HOURS must be a whole number of hours')
+    .optional()
+    .default('168')
+    .transform(Number)
+    .refine((hours) => hours >= 1 && hours <= 8760, 'SESSION_TTL_HOURS must be between 1 and 8760'),
+
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error'], {
+    message: 'LOG_LEVEL must be one of: debug, info, warn, error'
+  })
+    .optional()
+    .default('info'),
+
+  // One JSON object per line for log shippers, or readable lines for local development.
+  // Defaults to pretty in development and json everywhere else.
+  LOG_FORMAT: z.enum(['json', 'pretty'], {
+    message: 'LOG_FORMAT must be json or pretty'
+  })
+    .optional(),
+
+  // Comma-separated key names redacted from logs and audit events, on top of the built-in
+  // password/secret/token patterns (see server/lib/redact.ts)
+  LOG_REDACT_KEYS: z.string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((key) => key.trim()).filter(Boolean) : [])),
+
+  METRICS_ENABLED: z.enum(['true', 'false'], {
+    message: 'METRICS_ENABLED must be true or false'
+  })
+    .optional()
+    .default('true')
+    .transform((value) => value === 'true'),
+
+  // When set, GET /metrics requires `Authorization: Bearer <token>`
+  METRICS_TOKEN: z.string()
+    .min(16, 'METRICS_TOKEN must be at least 16 characters')
+    .optional(),
+
+  // How long the server keeps accepting requests after SIGTERM/SIGINT while reporting
+  // not-ready, so load balancers stop routing to it before the listener closes
+  SHUTDOWN_DRAIN_DELAY_MS: z.string()
+    .regex(/^\d+$/, 'SHUTDOWN_DRAIN_DELAY_MS must be a whole number of milliseconds')
+    .optional()
+    .default('5000')
+    .transform(Number),
+
+  // How long in-flight requests may run after the listener closes before they are cut off
+  SHUTDOWN_TIMEOUT_MS: z.string()
+    .regex(/^\d+$/, 'SHUTDOWN_TIMEOUT_MS must be a whole number of milliseconds')
+    .optional()
+    .default('10000')
+    .transform(Number),
+});
+
+export type Env = z.infer<typeof envSchema>;
+
+// Validate environment variables at startup
+function validateEnvironment(): Env {
+  try {
+    const validated = envSchema.parse({
+      PORT: process.env.PORT,
+      NODE_ENV: process.env.NODE_ENV,
+      DATABASE_URL: process.env.DATABASE_URL,
+      CREDENTIALS_ENCRYPTION_KEY: process.env.CREDENTIALS_ENCRYPTION_KEY,
+      CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS: process.env.CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS,
+      HEALTH_MONITOR_ENABLED: process.env.HEALTH_MONITOR_ENABLED,
+      QUERY_RUNNER_ALLOW_WRITES: process.env.QUERY_RUNNER_ALLOW_WRITES,
+      SQLITE_DATA_DIR: process.env.SQLITE_DATA_DIR || undefined,
+      CORS_ORIGINS: process.env.CORS_ORIGINS,
+      SESSION_TTL_HOURS: process.env.SESSION_TTL_HOURS,
+      LOG_LEVEL: process.env.LOG_LEVEL,
+      LOG_FORMAT: process.env.LOG_FORMAT,
+      LOG_REDACT_KEYS: process.env.LOG_REDACT_KEYS,
+      METRICS_ENABLED: process.env.METRICS_ENABLED,
+      METRICS_TOKEN: process.env.METRICS_TOKEN || undefined,
+      SHUTDOWN_DRAIN_DELAY_MS: process.env.SHUTDOWN_DRAIN_DELAY_MS,
+      SHUTDOWN_TIMEOUT_MS: process.env.SHUTDOWN_TIMEOUT_MS,
+    });
+
+    console.log('✅ Environment variables validated successfully');
+    return validated;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      console.error('❌ Environment variable validation failed:');
+      console.error('');
+      error.issues.forEach((issue) => {
+        console.error(`  - ${issue.path.join('.')}: ${issue.message}`);
+      });
+      console.error('');
+      console.error('Please check your .env file and ensure all required variables are set correctly.');
+      console.error('See env.template for reference.');
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+// Validate and extract environment variables
+export const env = validateEnvironment();
+
+export default env;
@@ -0,0 +1,60 @@
+import type { Request, Response } from 'express';
+import crypto from 'crypto';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { logger } from './logger';
+import type { TargetDatabaseError } from './targetDatabase';
+
+interface ErrorLogContext {
+  req?: Request;
+  errorId?: string;
+  additionalContext?: Record<string, any>;
+}
+
+// Log an error with its request context. The returned errorId is the request ID when
+// there is one, so the X-Request-Id a client sees also finds the log line.
+export const logError = (error: Error, context: ErrorLogContext = {}) => {
+  const errorId = context.errorId || context.req?.id || crypto.randomUUID();
+  const log = context.req?.log ?? logger;
+
+  log.error(error.message, {
+    errorId,
+    err: error,
+    ...(context.req && {
+      request: {
+        method: context.req.method,
+        url: context.req.originalUrl || context.req.url,
+        ip: context.req.ip,
+        query: context.req.query,
+        params: context.req.params,
+        body: context.req.body,
+      },
+    }),
+    ...(context.additionalContext && { context: context.additionalContext }),
+  });
+
+  return errorId;
+};
+
+// Prisma raises P2002 when a write violates a unique constraint
+export const isUniqueConstraintError = (error: unknown): boolean =>
+  error instanceof PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Errors raised by a user's database are reported with their category rather than as
+// server faults: 400 for a rejected statement, 504 for timeouts and 502 otherwise
+export const sendTargetDatabaseError = (res: Response, error: TargetDatabaseError) => {
+  const statusCode = error.category === 'query' ? 400 : error.category === 'timeout' ? 504 : 502;
+
+  res.status(statusCode).json({
+    error: error.category === 'query' ? 'Query failed' : 'Target database error',
+    category: error.category,
+    ...(error.code && { code: error.code }),
+    message: error.message,
+  });
+};
+
+// OpenAPI descriptions for the responses sendTargetDatabaseError can produce
+export const TARGET_DATABASE_ERRORS = {
+  400: 'The statement failed on the target database',
+  502: 'The target database could not be reached',
+  504: 'The target database timed out',
+};
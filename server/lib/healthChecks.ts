@@ -0,0 +1,154 @@
+import fs from 'fs/promises';
+import path from 'path';
+import prisma from './prisma';
+import { env, envSchema } from './env';
+
+export type CheckStatus = 'ok' | 'error';
+
+export interface CheckResult {
+  status: CheckStatus;
+  message: string;
+  durationMs: number;
+}
+
+// No single check may hold up a readiness probe for longer than this
+const CHECK_TIMEOUT_MS = 2_000;
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../prisma/migrations');
+
+class CheckTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Check timed out after ${ms}ms`);
+    this.name = 'CheckTimeoutError';
+  }
+}
+
+// Run a check with a deadline, turning both failures and timeouts into an error result
+async function runCheck<T>(
+  check: () => Promise<{ message: string; ok?: boolean; details?: T }>
+): Promise<CheckResult & { details?: T }> {
+  const startedAt = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const {
+      message,
+      ok = true,
+      details,
+    } = await Promise.race([
+      check(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new CheckTimeoutError(CHECK_TIMEOUT_MS)), CHECK_TIMEOUT_MS);
+      }),
+    ]);
+    return {
+      status: ok ? 'ok' : 'error',
+      message,
+      durationMs: Math.round(performance.now() - startedAt),
+      ...(details !== undefined && { details }),
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      durationMs: Math.round(performance.now() - startedAt),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// The timing of this SELECT 1 is what /health/details reports as database latency
+export const checkDatabase = () =>
+  runCheck(async () => {
+    await prisma.$queryRaw`SELECT 1`;
+    return { message: 'Database connection successful' };
+  });
+
+// Migration folders under prisma/migrations that have not been applied successfully.
+// Databases managed with `prisma db push` have no migrations folder and nothing pending.
+async function findPendingMigrations(): Promise<string[] | null> {
+  let local: string[];
+  try {
+    const entries = await fs.readdir(MIGRATIONS_DIR, { withFileTypes: true });
+    local = entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort();
+  } catch {
+    return null;
+  }
+
+  if (local.length === 0) return [];
+
+  let applied: { migration_name: string }[];
+  try {
+    applied = await prisma.$queryRaw<{ migration_name: string }[]>`
+      SELECT migration_name FROM _prisma_migrations
+      WHERE finished_at IS NOT NULL AND rolled_back_at IS NULL
+    `;
+  } catch {
+    // The history table is created by the first `prisma migrate deploy`
+    applied = [];
+  }
+
+  const appliedNames = new Set(applied.map((row) => row.migration_name));
+  return local.filter((name) => !appliedNames.has(name));
+}
+
+export const checkMigrations = () =>
+  runCheck(async () => {
+    const pending = await findPendingMigrations();
+
+    if (pending === null) {
+      return { message: 'No migrations directory; schema is managed with db push', details: [] };
+    }
+
+    return pending.length === 0
+      ? { message: 'All migrations applied', details: pending }
+      : {
+          ok: false,
+          message: `${pending.length} pending migration(s); run prisma migrate deploy`,
+          details: pending,
+        };
+  });
+
+// Configuration was validated against envSchema at startup (the process exits otherwise), so
+// this only confirms every required key made it into the validated result
+export const checkConfiguration = () =>
+  runCheck(async () => {
+    const missing = Object.entries(envSchema.shape)
+      .filter(([, schema]) => !schema.safeParse(undefined).success)
+      .map(([key]) => key)
+      .filter((key) => env[key as keyof typeof env] === undefined);
+
+    return missing.length === 0
+      ? { message: 'All required environment variables are configured' }
+      : { ok: false, message: `Missing: ${missing.join(', ')}`, details: missing };
+  });
+
+export interface PoolStats {
+  open: number | null;
+  idle: number | null;
+  busy: number | null;
+  waitingQueries: number | null;
+}
+
+// Connection pool gauges from Prisma's metrics preview feature; null if it is unavailable
+export async function getPoolStats(): Promise<PoolStats | null> {
+  try {
+    const { gauges } = (await prisma.$metrics.json()) as {
+      gauges: { key: string; value: number }[];
+    };
+    const gauge = (key: string) => gauges.find((entry) => entry.key === key)?.value ?? null;
+
+    return {
+      open: gauge('prisma_pool_connections_open'),
+      idle: gauge('prisma_pool_connections_idle'),
+      busy: gauge('prisma_pool_connections_busy'),
+      waitingQueries: gauge('prisma_client_queries_wait'),
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,188 @@
+import prisma from './prisma';
+import type { EncryptedCredentialFields } from './credentials';
+import { testConnection, type ConnectionTestResult } from './connectionTester';
+import { toConnectionTarget, type ConnectionSettings } from './targetDatabase';
+import { Gauge } from 'prom-client';
+import { logger } from './logger';
+import { connectionChecksTotal, metricsRegistry } from './metrics';
+
+// Fields of a stored Connection the health checks rely on
+export interface MonitoredConnection extends ConnectionSettings, EncryptedCredentialFields {
+  id: number;
+  monitoringEnabled: boolean;
+  checkIntervalSeconds: number;
+  consecutiveFailures: number;
+  lastCheckedAt: Date | null;
+}
+
+// How often the scheduler looks for connections that are due
+const TICK_INTERVAL_MS = 15_000;
+// Upper bound for the exponential backoff applied to failing connections
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// Test a stored connection, update its status and append the outcome to its check history
+export async function runConnectionCheck(
+  connection: MonitoredConnection,
+  timeoutMs?: number
+): Promise<{ result: ConnectionTestResult; connection: MonitoredConnection }> {
+  const result = await testConnection(toConnectionTarget(connection), timeoutMs);
+
+  const checkedAt = new Date(result.checkedAt);
+
+  const [updated] = await prisma.$transaction([
+    prisma.connection.update({
+      where: { id: connection.id },
+      data: {
+        status: result.ok ? 'active' : 'error',
+        lastCheckedAt: checkedAt,
+        lastError: result.ok ? null : `${result.error.category}: ${result.error.message}`,
+        consecutiveFailures: result.ok ? 0 : { increment: 1 },
+      },
+    }),
+    prisma.connectionCheck.create({
+      data: {
+        connectionId: connection.id,
+        checkedAt,
+        latencyMs: result.latencyMs,
+        outcome: result.ok ? 'success' : 'failure',
+        errorCategory: result.ok ? null : result.error.category,
+        errorMessage: result.ok ? null : result.error.message,
+      },
+    }),
+  ]);
+  connectionChecksTotal.inc({
+    connection_id: String(connection.id),
+    outcome: result.ok ? 'success' : 'failure',
+  });
+
+  return { result, connection: updated };
+}
+
+// Per-connection state is read from the database at scrape time, so it survives restarts
+// and reflects checks run by any server instance
+new Gauge({
+  name: 'connection_health_up',
+  help: '1 if the last health check of a connection succeeded, 0 otherwise',
+  labelNames: ['connection_id', 'connection_name'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    this.reset();
+    try {
+      const connections = await prisma.connection.findMany({
+        where: { lastCheckedAt: { not: null } },
+        select: { id: true, name: true, status: true },
+      });
+      for (const connection of connections) {
+        this.set(
+          { connection_id: String(connection.id), connection_name: connection.name },
+          connection.status === 'active' ? 1 : 0
+        );
+      }
+    } catch (error) {
+      // Leave the series empty rather than failing the whole scrape
+      logger.warn('Failed to collect connection health metrics', { err: error });
+    }
+  },
+});
+
+new Gauge({
+  name: 'connection_health_consecutive_failures',
+  help: 'Health checks that have failed in a row for a connection',
+  labelNames: ['connection_id'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    this.reset();
+    try {
+      const connections = await prisma.connection.findMany({
+        where: { lastCheckedAt: { not: null } },
+        select: { id: true, consecutiveFailures: true },
+      });
+      for (const connection of connections) {
+        this.set({ connection_id: String(connection.id) }, connection.consecutiveFailures);
+      }
+    } catch (error) {
+      logger.warn('Failed to collect connection health metrics', { err: error });
+    }
+  },
+});
+
+// Failing connections are re-checked after interval * 2^(failures - 1), capped at MAX_BACKOFF_MS
+export function nextCheckDueAt(connection: MonitoredConnection): number {
+  if (!connection.lastCheckedAt) {
+    return 0;
+  }
+
+  const intervalMs = connection.checkIntervalSeconds * 1000;
+  const delayMs =
+    connection.consecutiveFailures > 0
+      ? Math.min(
+          intervalMs * 2 ** (connection.consecutiveFailures - 1),
+          Math.max(MAX_BACKOFF_MS, intervalMs)
+        )
+      : intervalMs;
+
+  return connection.lastCheckedAt.getTime() + delayMs;
+}
+
+let timer: ReturnType<typeof setInterval> | undefined;
+let running = false;
+let currentTick: Promise<void> | undefined;
+
+async function tick() {
+  // A slow round of checks must not overlap with the next one
+  if (running) {
+    return;
+  }
+  running = true;
+
+  try {
+    const connections: MonitoredConnection[] = await prisma.connection.findMany({
+      where: { monitoringEnabled: true },
+    });
+    const now = Date.now();
+
+    for (const connection of connections) {
+      if (nextCheckDueAt(connection) > now) {
+        continue;
+      }
+
+      try {
+        await runConnectionCheck(connection);
+      } catch (error) {
+        logger.error('Health monitor failed to record check', {
+          err: error,
+          connectionId: connection.id,
+        });
+      }
+    }
+  } catch (error) {
+    logger.error('Health monitor failed to load connections', { err: error });
+  } finally {
+    running = false;
+  }
+}
+
+export function startHealthMonitor() {
+  if (timer) {
+    return;
+  }
+
+  const startTick = () => {
+    if (!running) {
+      currentTick = tick();
+    }
+  };
+
+  timer = setInterval(startTick, TICK_INTERVAL_MS);
+  startTick();
+  logger.info('Connection health monitor started');
+}
+
+// Stop scheduling checks and wait for a round that is already running to finish
+export async function stopHealthMonitor() {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+  await currentTick;
+}
@@ -0,0 +1,120 @@
+import type { Server } from 'http';
+import type { Express, Request, Response, NextFunction } from 'express';
+import prisma from './prisma';
+import { env } from './env';
+import { logger } from './logger';
+
+// Startup retries: 1s, 2s, 4s ... capped at 10s between attempts, about a minute in total
+const DB_STARTUP_ATTEMPTS = 10;
+const DB_STARTUP_MAX_DELAY_MS = 10_000;
+
+type ShutdownTask = { name: string; run: () => Promise<void> | void };
+
+const shutdownTasks: ShutdownTask[] = [];
+let draining = false;
+
+// True once a shutdown signal arrived; the readiness probe reports not-ready from then on
+export const isDraining = () => draining;
+
+// Register cleanup to run after in-flight requests have drained, e.g. stopping a background job.
+// Tasks run in registration order; Prisma is always disconnected last.
+export function onShutdown(name: string, run: ShutdownTask['run']) {
+  shutdownTasks.push({ name, run });
+}
+
+// Ask keep-alive clients to reconnect elsewhere once draining has started
+export function drainingConnectionClose(_req: Request, res: Response, next: NextFunction) {
+  if (draining) {
+    res.setHeader('Connection', 'close');
+  }
+  next();
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Retry until the application database answers, so a server started alongside its database
+// doesn't crash-loop. Throws after the last attempt.
+export async function waitForDatabase(): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await prisma.$queryRaw`SELECT 1`;
+      if (attempt > 1) {
+        logger.info('Database is reachable', { attempt });
+      }
+      return;
+    } catch (error) {
+      if (attempt >= DB_STARTUP_ATTEMPTS) {
+        throw error;
+      }
+
+      const delayMs = Math.min(1000 * 2 ** (attempt - 1), DB_STARTUP_MAX_DELAY_MS);
+      logger.warn('Database not reachable yet, retrying', {
+        attempt,
+        retryInMs: delayMs,
+        err: error,
+      });
+      await sleep(delayMs);
+    }
+  }
+}
+
+async function shutdown(server: Server, signal: string) {
+  if (draining) return;
+  draining = true;
+  logger.info('Shutting down', {
+    signal,
+    drainDelayMs: env.SHUTDOWN_DRAIN_DELAY_MS,
+    timeoutMs: env.SHUTDOWN_TIMEOUT_MS,
+  });
+
+  // Keep serving while load balancers notice the failing readiness probe and stop sending
+  // traffic; closing the listener straight away would refuse requests still routed here
+  await sleep(env.SHUTDOWN_DRAIN_DELAY_MS);
+
+  // Requests still running at the deadline are cut off so the process always exits
+  const deadline = setTimeout(() => {
+    logger.warn('Shutdown deadline reached, closing remaining connections');
+    server.closeAllConnections();
+  }, env.SHUTDOWN_TIMEOUT_MS);
+
+  // Stop accepting connections and wait for in-flight requests to finish
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+    server.closeIdleConnections();
+  });
+  clearTimeout(deadline);
+
+  let failed = false;
+  for (const task of [...shutdownTasks, { name: 'prisma', run: () => prisma.$disconnect() }]) {
+    try {
+      await task.run();
+    } catch (error) {
+      failed = true;
+      logger.error('Shutdown task failed', { task: task.name, err: error });
+    }
+  }
+
+  logger.info('Shutdown complete');
+  process.exit(failed ? 1 : 0);
+}
+
+// Wait for the database, start listening and install the SIGTERM/SIGINT handlers
+export async function startServer(app: Express, port: number): Promise<Server> {
+  try {
+    await waitForDatabase();
+  } catch (error) {
+    logger.error('Database unreachable, giving up', { err: error });
+    await prisma.$disconnect().catch(() => undefined);
+    process.exit(1);
+  }
+
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(port, () => resolve(listening));
+  });
+
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => void shutdown(server, signal));
+  }
+
+  return server;
+}
@@ -0,0 +1,120 @@
+import type { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { env } from './env';
+import { redact } from './redact';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // A logger that adds these fields to every line, e.g. the request ID
+  child(bindings: LogFields): Logger;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      id: string;
+      log: Logger;
+    }
+  }
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const LOG_FORMAT = env.LOG_FORMAT ?? (env.NODE_ENV === 'development' ? 'pretty' : 'json');
+
+// ANSI colors for the level label in pretty output
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: '\x1b[90m',
+  info: '\x1b[36m',
+  warn: '\x1b[33m',
+  error: '\x1b[31m',
+};
+
+// Errors have no enumerable properties, so turn them into plain objects before output
+const serializeErrors = (fields: LogFields): LogFields =>
+  Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [
+      key,
+      value instanceof Error
+        ? { name: value.name, message: value.message, stack: value.stack }
+        : value,
+    ])
+  );
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[env.LOG_LEVEL]) return;
+
+  const entry = redact(serializeErrors(fields)) as LogFields;
+  const stream = level === 'error' || level === 'warn' ? process.stderr : process.stdout;
+  const time = new Date().toISOString();
+
+  if (LOG_FORMAT === 'json') {
+    stream.write(JSON.stringify({ time, level, msg: message, ...entry }) + '\n');
+    return;
+  }
+
+  // Pretty output: stack traces on their own lines, everything else as compact JSON
+  const { err, ...rest } = entry as { err?: { stack?: string } } & LogFields;
+  const context = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : '';
+  const label = `${LEVEL_COLORS[level]}${level.toUpperCase().padEnd(5)}\x1b[0m`;
+  stream.write(`${time.slice(11, 23)} ${label} ${message}${context}\n`);
+  if (err?.stack) {
+    stream.write(`${err.stack}\n`);
+  }
+}
+
+export function createLogger(bindings: LogFields = {}): Logger {
+  const log =
+    (level: LogLevel) =>
+    (message: string, fields: LogFields = {}) =>
+      write(level, message, { ...bindings, ...fields });
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (extra) => createLogger({ ...bindings, ...extra }),
+  };
+}
+
+export const logger = createLogger();
+
+// Incoming IDs are reused (so proxies and clients can correlate) only when they look safe to log
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,64}$/;
+
+// Give every request an ID, echo it as X-Request-Id and log one line when the response is sent
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get('x-request-id');
+  req.id = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  req.log = logger.child({ requestId: req.id });
+  res.setHeader('X-Request-Id', req.id);
+
+  const startedAt = performance.now();
+  res.on('finish', () => {
+    const status = res.statusCode;
+    const level: LogLevel =
+      status >= 500
+        ? 'error'
+        : status >= 400
+          ? 'warn'
+          : req.path.startsWith('/health')
+            ? 'debug'
+            : 'info';
+
+    req.log[level]('request completed', {
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      status,
+      durationMs: Math.round(performance.now() - startedAt),
+      ...(req.user && { userId: req.user.id }),
+    });
+  });
+
+  next();
+}
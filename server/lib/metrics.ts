@@ -0,0 +1,103 @@
+import type { Request, Response, NextFunction } from 'express';
+import { Counter, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+// Everything served by GET /metrics is registered here
+export const metricsRegistry = new Registry();
+
+// Process CPU, resident memory, heap usage, event-loop lag and GC timings
+collectDefaultMetrics({ register: metricsRegistry });
+
+const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests handled, by route pattern and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency, by route pattern and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+const prismaQueryDuration = new Histogram({
+  name: 'prisma_query_duration_seconds',
+  help: 'Duration of queries Prisma sends to the application database',
+  labelNames: ['operation'] as const,
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+  registers: [metricsRegistry],
+});
+
+export const connectionChecksTotal = new Counter({
+  name: 'connection_health_checks_total',
+  help: 'Health checks run against stored connections, by outcome',
+  labelNames: ['connection_id', 'outcome'] as const,
+  registers: [metricsRegistry],
+});
+
+const PRISMA_OPERATIONS = new Set([
+  'SELECT',
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'BEGIN',
+  'COMMIT',
+  'ROLLBACK',
+]);
+
+// Label Prisma queries by statement type; the SQL itself would make the label unbounded
+export function observePrismaQuery(query: string, durationMs: number) {
+  const keyword = query.trimStart().split(/\s/, 1)[0]?.toUpperCase() ?? '';
+  prismaQueryDuration.observe(
+    { operation: PRISMA_OPERATIONS.has(keyword) ? keyword : 'OTHER' },
+    durationMs / 1000
+  );
+}
+
+export interface PrismaQueryStats {
+  count: number;
+  averageMs: number | null;
+  // Queries that took longer than a second, from the histogram's 1s bucket
+  slow: number;
+}
+
+// Totals of prisma_query_duration_seconds across statement types since the process started
+export async function getPrismaQueryStats(): Promise<PrismaQueryStats> {
+  const { values } = await prismaQueryDuration.get();
+  // Bucket series carry an le label that prom-client's label type leaves out
+  const bucketOf = (labels: object) => (labels as { le?: number | string }).le;
+  const total = (metricName: string, le?: number) =>
+    values
+      .filter((entry) => entry.metricName === metricName && (le === undefined || bucketOf(entry.labels) === le))
+      .reduce((sum, entry) => sum + entry.value, 0);
+
+  const count = total('prisma_query_duration_seconds_count');
+  const seconds = total('prisma_query_duration_seconds_sum');
+
+  return {
+    count,
+    averageMs: count > 0 ? Math.round((seconds / count) * 10_000) / 10 : null,
+    slow: count - total('prisma_query_duration_seconds_bucket', 1),
+  };
+}
+
+// Record every response under its route pattern (e.g. /api/connections/:id) rather than the
+// raw path, so IDs don't create a series each. Requests that matched no route share one label.
+export function httpMetrics(req: Request, res: Response, next: NextFunction) {
+  const startedAt = performance.now();
+
+  res.on('finish', () => {
+    const labels = {
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched',
+      status: String(res.statusCode),
+    };
+
+    httpRequestsTotal.inc(labels);
+    httpRequestDuration.observe(labels, (performance.now() - startedAt) / 1000);
+  });
+
+  next();
+}
@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { SESSION_COOKIE_NAME } from './auth';
+import type { ApiRouter, RouteDoc } from './router';
+
+type JsonSchema = Record<string, unknown>;
+
+// Requests are documented as clients send them, before transforms and defaults are applied.
+// Refinements and transforms have no JSON Schema equivalent and are left out.
+const toJsonSchema = (schema: z.ZodType): JsonSchema => {
+  const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema, {
+    io: 'input',
+    unrepresentable: 'any',
+  });
+  return jsonSchema;
+};
+
+// Express paths use :name for parameters, OpenAPI uses {name}
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, '{$1}');
+
+// e.g. GET /api/connections/:id/checks -> getConnectionsByIdChecks
+const toOperationId = ({ method, path }: RouteDoc) => {
+  const segments = path.split('/').filter(Boolean);
+  const named = segments.length > 1 && segments[0] === 'api' ? segments.slice(1) : segments;
+  const words = named.map((segment) =>
+    (segment.startsWith(':') ? `by-${segment.slice(1)}` : segment)
+      .split(/[-_]/)
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('')
+  );
+  return method + words.join('');
+};
+
+function toParameters(schema: z.ZodType | undefined, location: 'path' | 'query') {
+  if (!schema) return [];
+
+  const { properties = {}, required = [] } = toJsonSchema(schema) as {
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+  };
+
+  return Object.entries(properties).map(([name, propertySchema]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    schema: propertySchema,
+  }));
+}
+
+// Error responses every route shares, plus the ones its spec lists. The bodies all follow
+// the Error schema: { error, errorId?, message?, details? }.
+function toResponses(route: RouteDoc) {
+  const status = route.status ?? 200;
+  const requiredRole = route.connectionRole ?? route.role;
+  const errors: Record<number, string[]> = {};
+  const addError = (code: number, description: string) => {
+    errors[code] = [...(errors[code] ?? []), description];
+  };
+
+  if (route.params || route.query || route.body) addError(400, 'Validation error');
+  if (route.auth !== false) addError(401, 'Not signed in');
+  if (requiredRole) addError(403, `Requires the ${requiredRole} role`);
+  if (route.connectionRole) addError(404, 'Connection not found');
+  else if (route.params) addError(404, 'Not found');
+  for (const [code, description] of Object.entries(route.responses ?? {})) {
+    addError(Number(code), description);
+  }
+  addError(500, 'Unexpected server error');
+
+  return {
+    [status]:
+      status === 204
+        ? { description: 'No content' }
+        : { description: 'Success', content: { [route.contentType ?? 'application/json']: {} } },
+    ...Object.fromEntries(
+      Object.entries(errors).map(([code, descriptions]) => [
+        code,
+        {
+          description: [...new Set(descriptions)].join('; '),
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+        },
+      ])
+    ),
+  };
+}
+
+function toOperation(route: RouteDoc, tag: string) {
+  const requiredRole = route.connectionRole
+    ? `Requires the ${route.connectionRole} role on the connection.`
+    : route.role && `Requires the ${route.role} role.`;
+  const description = [route.description, requiredRole].filter(Boolean).join(' ');
+
+  return {
+    operationId: toOperationId(route),
+    summary: route.summary,
+    ...(description && { description }),
+    tags: [tag],
+    ...(route.auth === false && { security: [] }),
+    parameters: [...toParameters(route.params, 'path'), ...toParameters(route.query, 'query')],
+    ...(route.body && {
+      requestBody: {
+        // Bodies with defaults for every field may be left out
+        required: !route.body.safeParse(undefined).success,
+        content: { 'application/json': { schema: toJsonSchema(route.body) } },
+      },
+    }),
+    responses: toResponses(route),
+  };
+}
+
+// OpenAPI 3.1 document for every route registered through createRouter
+export function buildOpenApiDocument(routers: ApiRouter[]) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const { tag, routes } of routers) {
+    for (const route of routes) {
+      const path = toOpenApiPath(route.path);
+      paths[path] = { ...paths[path], [route.method]: toOperation(route, tag) };
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Sferal API',
+      version: '1.0.0',
+    },
+    tags: routers.map(({ tag }) => ({ name: tag })),
+    // Browsers send the session cookie set by POST /api/auth/login
+    security: [{ session: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        session: { type: 'apiKey', in: 'cookie', name: SESSION_COOKIE_NAME },
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: {
+            error: { type: 'string' },
+            // Matches the X-Request-Id header and the server log line
+            errorId: { type: 'string' },
+            message: { type: 'string' },
+            details: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['field', 'message'],
+                properties: { field: { type: 'string' }, message: { type: 'string' } },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
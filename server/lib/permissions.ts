@@ -0,0 +1,111 @@
+import type { Request, Response, NextFunction } from 'express';
+import prisma from './prisma';
+import type { AuthUser } from './auth';
+import { hasRole, toRole, type Role } from './roles';
+
+// Prisma filter for the connections a user may see: admins see all of them,
+// everyone else only those they hold a grant on
+export const visibleConnectionsFilter = (user: AuthUser) =>
+  user.role === 'admin' ? {} : { grants: { some: { userId: user.id } } };
+
+// Prisma filter for the saved queries a user may see: those on connections they can see,
+// and those not tied to a connection at all
+export const visibleSavedQueriesFilter = (user: AuthUser) =>
+  user.role === 'admin'
+    ? {}
+    : { OR: [{ connectionId: null }, { connection: visibleConnectionsFilter(user) }] };
+
+// Prisma filter for the charts a user may see: those over saved queries they can see
+export const visibleChartsFilter = (user: AuthUser) =>
+  user.role === 'admin' ? {} : { savedQuery: visibleSavedQueriesFilter(user) };
+
+// Prisma filter for the dashboard widgets a user may see. Dashboards themselves are shared;
+// a widget shows only when its chart or KPI saved query is visible.
+export const visibleWidgetsFilter = (user: AuthUser) =>
+  user.role === 'admin'
+    ? {}
+    : { OR: [{ chart: visibleChartsFilter(user) }, { savedQuery: visibleSavedQueriesFilter(user) }] };
+
+// A grant never lifts a user above their account role, so a viewer stays read-only
+const effectiveRole = (user: AuthUser, grantRole: string): Role => {
+  const role = toRole(grantRole);
+  return hasRole(user.role, role) ? role : user.role;
+};
+
+// The user's effective role on a connection, or null when it is hidden from them
+export async function getConnectionRole(
+  user: AuthUser,
+  connectionId: number
+): Promise<Role | null> {
+  if (user.role === 'admin') return 'admin';
+
+  const grant = await prisma.connectionGrant.findUnique({
+    where: { userId_connectionId: { userId: user.id, connectionId } },
+  });
+
+  return grant ? effectiveRole(user, grant.role) : null;
+}
+
+// Add the user's effective role to each connection of a list, with one grant lookup
+// for the whole page. Lists only hold visible connections, so every one has a grant.
+export async function withConnectionRoles<T extends { id: number }>(
+  user: AuthUser,
+  connections: T[]
+): Promise<(T & { role: Role })[]> {
+  const grants: { connectionId: number; role: string }[] =
+    user.role === 'admin'
+      ? []
+      : await prisma.connectionGrant.findMany({
+          where: { userId: user.id, connectionId: { in: connections.map(({ id }) => id) } },
+        });
+  const roles = new Map(grants.map((grant) => [grant.connectionId, effectiveRole(user, grant.role)]));
+
+  return connections.map((connection) => ({
+    ...connection,
+    role: user.role === 'admin' ? 'admin' : (roles.get(connection.id) ?? 'viewer'),
+  }));
+}
+
+// Every permission denial uses this body
+export function sendForbidden(res: Response, requiredRole: Role) {
+  res.status(403).json({
+    error: 'Forbidden',
+    message: `This action requires the ${requiredRole} role`,
+    requiredRole,
+  });
+}
+
+// Require an account-wide role, for actions not tied to an existing connection
+export const requireRole =
+  (required: Role) => (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !hasRole(req.user.role, required)) {
+      sendForbidden(res, required);
+      return;
+    }
+    next();
+  };
+
+// Require a role on the connection in req.params.id. Connections the user has no
+// grant on answer 404 like missing ones, so their existence isn't revealed.
+export const requireConnectionRole =
+  (required: Role) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const role = req.user ? await getConnectionRole(req.user, Number(req.params.id)) : null;
+
+      if (!role) {
+        res.status(404).json({
+          error: 'Connection not found',
+        });
+        return;
+      }
+
+      if (!hasRole(role, required)) {
+        sendForbidden(res, required);
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
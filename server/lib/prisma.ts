@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { observePrismaQuery } from './metrics';
 
 // Validate required environment variables
 if (!process.env.DATABASE_URL) {
@@ -18,12 +19,29 @@ const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined;
 };
 
-export const prisma =
-  globalForPrisma.prisma ??
-  new PrismaClient({
-    log: NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
+// Query events feed the prisma_query_duration_seconds metric. In development they are also
+// logged, through this handler rather than stdout so that bound parameters (which include
+// encrypted credentials) never reach the log.
+const createPrismaClient = () => {
+  const client = new PrismaClient({
+    log:
+      NODE_ENV === 'development'
+        ? [{ emit: 'event', level: 'query' }, 'error', 'warn']
+        : [{ emit: 'event', level: 'query' }, 'error'],
   });
 
+  client.$on('query', (event: { query: string; duration: number }) => {
+    observePrismaQuery(event.query, event.duration);
+    if (NODE_ENV === 'development') {
+      console.log(`prisma:query ${event.query} (${event.duration}ms)`);
+    }
+  });
+
+  return client;
+};
+
+export const prisma = globalForPrisma.prisma ?? createPrismaClient();
+
 if (NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
 
 export default prisma;
@@ -0,0 +1,68 @@
+import type { Request } from 'express';
+import prisma from './prisma';
+import { recordAudit } from './audit';
+import { logger } from './logger';
+import { runQuery, type QueryResult, type RunQueryOptions } from './queryRunner';
+import type { ConnectionTarget } from './targetDatabase';
+
+interface RecordedQuery {
+  connectionId: number;
+  sql: string;
+  savedQueryId?: number;
+  // The request running the query, recorded as a query.run audit event
+  auditRequest?: Request;
+}
+
+// Run a statement and append the outcome to QueryHistory (and the audit log, when a
+// request is given), whether it succeeded or not.
+// Failing to write history never hides the query's own result or error.
+export async function runAndRecordQuery(
+  target: ConnectionTarget,
+  { connectionId, sql, savedQueryId, auditRequest }: RecordedQuery,
+  options: RunQueryOptions
+): Promise<QueryResult> {
+  const record = async (data: {
+    success: boolean;
+    durationMs: number | null;
+    rowCount: number | null;
+    error: string | null;
+  }) => {
+    await Promise.all([
+      prisma.queryHistory
+        .create({
+          data: { connectionId, savedQueryId: savedQueryId ?? null, sql, ...data },
+        })
+        .catch((error: unknown) => {
+          logger.error('Failed to record query history', { err: error, connectionId });
+        }),
+      auditRequest &&
+        recordAudit(auditRequest, {
+          action: 'query.run',
+          connectionId,
+          success: data.success,
+          metadata: { sql, savedQueryId: savedQueryId ?? null, ...data },
+        }),
+    ]);
+  };
+
+  const startedAt = performance.now();
+
+  try {
+    const result = await runQuery(target, sql, options);
+    await record({
+      success: true,
+      durationMs: result.durationMs,
+      rowCount: result.columns.length > 0 ? result.rowCount : result.affectedRows,
+      error: null,
+    });
+    return result;
+  } catch (error) {
+    await record({
+      success: false,
+      durationMs: Math.round(performance.now() - startedAt),
+      rowCount: null,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,83 @@
+import { DRIVER_LABELS, getDriver, type ColumnKind } from './drivers';
+import { env } from './env';
+import { TargetDatabaseError, type ConnectionTarget } from './targetDatabase';
+import { analyzeStatement } from './sqlGuard';
+import { withTunnel } from './sshTunnel';
+
+export const DEFAULT_MAX_ROWS = 1000;
+export const MAX_ROWS_LIMIT = 10000;
+export const DEFAULT_QUERY_TIMEOUT_MS = 30_000;
+export const MAX_QUERY_TIMEOUT_MS = 300_000;
+
+export interface QueryColumn {
+  name: string;
+  // The engine's own type name
+  type: string;
+  kind: ColumnKind;
+  table: string | null;
+}
+
+export interface QueryResult {
+  statementType: string;
+  columns: QueryColumn[];
+  rows: unknown[][];
+  rowCount: number;
+  // True when the statement produced more than maxRows rows and the rest were discarded
+  truncated: boolean;
+  affectedRows: number | null;
+  durationMs: number;
+}
+
+export type QueryParameterValue = string | number | null;
+
+export interface RunQueryOptions {
+  maxRows: number;
+  timeoutMs: number;
+  // Values for :name placeholders in the SQL; names without a value are bound as NULL
+  parameters?: Record<string, QueryParameterValue>;
+}
+
+// Whether a statement only reads, judged by the target engine's own list. Routes let
+// viewers run these; anything else needs the editor role on the connection.
+export const isReadOnlyStatement = (target: ConnectionTarget, sql: string): boolean =>
+  analyzeStatement(sql, getDriver(target.driver).capabilities).readOnly;
+
+// Run a single ad-hoc statement against a target database through its driver. Read-only
+// statements, as judged by the driver's own list, run so that the engine rejects writes.
+export async function runQuery(
+  target: ConnectionTarget,
+  sql: string,
+  options: RunQueryOptions
+): Promise<QueryResult> {
+  const driver = getDriver(target.driver);
+  const { statementType, readOnly } = analyzeStatement(sql, driver.capabilities);
+
+  // Validation only knows the MySQL list, so statements it let through as reads may still be
+  // writes for this engine
+  if (!readOnly && !env.QUERY_RUNNER_ALLOW_WRITES) {
+    throw new TargetDatabaseError({
+      category: 'query',
+      message: `${statementType} statements are not allowed on ${DRIVER_LABELS[driver.name]} connections`,
+    });
+  }
+
+  const startedAt = performance.now();
+  const result = await withTunnel(target, (reachable) =>
+    driver.runQuery(reachable, sql, { ...options, readOnly })
+  );
+  const durationMs = Math.round(performance.now() - startedAt);
+
+  return { statementType, ...result, durationMs };
+}
+
+export const TABLE_PREVIEW_ROWS = 100;
+
+// The first rows of a table or view, for browsing. The name is quoted, not checked; callers
+// look it up in the connection's schema first.
+export function previewTable(target: ConnectionTarget, table: string): Promise<QueryResult> {
+  const driver = getDriver(target.driver);
+  // One row past the preview so the result says whether there are more
+  const sql = `SELECT * FROM ${driver.quoteIdentifier(table)} LIMIT ${TABLE_PREVIEW_ROWS + 1}`;
+
+  return runQuery(target, sql, { maxRows: TABLE_PREVIEW_ROWS, timeoutMs: DEFAULT_QUERY_TIMEOUT_MS });
+}
@@ -0,0 +1,30 @@
+import { env } from './env';
+
+// Keys whose values must never reach logs or audit trails
+const SENSITIVE_KEY_PATTERN = /pass(word)?|secret|token|credential|username|api[-_]?key|private[-_]?key|ssl[-_]?key|authorization|cookie|encrypted/i;
+
+// Extra key names from LOG_REDACT_KEYS, matched case-insensitively
+const extraSensitiveKeys = new Set(env.LOG_REDACT_KEYS.map((key) => key.toLowerCase()));
+
+const isSensitiveKey = (key: string): boolean =>
+  SENSITIVE_KEY_PATTERN.test(key) || extraSensitiveKeys.has(key.toLowerCase());
+
+export const REDACTED = '[REDACTED]';
+
+// Deep-copy a value, replacing anything stored under a sensitive key
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        isSensitiveKey(key) ? REDACTED : redact(entry),
+      ])
+    );
+  }
+
+  return value;
+}
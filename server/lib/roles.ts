@@ -0,0 +1,16 @@
+// Imported by the API client as well, so this module must stay free of server dependencies
+
+// Ordered from least to most privileged
+export const ROLES = ['viewer', 'editor', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+// Roles that can be granted on a single connection; admins already see everything
+export const GRANT_ROLES = ['viewer', 'editor'] as const;
+export type GrantRole = (typeof GRANT_ROLES)[number];
+
+// Unknown values stored in the database fall back to the least privileged role
+export const toRole = (value: string): Role =>
+  (ROLES as readonly string[]).includes(value) ? (value as Role) : 'viewer';
+
+export const hasRole = (role: Role, required: Role): boolean =>
+  ROLES.indexOf(role) >= ROLES.indexOf(required);
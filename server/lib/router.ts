@@ -0,0 +1,79 @@
+import express, { type RequestHandler, type Router } from 'express';
+import { requireAuth } from './auth';
+import { requireConnectionRole, requireRole } from './permissions';
+import type { Role } from './roles';
+import { validate, type RequestSchemas } from './validation';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+// Everything a route needs besides its handler. The same spec drives the middleware chain
+// and the OpenAPI document, so the docs can't drift from what is enforced.
+export interface RouteSpec extends RequestSchemas {
+  summary: string;
+  description?: string;
+  // Routes require a signed-in user unless this is false
+  auth?: boolean;
+  // Account-wide role, checked before the request is validated
+  role?: Role;
+  // Role on the connection in :id, checked after validation has parsed the ID
+  connectionRole?: Role;
+  // Success status and body type; defaults to 200 with JSON
+  status?: number;
+  contentType?: string;
+  // Route-specific error responses, by status code
+  responses?: Record<number, string>;
+}
+
+export interface RouteDoc extends RouteSpec {
+  method: HttpMethod;
+  path: string;
+}
+
+type RouteDefiner = (path: string, spec: RouteSpec, ...handlers: RequestHandler[]) => void;
+
+export interface ApiRouter {
+  // OpenAPI tag the routes are grouped under
+  tag: string;
+  router: Router;
+  routes: RouteDoc[];
+  get: RouteDefiner;
+  post: RouteDefiner;
+  put: RouteDefiner;
+  patch: RouteDefiner;
+  delete: RouteDefiner;
+}
+
+// Middleware that enforces a spec: session, account role, validation, then connection role
+const specMiddleware = (spec: RouteSpec): RequestHandler[] => [
+  ...(spec.auth === false ? [] : [requireAuth]),
+  ...(spec.role ? [requireRole(spec.role)] : []),
+  ...(spec.params || spec.query || spec.body
+    ? [validate({ params: spec.params, query: spec.query, body: spec.body })]
+    : []),
+  ...(spec.connectionRole ? [requireConnectionRole(spec.connectionRole)] : []),
+];
+
+// A router for one resource. Routes are declared with their full path and a spec, and are
+// recorded for the OpenAPI document as they are registered.
+export function createRouter(tag: string): ApiRouter {
+  const router = express.Router();
+  const routes: RouteDoc[] = [];
+
+  const define =
+    (method: HttpMethod): RouteDefiner =>
+    (path, spec, ...handlers) => {
+      routes.push({ method, path, ...spec });
+      router[method](path, ...specMiddleware(spec), ...handlers);
+    };
+
+  return {
+    tag,
+    router,
+    routes,
+    get: define('get'),
+    post: define('post'),
+    put: define('put'),
+    patch: define('patch'),
+    delete: define('delete'),
+  };
+}
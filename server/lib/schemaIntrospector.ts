@@ -0,0 +1,87 @@
+import { getDriver, type ColumnKind } from './drivers';
+import { withTunnel } from './sshTunnel';
+import type { ConnectionTarget } from './targetDatabase';
+
+export interface ColumnInfo {
+  name: string;
+  position: number;
+  dataType: string;
+  columnType: string;
+  kind: ColumnKind;
+  nullable: boolean;
+  defaultValue: string | null;
+  collation: string | null;
+  key: string | null;
+  extra: string | null;
+  comment: string | null;
+}
+
+export interface IndexInfo {
+  name: string;
+  unique: boolean;
+  primary: boolean;
+  type: string;
+  columns: string[];
+}
+
+export interface ForeignKeyInfo {
+  name: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  onUpdate: string;
+  onDelete: string;
+}
+
+export interface TableInfo {
+  name: string;
+  type: 'table' | 'view';
+  // MySQL storage engine; null for other databases
+  engine: string | null;
+  // From INFORMATION_SCHEMA.TABLES, which is an estimate for InnoDB; null where the engine
+  // keeps no estimate
+  approximateRowCount: number | null;
+  comment: string | null;
+  columns: ColumnInfo[];
+  indexes: IndexInfo[];
+  foreignKeys: ForeignKeyInfo[];
+}
+
+export interface DatabaseSchema {
+  database: string;
+  tables: TableInfo[];
+  introspectedAt: string;
+}
+
+// Cached schemas are served for this long before being re-read from the target
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+const cache = new Map<number, DatabaseSchema>();
+
+// Return the schema for a stored connection, reading it through the connection's driver only
+// when the cache is empty, stale or a refresh is requested
+export async function getConnectionSchema(
+  connectionId: number,
+  target: ConnectionTarget,
+  options: { refresh?: boolean } = {}
+): Promise<{ schema: DatabaseSchema; cached: boolean }> {
+  const cachedSchema = cache.get(connectionId);
+
+  if (
+    !options.refresh &&
+    cachedSchema &&
+    Date.now() - new Date(cachedSchema.introspectedAt).getTime() < CACHE_TTL_MS
+  ) {
+    return { schema: cachedSchema, cached: true };
+  }
+
+  const schema = await withTunnel(target, (reachable) => getDriver(target.driver).readSchema(reachable));
+  cache.set(connectionId, schema);
+
+  return { schema, cached: false };
+}
+
+// Drop the cached schema, e.g. after the connection's host or database changed
+export function invalidateConnectionSchema(connectionId: number) {
+  cache.delete(connectionId);
+}
@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'bun:test';
+import { sqliteDriver } from './drivers/sqlite';
+import { UnsafeStatementError, analyzeStatement, statementWords } from './sqlGuard';
+
+const sqlite = sqliteDriver.capabilities;
+
+describe('analyzeStatement', () => {
+  test.each([
+    ['SELECT * FROM orders', 'SELECT'],
+    ['  select id from orders;  ', 'SELECT'],
+    ['SHOW TABLES', 'SHOW'],
+    ['SHOW CREATE TABLE orders', 'SHOW'],
+    ['SHOW CREATE PROCEDURE refund_order', 'SHOW'],
+    ['DESCRIBE orders', 'DESCRIBE'],
+    ['DESC orders', 'DESCRIBE'],
+    ['EXPLAIN SELECT * FROM orders', 'EXPLAIN'],
+    ['WITH recent AS (SELECT * FROM orders) SELECT * FROM recent', 'WITH'],
+  ])('%s only reads', (sql, statementType) => {
+    expect(analyzeStatement(sql)).toEqual({ statementType, readOnly: true });
+  });
+
+  test.each([
+    ['INSERT INTO orders (total) VALUES (1)', 'INSERT'],
+    ['UPDATE orders SET total = 0', 'UPDATE'],
+    ['DELETE FROM orders', 'DELETE'],
+    ['DROP TABLE orders', 'DROP'],
+    ['CALL refund_order(1)', 'CALL'],
+    ['SET @total = 0', 'SET'],
+    ['EXPLAIN DELETE FROM orders', 'EXPLAIN'],
+    ['WITH gone AS (DELETE FROM orders RETURNING *) SELECT * FROM gone', 'WITH'],
+    ['WITH recent AS (SELECT * FROM orders) DELETE FROM orders WHERE id IN (SELECT id FROM recent)', 'WITH'],
+    ["SELECT * FROM orders INTO OUTFILE '/tmp/orders.csv'", 'SELECT'],
+    ["SELECT * INTO DUMPFILE '/tmp/orders' FROM orders", 'SELECT'],
+    ['SELECT total INTO @total FROM orders LIMIT 1', 'SELECT'],
+    ['SELECT * FROM orders FOR UPDATE', 'SELECT'],
+  ])('%s may write', (sql, statementType) => {
+    expect(analyzeStatement(sql)).toEqual({ statementType, readOnly: false });
+  });
+
+  describe('comments and literals', () => {
+    test.each([
+      "SELECT 'DELETE FROM orders' AS note",
+      'SELECT "DROP TABLE orders" AS note',
+      'SELECT `update` FROM orders',
+      "SELECT 'it''s; DELETE FROM orders' AS note",
+      'SELECT 1 -- DELETE FROM orders',
+      'SELECT 1 # DROP TABLE orders',
+      'SELECT /* UPDATE orders SET total = 0 */ 1',
+      "SELECT ';' AS separator",
+    ])('%s is read with its literals and comments left out', (sql) => {
+      expect(analyzeStatement(sql)).toEqual({ statementType: 'SELECT', readOnly: true });
+    });
+
+    test('a leading comment does not hide the statement type', () => {
+      expect(analyzeStatement('/* cleanup */ DELETE FROM orders')).toEqual({ statementType: 'DELETE', readOnly: false });
+      expect(analyzeStatement('-- cleanup\nDELETE FROM orders')).toEqual({ statementType: 'DELETE', readOnly: false });
+    });
+
+    test.each([
+      'SELECT 1 /*!50000 , (SELECT SLEEP(10)) */',
+      '/*! DROP TABLE orders */ SELECT 1',
+      'SELECT /*!*/ 1',
+    ])('rejects the executable comment in %s', (sql) => {
+      expect(() => analyzeStatement(sql)).toThrow(
+        new UnsafeStatementError('Executable comments (/*! ... */) are not allowed')
+      );
+    });
+
+    test.each([
+      ['SELECT 1 /* DELETE FROM orders', 'Unterminated comment'],
+      ["SELECT 'DELETE FROM orders", 'Unterminated quoted string or identifier'],
+      ['SELECT `orders', 'Unterminated quoted string or identifier'],
+    ])('rejects %s', (sql, message) => {
+      expect(() => analyzeStatement(sql)).toThrow(new UnsafeStatementError(message));
+    });
+  });
+
+  describe('statement count', () => {
+    test.each([
+      'SELECT 1; DELETE FROM orders',
+      'SELECT 1;; SELECT 2',
+      "SELECT 'a'; DROP TABLE orders -- ';",
+    ])('rejects %s', (sql) => {
+      expect(() => analyzeStatement(sql)).toThrow(
+        new UnsafeStatementError('Only a single statement can be run at a time')
+      );
+    });
+
+    test.each(['', ';', ' ; ; ', '-- nothing', '/* nothing */'])('rejects %j as empty', (sql) => {
+      expect(() => analyzeStatement(sql)).toThrow(new UnsafeStatementError('SQL must contain a statement'));
+    });
+  });
+
+  describe('backslashes', () => {
+    // 'it\'s' is one string in MySQL; SQLite and PostgreSQL end it at the second quote
+    test('escape a quote in MySQL', () => {
+      expect(analyzeStatement("SELECT 'it\\'s; DELETE FROM orders' AS note")).toEqual({
+        statementType: 'SELECT',
+        readOnly: true,
+      });
+      expect(() => analyzeStatement("SELECT 'C:\\' AS path")).toThrow(
+        new UnsafeStatementError('Unterminated quoted string or identifier')
+      );
+    });
+
+    test('are ordinary characters in SQLite', () => {
+      expect(analyzeStatement("SELECT 'C:\\' AS path", sqlite)).toEqual({ statementType: 'SELECT', readOnly: true });
+      expect(() => analyzeStatement("SELECT '\\'; DELETE FROM orders; --'", sqlite)).toThrow(
+        new UnsafeStatementError('Only a single statement can be run at a time')
+      );
+    });
+
+    test('cannot hide a call from SQLite checks', () => {
+      const sql = "SELECT 'a\\', load_extension('/tmp/extension.so') --'";
+
+      expect(statementWords(sql, { backslashEscapes: true })).not.toContain('LOAD_EXTENSION');
+      expect(statementWords(sql, sqlite)).toContain('LOAD_EXTENSION');
+    });
+  });
+
+  test('judges reads by the dialect\'s own list', () => {
+    expect(analyzeStatement('SHOW TABLES', sqlite)).toEqual({ statementType: 'SHOW', readOnly: false });
+    expect(analyzeStatement('PRAGMA table_info(orders)', sqlite)).toEqual({ statementType: 'PRAGMA', readOnly: false });
+    expect(analyzeStatement('SELECT * FROM orders', sqlite)).toEqual({ statementType: 'SELECT', readOnly: true });
+  });
+});
@@ -0,0 +1,172 @@
+// Static checks applied to ad-hoc SQL before it is sent to a target database.
+// These are a first line of defence; read-only queries additionally run inside
+// a READ ONLY transaction so the server itself rejects writes that slip through.
+
+export const READ_ONLY_STATEMENTS = ['SELECT', 'SHOW', 'EXPLAIN', 'DESCRIBE', 'DESC', 'WITH'] as const;
+
+// How an engine's SQL is read
+export interface SqlDialect {
+  // Statement types the query runner may run when writes are disabled
+  readOnlyStatements: readonly string[];
+  // Whether a backslash escapes the next character inside quotes, as in MySQL. SQLite and
+  // PostgreSQL treat it as an ordinary character, so 'a\' is a complete string there.
+  backslashEscapes: boolean;
+}
+
+export const MYSQL_DIALECT: SqlDialect = { readOnlyStatements: READ_ONLY_STATEMENTS, backslashEscapes: true };
+
+// Keywords that can modify data, schema, privileges or server state
+const WRITE_KEYWORDS = new Set([
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'REPLACE',
+  'MERGE',
+  'UPSERT',
+  'DROP',
+  'ALTER',
+  'CREATE',
+  'TRUNCATE',
+  'RENAME',
+  'GRANT',
+  'REVOKE',
+  'LOCK',
+  'UNLOCK',
+  'CALL',
+  'EXEC',
+  'EXECUTE',
+  'LOAD',
+  'HANDLER',
+  'INTO',
+  'SET',
+  'DO',
+  'KILL',
+  'SHUTDOWN',
+  'FLUSH',
+  'RESET',
+  'PURGE',
+  'INSTALL',
+  'UNINSTALL',
+  'OPTIMIZE',
+  'REPAIR',
+  'ANALYZE',
+  'PREPARE',
+  'DEALLOCATE',
+  'ATTACH',
+  'DETACH',
+  'PRAGMA',
+  'VACUUM',
+  'COPY',
+]);
+
+export interface StatementAnalysis {
+  statementType: string;
+  readOnly: boolean;
+}
+
+export class UnsafeStatementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeStatementError';
+  }
+}
+
+// Replace comments and quoted strings/identifiers so keyword checks only see SQL syntax
+function stripLiteralsAndComments(sql: string, backslashEscapes: boolean): string {
+  let result = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i]!;
+    const next = sql[i + 1];
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      result += ' ';
+    } else if (char === '#') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      result += ' ';
+    } else if (char === '/' && next === '*') {
+      // MySQL executes the body of /*! ... */ comments, so they cannot be treated as comments
+      if (sql[i + 2] === '!') {
+        throw new UnsafeStatementError('Executable comments (/*! ... */) are not allowed');
+      }
+      const end = sql.indexOf('*/', i + 2);
+      if (end === -1) {
+        throw new UnsafeStatementError('Unterminated comment');
+      }
+      i = end + 2;
+      result += ' ';
+    } else if (char === "'" || char === '"' || char === '`') {
+      let j = i + 1;
+      while (j < sql.length) {
+        if (backslashEscapes && sql[j] === '\\' && char !== '`') {
+          j += 2;
+          continue;
+        }
+        if (sql[j] === char) {
+          // A doubled quote is an escaped quote inside the literal
+          if (sql[j + 1] === char) {
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        j++;
+      }
+      if (j >= sql.length) {
+        throw new UnsafeStatementError('Unterminated quoted string or identifier');
+      }
+      i = j + 1;
+      result += char === '`' ? ' _identifier_ ' : " '' ";
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+// The words of a single statement, upper-cased, with literals and comments left out.
+// Throws UnsafeStatementError for input that must never be executed.
+export function statementWords(sql: string, { backslashEscapes }: Pick<SqlDialect, 'backslashEscapes'>): string[] {
+  const code = stripLiteralsAndComments(sql, backslashEscapes);
+
+  const statements = code
+    .split(';')
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+
+  if (statements.length === 0) {
+    throw new UnsafeStatementError('SQL must contain a statement');
+  }
+  if (statements.length > 1) {
+    throw new UnsafeStatementError('Only a single statement can be run at a time');
+  }
+
+  return (statements[0]!.match(/[A-Za-z_][A-Za-z0-9_$]*/g) ?? []).map((word) => word.toUpperCase());
+}
+
+// Classify a single statement and decide whether it is read-only. Drivers pass their engine's
+// dialect; the default is MySQL's, whose list of reads covers the others.
+// Throws UnsafeStatementError for input that must never be executed.
+export function analyzeStatement(sql: string, dialect: SqlDialect = MYSQL_DIALECT): StatementAnalysis {
+  const words = statementWords(sql, dialect);
+  const { readOnlyStatements } = dialect;
+  const statementType = words[0] ?? 'UNKNOWN';
+
+  // SHOW and DESCRIBE cannot write, and legitimately contain keywords such as CREATE
+  // (SHOW CREATE TABLE), so only the remaining statement types are scanned
+  const readOnly =
+    readOnlyStatements.includes(statementType) &&
+    (['SHOW', 'DESCRIBE', 'DESC'].includes(statementType) ||
+      !words.some((word) => WRITE_KEYWORDS.has(word)));
+
+  return {
+    statementType: statementType === 'DESC' ? 'DESCRIBE' : statementType,
+    readOnly,
+  };
+}
@@ -0,0 +1,151 @@
+import net from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { closedPort } from '../test/fakeMysqlServer';
+import { startFakeSshServer, type FakeSshServer } from '../test/fakeSshServer';
+import { withTunnel } from './sshTunnel';
+import { TargetDatabaseError, type ConnectionTarget } from './targetDatabase';
+
+// Stands in for the database behind the bastion: answers each chunk with "echo: <chunk>"
+let database: net.Server;
+let databasePort: number;
+
+beforeAll(async () => {
+  database = net.createServer((socket) => {
+    socket.on('data', (chunk) => socket.write(`echo: ${chunk}`));
+    socket.on('error', () => socket.destroy());
+  });
+  await new Promise<void>((resolve) => database.listen(0, '127.0.0.1', resolve));
+  databasePort = (database.address() as net.AddressInfo).port;
+});
+
+afterAll(() => {
+  database.close();
+});
+
+const target = (sshPort: number, password = 'bastion-secret'): ConnectionTarget => ({
+  driver: 'mysql',
+  host: '127.0.0.1',
+  port: databasePort,
+  database: 'app',
+  username: 'app',
+  password: 'secret',
+  tls: null,
+  sshTunnel: { host: '127.0.0.1', port: sshPort, username: 'tunnel', privateKey: null, password },
+});
+
+// Send one message through host:port and resolve with the first reply
+const roundTrip = (port: number, message: string) =>
+  new Promise<string>((resolve, reject) => {
+    const socket = net.connect(port, '127.0.0.1', () => socket.write(message));
+    socket.once('data', (chunk) => {
+      socket.end();
+      resolve(chunk.toString());
+    });
+    socket.once('close', () => reject(new Error('closed before replying')));
+    socket.on('error', reject);
+  });
+
+// Resolve once a connection to the port is refused, i.e. nothing listens there any more
+const isRefused = (port: number) =>
+  new Promise<boolean>((resolve) => {
+    const socket = net.connect(port, '127.0.0.1', () => {
+      socket.destroy();
+      resolve(false);
+    });
+    socket.on('error', (error: NodeJS.ErrnoException) => resolve(error.code === 'ECONNREFUSED'));
+  });
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  return condition();
+};
+
+describe('withTunnel', () => {
+  let bastion: FakeSshServer | undefined;
+
+  afterEach(async () => {
+    await bastion?.close();
+    bastion = undefined;
+  });
+
+  test('forwards through the bastion for the length of the operation', async () => {
+    bastion = await startFakeSshServer({ username: 'tunnel', password: 'bastion-secret' });
+
+    let tunnelPort = 0;
+    const reply = await withTunnel(target(bastion.port), async ({ host, port }) => {
+      expect(host).toBe('127.0.0.1');
+      expect(port).not.toBe(databasePort);
+      tunnelPort = port!;
+      return roundTrip(port!, 'ping');
+    });
+
+    expect(reply).toBe('echo: ping');
+    expect(bastion.logins).toBe(1);
+    expect(bastion.forwards).toEqual([`127.0.0.1:${databasePort}`]);
+
+    // Closed once the operation is done: the local port stops listening and the session ends
+    expect(await isRefused(tunnelPort)).toBe(true);
+    expect(await waitFor(() => bastion!.openConnections === 0)).toBe(true);
+  });
+
+  test('closes the tunnel when the operation fails', async () => {
+    bastion = await startFakeSshServer({ username: 'tunnel', password: 'bastion-secret' });
+
+    let tunnelPort = 0;
+    const failure = new Error('query failed');
+    const result = withTunnel(target(bastion.port), async ({ port }) => {
+      tunnelPort = port!;
+      throw failure;
+    });
+
+    await expect(result).rejects.toBe(failure);
+    expect(await isRefused(tunnelPort)).toBe(true);
+    expect(await waitFor(() => bastion!.openConnections === 0)).toBe(true);
+  });
+
+  test('reports an auth failure when the bastion rejects the login', async () => {
+    bastion = await startFakeSshServer({ username: 'tunnel', password: 'bastion-secret' });
+
+    let called = false;
+    const error = await withTunnel(target(bastion.port, 'wrong'), async () => {
+      called = true;
+    }).catch((caught: unknown) => caught);
+
+    expect(called).toBe(false);
+    expect(error).toBeInstanceOf(TargetDatabaseError);
+    expect(error).toMatchObject({ category: 'auth', code: 'SSH_AUTH_FAILED' });
+  });
+
+  test('reports a refused connection when nothing listens on the bastion port', async () => {
+    const error = await withTunnel(target(await closedPort()), async () => undefined).catch(
+      (caught: unknown) => caught
+    );
+
+    expect(error).toBeInstanceOf(TargetDatabaseError);
+    expect(error).toMatchObject({ category: 'refused', code: 'ECONNREFUSED' });
+  });
+
+  test('blames the bastion when it cannot reach the target', async () => {
+    bastion = await startFakeSshServer({ username: 'tunnel', password: 'bastion-secret', allowForwarding: false });
+
+    // The driver only sees its socket close, so it fails with an error of its own
+    const error = await withTunnel(target(bastion.port), ({ port }) => roundTrip(port!, 'ping')).catch(
+      (caught: unknown) => caught
+    );
+
+    expect(error).toBeInstanceOf(TargetDatabaseError);
+    expect(error).toMatchObject({
+      category: 'refused',
+      code: 'SSH_FORWARD_FAILED',
+    });
+  });
+
+  test('runs the operation directly when the target has no tunnel', async () => {
+    const direct = { ...target(0), sshTunnel: null };
+    const seen = await withTunnel(direct, async (connectionTarget) => connectionTarget);
+    expect(seen).toBe(direct);
+  });
+});
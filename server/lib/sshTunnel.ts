@@ -0,0 +1,142 @@
+import net from 'net';
+import { Client, type ClientChannel } from 'ssh2';
+import {
+  DEFAULT_CONNECT_TIMEOUT_MS,
+  TargetDatabaseError,
+  categorizeConnectionError,
+  type ConnectionTarget,
+  type SshTunnelOptions,
+} from './targetDatabase';
+
+interface Tunnel {
+  // Local port forwarded to the target through the bastion
+  port: number;
+  // Set once the bastion has failed us, e.g. it could not reach the target
+  error?: TargetDatabaseError;
+  close(): void;
+}
+
+interface TunnelOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+// ssh2 tags errors with the stage that failed; socket errors keep their usual codes
+function toTunnelError(error: unknown): TargetDatabaseError {
+  const err = error as { level?: string; message?: string };
+  const message = `SSH tunnel: ${err?.message || 'connection failed'}`;
+
+  if (err?.level === 'client-authentication') {
+    return new TargetDatabaseError({ category: 'auth', code: 'SSH_AUTH_FAILED', message });
+  }
+  if (err?.level === 'client-timeout') {
+    return new TargetDatabaseError({ category: 'timeout', code: 'SSH_TIMEOUT', message });
+  }
+
+  const { category, code } = categorizeConnectionError(error);
+  return new TargetDatabaseError({ category, ...(code && { code }), message });
+}
+
+// Log in to the bastion and listen on a random loopback port, forwarding every socket
+// accepted there to host:port as seen from the bastion
+function openTunnel(
+  ssh: SshTunnelOptions,
+  host: string,
+  port: number,
+  { timeoutMs = DEFAULT_CONNECT_TIMEOUT_MS, signal }: TunnelOptions
+): Promise<Tunnel> {
+  return new Promise((resolve, reject) => {
+    const client = new Client();
+    const server = net.createServer();
+    const sockets = new Set<net.Socket>();
+
+    const tunnel: Tunnel = {
+      port: 0,
+      close: () => {
+        signal?.removeEventListener('abort', onAbort);
+        server.close();
+        sockets.forEach((socket) => socket.destroy());
+        client.end();
+      },
+    };
+
+    const fail = (error: TargetDatabaseError) => {
+      tunnel.error ??= error;
+      tunnel.close();
+      // No-op once the tunnel is up; the operation using it sees its sockets close instead
+      reject(error);
+    };
+    const onAbort = () =>
+      fail(new TargetDatabaseError({ category: 'timeout', code: 'SSH_TIMEOUT', message: 'SSH tunnel: cancelled' }));
+
+    server.on('connection', (socket) => {
+      sockets.add(socket);
+      socket.on('close', () => sockets.delete(socket));
+      socket.on('error', () => socket.destroy());
+
+      client.forwardOut('127.0.0.1', socket.remotePort ?? 0, host, port, (error, stream: ClientChannel) => {
+        // ssh2 rarely has more to say than "Channel open failure"
+        if (error) {
+          tunnel.error ??= new TargetDatabaseError({
+            category: 'refused',
+            code: 'SSH_FORWARD_FAILED',
+            message: `SSH tunnel: the bastion could not reach ${host}:${port}`,
+          });
+          socket.destroy();
+          return;
+        }
+
+        stream.on('close', () => socket.destroy());
+        socket.on('close', () => stream.destroy());
+        socket.pipe(stream).pipe(socket);
+      });
+    });
+
+    client.on('ready', () => {
+      server.listen(0, '127.0.0.1', () => {
+        tunnel.port = (server.address() as net.AddressInfo).port;
+        resolve(tunnel);
+      });
+    });
+    client.on('error', (error) => fail(toTunnelError(error)));
+    server.on('error', (error) => fail(toTunnelError(error)));
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    client.connect({
+      host: ssh.host,
+      port: ssh.port,
+      username: ssh.username,
+      privateKey: ssh.privateKey ?? undefined,
+      password: ssh.password ?? undefined,
+      readyTimeout: timeoutMs,
+    });
+  });
+}
+
+// Run an operation against the target, through a local port forward when the target has an
+// SSH tunnel. The tunnel lives exactly as long as the operation.
+export async function withTunnel<T>(
+  target: ConnectionTarget,
+  operation: (target: ConnectionTarget) => Promise<T>,
+  options: TunnelOptions = {}
+): Promise<T> {
+  if (!target.sshTunnel || target.host === null || target.port === null) {
+    return operation(target);
+  }
+
+  const tunnel = await openTunnel(target.sshTunnel, target.host, target.port, options);
+
+  try {
+    return await operation({ ...target, host: '127.0.0.1', port: tunnel.port });
+  } catch (error) {
+    // The driver only saw its socket close; the tunnel knows why
+    throw tunnel.error ?? error;
+  } finally {
+    tunnel.close();
+  }
+}
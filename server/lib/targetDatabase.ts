@@ -0,0 +1,195 @@
+import {
+  decryptConnectionCredentials,
+  type ConnectionCredentials,
+  type EncryptedCredentialFields,
+} from './credentials';
+import type { DriverName } from './drivers/types';
+
+export const SSL_MODES = ['disabled', 'required'] as const;
+
+export type SslMode = (typeof SSL_MODES)[number];
+
+export interface TlsOptions {
+  // PEM-encoded; null trusts the system's CA store and sends no client certificate
+  ca: string | null;
+  cert: string | null;
+  key: string | null;
+  verifyServerCert: boolean;
+  // Only checked along with the certificate, and never through an SSH tunnel
+  verifyHostname: boolean;
+}
+
+// A bastion host the target is reached through (see sshTunnel.ts)
+export interface SshTunnelOptions {
+  host: string;
+  port: number;
+  username: string;
+  privateKey: string | null;
+  password: string | null;
+}
+
+// Everything needed to reach a user's database (as opposed to the app's own Prisma database)
+export interface ConnectionTarget {
+  driver: DriverName;
+  // Null for file-based engines
+  host: string | null;
+  port: number | null;
+  // A database name, or for SQLite a file path relative to SQLITE_DATA_DIR
+  database: string;
+  username: string | null;
+  password: string | null;
+  // Null when TLS is disabled
+  tls: TlsOptions | null;
+  // Null when the target is reached directly
+  sshTunnel: SshTunnelOptions | null;
+}
+
+export type ConnectionErrorCategory =
+  | 'dns'
+  | 'refused'
+  | 'auth'
+  | 'unknown_database'
+  | 'timeout'
+  | 'query'
+  | 'unknown';
+
+export interface ConnectionErrorInfo {
+  category: ConnectionErrorCategory;
+  code?: string;
+  message: string;
+}
+
+export class ConnectionTimeoutError extends Error {
+  code = 'ETIMEDOUT';
+
+  constructor(timeoutMs: number) {
+    super(`Connection attempt timed out after ${timeoutMs}ms`);
+    this.name = 'ConnectionTimeoutError';
+  }
+}
+
+// Raised when a target database cannot be reached or rejects an operation.
+// Routes answer these with 502 rather than treating them as server faults.
+export class TargetDatabaseError extends Error {
+  readonly category: ConnectionErrorCategory;
+  readonly code?: string;
+
+  constructor(info: ConnectionErrorInfo) {
+    super(info.message);
+    this.name = 'TargetDatabaseError';
+    this.category = info.category;
+    this.code = info.code;
+  }
+}
+
+export const DEFAULT_CONNECT_TIMEOUT_MS = 5000;
+
+// Map driver and socket errors onto the categories shown to users
+export function categorizeConnectionError(error: unknown): ConnectionErrorInfo {
+  if (error instanceof TargetDatabaseError) {
+    return { category: error.category, ...(error.code && { code: error.code }), message: error.message };
+  }
+
+  const err = error as { code?: string; errno?: number; message?: string };
+  const code = err?.code;
+  const message = err?.message || 'Connection failed';
+
+  switch (code) {
+    case 'ENOTFOUND':
+    case 'EAI_AGAIN':
+    case 'EAI_NONAME':
+      return { category: 'dns', code, message };
+    case 'ECONNREFUSED':
+    case 'ECONNRESET':
+    case 'EHOSTUNREACH':
+    case 'ENETUNREACH':
+      return { category: 'refused', code, message };
+    case 'ER_ACCESS_DENIED_ERROR':
+    case 'ER_ACCESS_DENIED_NO_PASSWORD_ERROR':
+    case 'ER_DBACCESS_DENIED_ERROR':
+    case 'ER_NOT_SUPPORTED_AUTH_MODE':
+      return { category: 'auth', code, message };
+    case 'SQLITE_AUTH':
+    case 'SQLITE_PERM':
+      return { category: 'auth', code, message };
+    case 'ER_BAD_DB_ERROR':
+    case 'SQLITE_CANTOPEN':
+    case 'SQLITE_NOTADB':
+      return { category: 'unknown_database', code, message };
+    case 'ETIMEDOUT':
+    case 'PROTOCOL_SEQUENCE_TIMEOUT':
+    case 'ER_QUERY_TIMEOUT':
+    case 'ER_STATEMENT_TIMEOUT':
+    case 'SQLITE_BUSY':
+    case 'SQLITE_INTERRUPT':
+      return { category: 'timeout', code, message };
+    default:
+      return { category: 'unknown', ...(code && { code }), message };
+  }
+}
+
+// Connection columns that say where and how to connect, as stored or as sent for an unsaved test
+export interface ConnectionSettings {
+  driver: string;
+  host: string | null;
+  port: number | null;
+  database: string;
+  sslMode: string;
+  sslCa: string | null;
+  sslCert: string | null;
+  sslVerifyServerCert: boolean;
+  sslVerifyHostname: boolean;
+  sshHost: string | null;
+  sshPort: number;
+  sshUsername: string | null;
+}
+
+export function buildConnectionTarget(
+  settings: ConnectionSettings & ConnectionCredentials
+): ConnectionTarget {
+  return {
+    // Only the drivers in DRIVER_NAMES pass validation
+    driver: settings.driver as DriverName,
+    host: settings.host,
+    port: settings.port,
+    database: settings.database,
+    username: settings.username,
+    password: settings.password,
+    tls:
+      settings.sslMode === 'disabled'
+        ? null
+        : {
+            // Empty PEM fields mean none was given
+            ca: settings.sslCa || null,
+            cert: settings.sslCert || null,
+            key: settings.sslKey || null,
+            verifyServerCert: settings.sslVerifyServerCert,
+            verifyHostname: settings.sslVerifyHostname,
+          },
+    sshTunnel: settings.sshHost
+      ? {
+          host: settings.sshHost,
+          port: settings.sshPort,
+          username: settings.sshUsername ?? '',
+          privateKey: settings.sshPrivateKey || null,
+          password: settings.sshPassword || null,
+        }
+      : null,
+  };
+}
+
+// Build a target from a stored Connection row, decrypting its secrets
+export const toConnectionTarget = (connection: ConnectionSettings & EncryptedCredentialFields) =>
+  buildConnectionTarget({ ...connection, ...decryptConnectionCredentials(connection) });
+
+// Wrap a driver failure in TargetDatabaseError, leaving ones already categorized alone
+export const toTargetDatabaseError = (error: unknown): TargetDatabaseError =>
+  error instanceof TargetDatabaseError ? error : new TargetDatabaseError(categorizeConnectionError(error));
+
+// Anything other than a connectivity or timeout problem is a fault in the statement itself
+export const toQueryError = (error: unknown): TargetDatabaseError => {
+  const wrapped = toTargetDatabaseError(error);
+  return wrapped.category === 'unknown'
+    ? new TargetDatabaseError({ category: 'query', code: wrapped.code, message: wrapped.message })
+    : wrapped;
+};
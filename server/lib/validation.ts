@@ -0,0 +1,45 @@
+import type { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+
+export interface RequestSchemas {
+  body?: z.ZodType;
+  query?: z.ZodType;
+  params?: z.ZodType;
+}
+
+// Validation middleware factory. Parsed values replace the raw ones, so handlers see
+// transformed types (numeric IDs, defaults applied).
+export const validate = (schema: RequestSchemas) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (schema.body) {
+        req.body = schema.body.parse(req.body) as any;
+      }
+      if (schema.query) {
+        // Express 5 defines req.query as a getter, so it can't simply be assigned
+        Object.defineProperty(req, 'query', {
+          value: schema.query.parse(req.query),
+          writable: true,
+          configurable: true,
+          enumerable: true,
+        });
+      }
+      if (schema.params) {
+        req.params = schema.params.parse(req.params) as any;
+      }
+      next();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'Validation Error',
+          details: error.issues.map((err: z.ZodIssue) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        });
+      } else {
+        next(error);
+      }
+    }
+  };
+};
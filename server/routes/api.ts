@@ -0,0 +1,25 @@
+import type { Request, Response } from 'express';
+import { createRouter } from '../lib/router';
+
+const routes = createRouter('API');
+
+routes.get('/api', {
+  summary: 'API information',
+}, (_req: Request, res: Response) => {
+  res.json({
+    message: 'Welcome to the API',
+    version: '1.0.0',
+  });
+});
+
+// Example endpoint - replace with your actual endpoints
+routes.get('/api/example', {
+  summary: 'Example endpoint',
+}, (_req: Request, res: Response) => {
+  res.json({
+    data: 'This is an example endpoint',
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export default routes;
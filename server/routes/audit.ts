@@ -0,0 +1,134 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { env } from '../lib/env';
+import prisma from '../lib/prisma';
+import { createRouter } from '../lib/router';
+import { logError } from '../lib/errors';
+import { AUDIT_CSV_HEADER, toAuditCsvRow } from '../lib/audit';
+import { auditExportQuerySchema, auditQuerySchema } from '../schemas/audit';
+
+const routes = createRouter('Audit');
+
+// Build the Prisma filter shared by the audit list and export endpoints
+const auditEventFilter = ({ actorId, actor, action, connectionId, from, to }: z.infer<typeof auditExportQuerySchema>) => ({
+  ...(actorId && { actorId }),
+  ...(actor && { actorEmail: { contains: actor } }),
+  ...(action && { action }),
+  ...(connectionId && { connectionId }),
+  ...((from || to) && {
+    createdAt: {
+      ...(from && { gte: from }),
+      ...(to && { lte: to }),
+    },
+  }),
+});
+
+// Audit events, newest first
+routes.get('/api/audit', {
+  summary: 'List audit events',
+  role: 'admin',
+  query: auditQuerySchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const { page, limit, ...filters } = req.query as unknown as z.infer<typeof auditQuerySchema>;
+    const skip = (page - 1) * limit;
+    const where = auditEventFilter(filters);
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    res.json({
+      data: events,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'fetch_audit_events', query: req.query }
+    });
+
+    res.status(500).json({
+      error: 'Failed to fetch audit events',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Rows fetched per batch while streaming the CSV export
+const AUDIT_EXPORT_BATCH_SIZE = 1000;
+
+// Download every matching audit event as CSV, streamed in batches
+routes.get('/api/audit/export', {
+  summary: 'Export audit events as CSV',
+  role: 'admin',
+  query: auditExportQuerySchema,
+  contentType: 'text/csv',
+}, async (req: Request, res: Response) => {
+  try {
+    const where = auditEventFilter(req.query as unknown as z.infer<typeof auditExportQuerySchema>);
+
+    let cursor: number | undefined;
+    for (;;) {
+      const events = await prisma.auditEvent.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        take: AUDIT_EXPORT_BATCH_SIZE,
+        ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      // Headers go out with the first batch so an early failure can still answer 500
+      if (!res.headersSent) {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`
+        );
+        res.write(AUDIT_CSV_HEADER);
+      }
+
+      for (const event of events) {
+        res.write(toAuditCsvRow(event));
+      }
+
+      const last = events.at(-1);
+      if (!last || events.length < AUDIT_EXPORT_BATCH_SIZE) break;
+      cursor = last.id;
+    }
+
+    res.end();
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'export_audit_events', query: req.query }
+    });
+
+    // Once rows have been sent the status can't change; cut the download short instead
+    if (res.headersSent) {
+      res.destroy(err);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Failed to export audit events',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+export default routes;
@@ -0,0 +1,125 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { env } from '../lib/env';
+import { createRouter } from '../lib/router';
+import { logError } from '../lib/errors';
+import { recordAudit } from '../lib/audit';
+import {
+  authenticateUser,
+  clearSessionCookie,
+  createSession,
+  destroySession,
+  isLoginLocked,
+  readSessionToken,
+  recordLoginAttempt,
+  setSessionCookie,
+} from '../lib/auth';
+import { loginSchema } from '../schemas/auth';
+
+const routes = createRouter('Auth');
+
+// Sign in and start a cookie session
+routes.post('/api/auth/login', {
+  summary: 'Sign in',
+  auth: false,
+  body: loginSchema,
+  responses: { 401: 'Invalid email or password', 429: 'Too many failed attempts' },
+}, async (req: Request, res: Response) => {
+  try {
+    const { email, password } = req.body as z.infer<typeof loginSchema>;
+    const clientKey = req.ip ?? 'unknown';
+
+    if (isLoginLocked(clientKey)) {
+      await recordAudit(req, {
+        action: 'auth.login_failed',
+        actor: { id: null, email },
+        success: false,
+        metadata: { reason: 'locked_out' },
+      });
+      res.status(429).json({
+        error: 'Too many failed login attempts. Try again later.',
+      });
+      return;
+    }
+
+    const user = await authenticateUser(email, password);
+    recordLoginAttempt(clientKey, user !== null);
+
+    if (!user) {
+      await recordAudit(req, {
+        action: 'auth.login_failed',
+        actor: { id: null, email },
+        success: false,
+        metadata: { reason: 'invalid_credentials' },
+      });
+      res.status(401).json({
+        error: 'Invalid email or password',
+      });
+      return;
+    }
+
+    const { token, expiresAt } = await createSession(user.id, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+    setSessionCookie(res, token, expiresAt);
+    await recordAudit(req, { action: 'auth.login', actor: user });
+
+    res.json({
+      data: user,
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'login' }
+    });
+
+    res.status(500).json({
+      error: 'Failed to sign in',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// End the current session; succeeds even if it already expired
+routes.post('/api/auth/logout', {
+  summary: 'Sign out',
+  auth: false,
+  status: 204,
+}, async (req: Request, res: Response) => {
+  try {
+    const token = readSessionToken(req);
+    const user = token ? await destroySession(token) : null;
+    if (user) {
+      await recordAudit(req, { action: 'auth.logout', actor: user });
+    }
+    clearSessionCookie(res);
+
+    res.status(204).end();
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'logout' }
+    });
+
+    res.status(500).json({
+      error: 'Failed to sign out',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// The signed-in user
+routes.get('/api/auth/me', {
+  summary: 'Get the signed-in user',
+}, (req: Request, res: Response) => {
+  res.json({
+    data: req.user,
+  });
+});
+
+export default routes;
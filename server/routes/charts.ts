@@ -0,0 +1,275 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { env } from '../lib/env';
+import prisma from '../lib/prisma';
+import { createRouter } from '../lib/router';
+import { logError } from '../lib/errors';
+import type { AuthUser } from '../lib/auth';
+import { visibleChartsFilter, visibleSavedQueriesFilter } from '../lib/permissions';
+import { idParamSchema } from '../schemas/common';
+import {
+  chartConfigSchema,
+  chartsQuerySchema,
+  createChartSchema,
+  pieChartIssue,
+  pieChartRefinement,
+  updateChartSchema,
+} from '../schemas/charts';
+
+const routes = createRouter('Charts');
+
+// List charts, optionally for one saved query
+routes.get('/api/charts', {
+  summary: 'List charts',
+  query: chartsQuerySchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const { page, limit, search, savedQueryId } = req.query as unknown as z.infer<typeof chartsQuerySchema>;
+    const skip = (page - 1) * limit;
+
+    const where = {
+      ...visibleChartsFilter(req.user!),
+      ...(search && { name: { contains: search } }),
+      ...(savedQueryId && { savedQueryId }),
+    };
+
+    const [charts, total] = await Promise.all([
+      prisma.chart.findMany({
+        where,
+        include: { savedQuery: { select: { id: true, name: true, connectionId: true } } },
+        orderBy: { updatedAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.chart.count({ where }),
+    ]);
+
+    res.json({
+      data: charts,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'fetch_charts', query: req.query }
+    });
+
+    res.status(500).json({
+      error: 'Failed to fetch charts',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Get a chart by ID
+routes.get('/api/charts/:id', {
+  summary: 'Get a chart',
+  params: idParamSchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as unknown as { id: number };
+
+    const chart = await prisma.chart.findFirst({
+      where: { id, ...visibleChartsFilter(req.user!) },
+      include: { savedQuery: { select: { id: true, name: true, connectionId: true } } },
+    });
+
+    if (!chart) {
+      res.status(404).json({
+        error: 'Chart not found',
+      });
+      return;
+    }
+
+    res.json({
+      data: chart,
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'fetch_chart_by_id', chartId: req.params.id }
+    });
+
+    res.status(500).json({
+      error: 'Failed to fetch chart',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Saved queries on connections the user holds no grant on look missing, like in the saved query routes
+const findVisibleSavedQuery = (user: AuthUser, id: number) =>
+  prisma.savedQuery.findFirst({ where: { id, ...visibleSavedQueriesFilter(user) } });
+
+const savedQueryNotFoundDetails = {
+  error: 'Validation Error',
+  details: [
+    {
+      field: 'savedQueryId',
+      message: 'Saved query not found',
+    },
+  ],
+};
+
+// Create a chart
+routes.post('/api/charts', {
+  summary: 'Create a chart',
+  body: createChartSchema,
+  status: 201,
+}, async (req: Request, res: Response) => {
+  try {
+    const body = req.body as z.infer<typeof createChartSchema>;
+
+    if (!(await findVisibleSavedQuery(req.user!, body.savedQueryId))) {
+      res.status(400).json(savedQueryNotFoundDetails);
+      return;
+    }
+
+    const chart = await prisma.chart.create({
+      data: body,
+    });
+
+    res.status(201).json({
+      data: chart,
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'create_chart' }
+    });
+
+    res.status(500).json({
+      error: 'Failed to create chart',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Update a chart
+routes.patch(
+  '/api/charts/:id',
+  {
+    summary: 'Update a chart',
+    params: idParamSchema,
+    body: updateChartSchema,
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as unknown as { id: number };
+      const body = req.body as z.infer<typeof updateChartSchema>;
+
+      const existing = await prisma.chart.findFirst({
+        where: { id, ...visibleChartsFilter(req.user!) },
+      });
+
+      if (!existing) {
+        res.status(404).json({
+          error: 'Chart not found',
+        });
+        return;
+      }
+
+      // A type change alone must still agree with the stored config, read back through the schema
+      let config = body.config;
+      if (!config && body.type) {
+        const stored = chartConfigSchema.safeParse(existing.config);
+        if (!stored.success) {
+          res.status(400).json({
+            error: 'Validation Error',
+            details: [{ field: 'config', message: 'The stored config is invalid; send a new config with the type' }],
+          });
+          return;
+        }
+        config = stored.data;
+      }
+
+      if (!pieChartRefinement({ type: body.type ?? existing.type, config })) {
+        res.status(400).json({
+          error: 'Validation Error',
+          details: [{ field: 'config', message: pieChartIssue.message }],
+        });
+        return;
+      }
+
+      if (body.savedQueryId && !(await findVisibleSavedQuery(req.user!, body.savedQueryId))) {
+        res.status(400).json(savedQueryNotFoundDetails);
+        return;
+      }
+
+      const chart = await prisma.chart.update({
+        where: { id },
+        data: body,
+      });
+
+      res.json({
+        data: chart,
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: { operation: 'update_chart', chartId: req.params.id }
+      });
+
+      res.status(500).json({
+        error: 'Failed to update chart',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+// Delete a chart
+routes.delete('/api/charts/:id', {
+  summary: 'Delete a chart',
+  params: idParamSchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as unknown as { id: number };
+
+    const existing = await prisma.chart.findFirst({
+      where: { id, ...visibleChartsFilter(req.user!) },
+    });
+
+    if (!existing) {
+      res.status(404).json({
+        error: 'Chart not found',
+      });
+      return;
+    }
+
+    const chart = await prisma.chart.delete({
+      where: { id },
+    });
+
+    res.json({
+      data: chart,
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'delete_chart', chartId: req.params.id }
+    });
+
+    res.status(500).json({
+      error: 'Failed to delete chart',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+export default routes;
@@ -0,0 +1,1104 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { env } from '../lib/env';
+import prisma from '../lib/prisma';
+import { createRouter } from '../lib/router';
+import {
+  TARGET_DATABASE_ERRORS,
+  isUniqueConstraintError,
+  logError,
+  sendTargetDatabaseError,
+} from '../lib/errors';
+import {
+  decryptConnectionCredentials,
+  encryptCredentialInput,
+  splitCredentialInput,
+  toPublicConnection,
+} from '../lib/credentials';
+import {
+  ConnectionUrlError,
+  connectionFieldsFromUrl,
+  connectionUrlFor,
+  findConnectionUrls,
+  formatConnectionUrl,
+  parseConnectionUrl,
+} from '../lib/connectionUrl';
+import { testConnection } from '../lib/connectionTester';
+import { runConnectionCheck } from '../lib/healthMonitor';
+import { getConnectionSchema, invalidateConnectionSchema } from '../lib/schemaIntrospector';
+import { TargetDatabaseError, buildConnectionTarget, toConnectionTarget } from '../lib/targetDatabase';
+import { runAndRecordQuery } from '../lib/queryHistory';
+import { isReadOnlyStatement, previewTable } from '../lib/queryRunner';
+import { diffFields, recordAudit } from '../lib/audit';
+import {
+  getConnectionRole,
+  sendForbidden,
+  visibleConnectionsFilter,
+  withConnectionRoles,
+} from '../lib/permissions';
+import { hasRole } from '../lib/roles';
+import { idParamSchema } from '../schemas/common';
+import {
+  connectionChecksQuerySchema,
+  connectionGrantParamsSchema,
+  connectionGrantSchema,
+  connectionTargetSchema,
+  connectionUrlQuerySchema,
+  connectionsQuerySchema,
+  createConnectionSchema,
+  importConnectionsSchema,
+  tablePreviewParamsSchema,
+  testConnectionSchema,
+  testUnsavedConnectionSchema,
+  updateConnectionSchema,
+} from '../schemas/connections';
+import { runQuerySchema } from '../schemas/queries';
+
+const routes = createRouter('Connections');
+
+const duplicateConnectionResponse = {
+  error: 'Connection already exists',
+  details: [
+    {
+      field: 'host',
+      message: 'A connection with this host, port and database already exists',
+    },
+  ],
+};
+
+// Get database connection details
+routes.get('/api/connection', {
+  summary: 'Get the first visible connection',
+  responses: { 404: 'No connection found' },
+}, async (req: Request, res: Response) => {
+  try {
+    const connection = await prisma.connection.findFirst({
+      where: visibleConnectionsFilter(req.user!),
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+    
+    if (!connection) {
+      res.status(404).json({
+        error: 'No connection found',
+      });
+      return;
+    }
+    
+    res.json({
+      data: toPublicConnection(connection),
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, { 
+      req,
+      additionalContext: { operation: 'fetch_connection' }
+    });
+    
+    res.status(500).json({
+      error: 'Failed to fetch connection',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// List the connections the user can see, with text search and a status filter
+routes.get('/api/connections', {
+  summary: 'List connections',
+  query: connectionsQuerySchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const { page, limit, search, status } = req.query as unknown as z.infer<typeof connectionsQuerySchema>;
+    const skip = (page - 1) * limit;
+    const where = {
+      ...visibleConnectionsFilter(req.user!),
+      ...(search && {
+        OR: [
+          { name: { contains: search } },
+          { host: { contains: search } },
+          { database: { contains: search } },
+        ],
+      }),
+      ...(status && { status }),
+    };
+    
+    const [connections, total] = await Promise.all([
+      prisma.connection.findMany({
+        where,
+        orderBy: { name: 'asc' },
+        skip,
+        take: limit,
+      }),
+      prisma.connection.count({ where }),
+    ]);
+    
+    res.json({
+      // Each connection carries the caller's role on it, so clients can hide actions they can't take
+      data: await withConnectionRoles(req.user!, connections.map(toPublicConnection)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, { 
+      req,
+      additionalContext: { operation: 'fetch_connections', query: req.query }
+    });
+    
+    res.status(500).json({
+      error: 'Failed to fetch connections',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Example GET endpoint with param validation - get connection by ID
+routes.get('/api/connections/:id', {
+  summary: 'Get a connection',
+  params: idParamSchema,
+  connectionRole: 'viewer',
+}, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as unknown as { id: number };
+    
+    const [connection, role] = await Promise.all([
+      prisma.connection.findUnique({
+        where: { id },
+      }),
+      getConnectionRole(req.user!, id),
+    ]);
+    
+    if (!connection || !role) {
+      res.status(404).json({
+        error: 'Connection not found',
+      });
+      return;
+    }
+    
+    res.json({
+      data: { ...toPublicConnection(connection), role },
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, { 
+      req,
+      additionalContext: { operation: 'fetch_connection_by_id', connectionId: req.params.id }
+    });
+    
+    res.status(500).json({
+      error: 'Failed to fetch connection',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Create a connection
+routes.post('/api/connections', {
+  summary: 'Create a connection',
+  role: 'editor',
+  body: createConnectionSchema,
+  status: 201,
+  responses: { 409: 'Connection already exists' },
+}, async (req: Request, res: Response) => {
+  try {
+    const { secrets, fields } = splitCredentialInput(req.body as z.infer<typeof createConnectionSchema>);
+    const user = req.user!;
+
+    const connection = await prisma.connection.create({
+      data: {
+        ...fields,
+        ...encryptCredentialInput(secrets),
+        // Editors keep access to the connections they add
+        ...(user.role !== 'admin' && {
+          grants: { create: { userId: user.id, role: 'editor' } },
+        }),
+      },
+    });
+
+    await recordAudit(req, {
+      action: 'connection.create',
+      connectionId: connection.id,
+      changes: diffFields(null, connection),
+    });
+
+    res.status(201).json({
+      data: toPublicConnection(connection),
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      res.status(409).json(duplicateConnectionResponse);
+      return;
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'create_connection' }
+    });
+
+    res.status(500).json({
+      error: 'Failed to create connection',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Update a connection
+routes.patch(
+  '/api/connections/:id',
+  {
+    summary: 'Update a connection',
+    params: idParamSchema,
+    body: updateConnectionSchema,
+    connectionRole: 'editor',
+    responses: { 409: 'Connection already exists' },
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as unknown as { id: number };
+      const { secrets, fields } = splitCredentialInput(req.body as z.infer<typeof updateConnectionSchema>);
+
+      const existing = await prisma.connection.findUnique({
+        where: { id },
+      });
+
+      if (!existing) {
+        res.status(404).json({
+          error: 'Connection not found',
+        });
+        return;
+      }
+
+      // Driver, host, port, database, TLS and tunnel settings are only valid in combination, so
+      // check them as they will be stored once this update is applied
+      if (Object.keys(connectionTargetSchema.shape).some((field) => field in req.body)) {
+        const target = connectionTargetSchema.safeParse({
+          ...existing,
+          ...fields,
+          sshPrivateKey:
+            secrets.sshPrivateKey !== undefined ? secrets.sshPrivateKey : existing.sshPrivateKeyEncrypted,
+          sshPassword:
+            secrets.sshPassword !== undefined ? secrets.sshPassword : existing.sshPasswordEncrypted,
+        });
+        if (!target.success) {
+          res.status(400).json({
+            error: 'Validation Error',
+            details: target.error.issues.map((issue) => ({
+              field: issue.path.join('.'),
+              message: issue.message,
+            })),
+          });
+          return;
+        }
+      }
+
+      const connection = await prisma.connection.update({
+        where: { id },
+        data: {
+          ...fields,
+          ...encryptCredentialInput(secrets),
+        },
+      });
+      invalidateConnectionSchema(id);
+
+      const changes = diffFields(existing, connection);
+      await recordAudit(req, { action: 'connection.update', connectionId: id, changes });
+      // Credential changes get their own event so they can be filtered for separately
+      if (Object.values(secrets).some((value) => value !== undefined)) {
+        await recordAudit(req, {
+          action: 'connection.credentials_change',
+          connectionId: id,
+          metadata: {
+            usernameChanged: secrets.username !== undefined,
+            passwordChanged: secrets.password !== undefined,
+            sslKeyChanged: secrets.sslKey !== undefined,
+            sshPrivateKeyChanged: secrets.sshPrivateKey !== undefined,
+            sshPasswordChanged: secrets.sshPassword !== undefined,
+          },
+        });
+      }
+
+      res.json({
+        data: toPublicConnection(connection),
+      });
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        res.status(409).json(duplicateConnectionResponse);
+        return;
+      }
+
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: { operation: 'update_connection', connectionId: req.params.id }
+      });
+
+      res.status(500).json({
+        error: 'Failed to update connection',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+// Delete a connection
+routes.delete('/api/connections/:id', {
+  summary: 'Delete a connection',
+  params: idParamSchema,
+  connectionRole: 'editor',
+}, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as unknown as { id: number };
+
+    const existing = await prisma.connection.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      res.status(404).json({
+        error: 'Connection not found',
+      });
+      return;
+    }
+
+    const connection = await prisma.connection.delete({
+      where: { id },
+    });
+    invalidateConnectionSchema(id);
+    await recordAudit(req, {
+      action: 'connection.delete',
+      connectionId: id,
+      changes: diffFields(existing, null),
+    });
+
+    res.json({
+      data: toPublicConnection(connection),
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'delete_connection', connectionId: req.params.id }
+    });
+
+    res.status(500).json({
+      error: 'Failed to delete connection',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Create connections from a connection URL or from the URLs in a .env file. Nothing is
+// created unless every entry is valid.
+routes.post('/api/connections/import', {
+  summary: 'Import connections from a URL or .env file',
+  role: 'editor',
+  body: importConnectionsSchema,
+  status: 201,
+  responses: { 409: 'Connection already exists' },
+}, async (req: Request, res: Response) => {
+  try {
+    const { url, env: envFile, name } = req.body as z.infer<typeof importConnectionsSchema>;
+    const user = req.user!;
+
+    // [field prefix, URL, name]; errors in a .env file are reported against the variable
+    const entries: [string, string, string | undefined][] =
+      url !== undefined
+        ? [['url', url, name]]
+        : findConnectionUrls(envFile ?? '').map(([key, value]) => [key, value, key]);
+
+    if (entries.length === 0) {
+      res.status(400).json({
+        error: 'Validation Error',
+        details: [
+          {
+            field: 'env',
+            message: 'No connection URLs found',
+          },
+        ],
+      });
+      return;
+    }
+
+    const details: { field: string; message: string }[] = [];
+    const imports: { field: string; input: z.infer<typeof createConnectionSchema>; ignoredOptions: string[] }[] = [];
+
+    for (const [field, value, entryName] of entries) {
+      try {
+        const { fields, ignoredOptions } = connectionFieldsFromUrl(parseConnectionUrl(value));
+        const parsed = createConnectionSchema.safeParse({
+          name: entryName ?? (fields.host !== null ? `${fields.database} on ${fields.host}` : fields.database),
+          ...fields,
+        });
+
+        if (parsed.success) {
+          imports.push({ field, input: parsed.data, ignoredOptions });
+        } else {
+          details.push(
+            ...parsed.error.issues.map((issue) => ({
+              field: [field, ...issue.path].join('.'),
+              message: issue.message,
+            }))
+          );
+        }
+      } catch (error) {
+        if (!(error instanceof ConnectionUrlError)) throw error;
+        details.push({ field, message: error.message });
+      }
+    }
+
+    if (details.length > 0) {
+      res.status(400).json({
+        error: 'Validation Error',
+        details,
+      });
+      return;
+    }
+
+    const connections = await prisma.$transaction(
+      imports.map(({ input }) => {
+        const { secrets, fields } = splitCredentialInput(input);
+        return prisma.connection.create({
+          data: {
+            ...fields,
+            ...encryptCredentialInput(secrets),
+            ...(user.role !== 'admin' && {
+              grants: { create: { userId: user.id, role: 'editor' } },
+            }),
+          },
+        });
+      })
+    );
+
+    const data = [];
+    for (const [index, connection] of connections.entries()) {
+      const imported = imports[index];
+      await recordAudit(req, {
+        action: 'connection.create',
+        connectionId: connection.id,
+        changes: diffFields(null, connection),
+        metadata: { importedFrom: imported?.field },
+      });
+      data.push({
+        connection: toPublicConnection(connection),
+        // URL options with no matching connection setting, e.g. charset
+        ignoredOptions: imported?.ignoredOptions ?? [],
+      });
+    }
+
+    res.status(201).json({
+      data,
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      res.status(409).json(duplicateConnectionResponse);
+      return;
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'import_connections' }
+    });
+
+    res.status(500).json({
+      error: 'Failed to import connections',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Test a connection payload without saving it
+routes.post('/api/connections/test', {
+  summary: 'Test unsaved connection settings',
+  role: 'editor',
+  body: testUnsavedConnectionSchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const { timeoutMs, ...settings } = req.body as z.infer<typeof testUnsavedConnectionSchema>;
+
+    const result = await testConnection(buildConnectionTarget(settings), timeoutMs);
+
+    res.json({
+      data: result,
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'test_unsaved_connection' }
+    });
+
+    res.status(500).json({
+      error: 'Failed to test connection',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// The connection as a URL. Credentials are masked unless reveal=true is asked for by an
+// editor, and every reveal is audited.
+routes.get(
+  '/api/connections/:id/url',
+  {
+    summary: 'Get a connection URL',
+    params: idParamSchema,
+    query: connectionUrlQuerySchema,
+    connectionRole: 'viewer',
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as unknown as { id: number };
+      const { reveal = false } = req.query as unknown as z.infer<typeof connectionUrlQuerySchema>;
+
+      if (reveal) {
+        const role = await getConnectionRole(req.user!, id);
+        if (!role || !hasRole(role, 'editor')) {
+          sendForbidden(res, 'editor');
+          return;
+        }
+      }
+
+      const connection = await prisma.connection.findUnique({
+        where: { id },
+      });
+
+      if (!connection) {
+        res.status(404).json({
+          error: 'Connection not found',
+        });
+        return;
+      }
+
+      const url = connectionUrlFor({ ...connection, ...decryptConnectionCredentials(connection) });
+
+      if (reveal) {
+        await recordAudit(req, {
+          action: 'connection.url_reveal',
+          connectionId: id,
+        });
+      }
+
+      res.json({
+        data: {
+          url: formatConnectionUrl(url, { maskCredentials: !reveal }),
+          masked: !reveal,
+        },
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: { operation: 'fetch_connection_url', connectionId: req.params.id }
+      });
+
+      res.status(500).json({
+        error: 'Failed to fetch connection URL',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+// Test a stored connection and record the outcome on it
+routes.post(
+  '/api/connections/:id/test',
+  {
+    summary: 'Test a connection',
+    params: idParamSchema,
+    body: testConnectionSchema,
+    connectionRole: 'editor',
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as unknown as { id: number };
+      const { timeoutMs } = req.body as z.infer<typeof testConnectionSchema>;
+
+      const connection = await prisma.connection.findUnique({
+        where: { id },
+      });
+
+      if (!connection) {
+        res.status(404).json({
+          error: 'Connection not found',
+        });
+        return;
+      }
+
+      const { result, connection: updated } = await runConnectionCheck(connection, timeoutMs);
+
+      res.json({
+        data: {
+          result,
+          connection: toPublicConnection(updated),
+        },
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: { operation: 'test_connection', connectionId: req.params.id }
+      });
+
+      res.status(500).json({
+        error: 'Failed to test connection',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+// Health check history for a connection, with uptime over the selected range
+routes.get(
+  '/api/connections/:id/checks',
+  {
+    summary: 'List health checks for a connection',
+    params: idParamSchema,
+    query: connectionChecksQuerySchema,
+    connectionRole: 'viewer',
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as unknown as { id: number };
+      const { page, limit, from, to } = req.query as unknown as z.infer<typeof connectionChecksQuerySchema>;
+      const skip = (page - 1) * limit;
+
+      const connection = await prisma.connection.findUnique({
+        where: { id },
+      });
+
+      if (!connection) {
+        res.status(404).json({
+          error: 'Connection not found',
+        });
+        return;
+      }
+
+      const where = {
+        connectionId: id,
+        ...((from || to) && {
+          checkedAt: {
+            ...(from && { gte: from }),
+            ...(to && { lte: to }),
+          },
+        }),
+      };
+
+      const [checks, total, successful, latency] = await Promise.all([
+        prisma.connectionCheck.findMany({
+          where,
+          orderBy: { checkedAt: 'desc' },
+          skip,
+          take: limit,
+        }),
+        prisma.connectionCheck.count({ where }),
+        prisma.connectionCheck.count({ where: { ...where, outcome: 'success' } }),
+        prisma.connectionCheck.aggregate({
+          where: { ...where, outcome: 'success' },
+          _avg: { latencyMs: true },
+        }),
+      ]);
+
+      res.json({
+        data: checks,
+        summary: {
+          total,
+          successful,
+          failed: total - successful,
+          uptimePercentage: total > 0 ? Math.round((successful / total) * 10000) / 100 : null,
+          averageLatencyMs:
+            latency._avg.latencyMs !== null ? Math.round(latency._avg.latencyMs) : null,
+        },
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: { operation: 'fetch_connection_checks', connectionId: req.params.id }
+      });
+
+      res.status(500).json({
+        error: 'Failed to fetch connection checks',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+// Schema introspection for a stored connection (cached per connection)
+const sendConnectionSchema = (refresh: boolean) => async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as unknown as { id: number };
+
+    const connection = await prisma.connection.findUnique({
+      where: { id },
+    });
+
+    if (!connection) {
+      res.status(404).json({
+        error: 'Connection not found',
+      });
+      return;
+    }
+
+    const { schema, cached } = await getConnectionSchema(id, toConnectionTarget(connection), {
+      refresh,
+    });
+
+    res.json({
+      data: schema,
+      cached,
+    });
+  } catch (error) {
+    if (error instanceof TargetDatabaseError) {
+      sendTargetDatabaseError(res, error);
+      return;
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'introspect_schema', connectionId: req.params.id, refresh }
+    });
+
+    res.status(500).json({
+      error: 'Failed to introspect schema',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+};
+
+routes.get(
+  '/api/connections/:id/schema',
+  {
+    summary: 'Get the schema of a connection',
+    params: idParamSchema,
+    connectionRole: 'viewer',
+    responses: TARGET_DATABASE_ERRORS,
+  },
+  sendConnectionSchema(false)
+);
+
+// Discard the cached schema and read it again from the target database
+routes.post(
+  '/api/connections/:id/schema/refresh',
+  {
+    summary: 'Refresh the cached schema of a connection',
+    params: idParamSchema,
+    connectionRole: 'viewer',
+    responses: TARGET_DATABASE_ERRORS,
+  },
+  sendConnectionSchema(true)
+);
+
+// The first rows of a table in the connection's schema, for the schema browser. Previews
+// are not recorded in the query history.
+routes.get(
+  '/api/connections/:id/schema/tables/:table/rows',
+  {
+    summary: 'Preview the rows of a table',
+    params: tablePreviewParamsSchema,
+    connectionRole: 'viewer',
+    responses: TARGET_DATABASE_ERRORS,
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id, table } = req.params as unknown as z.infer<typeof tablePreviewParamsSchema>;
+
+      const connection = await prisma.connection.findUnique({
+        where: { id },
+      });
+
+      if (!connection) {
+        res.status(404).json({
+          error: 'Connection not found',
+        });
+        return;
+      }
+
+      const target = toConnectionTarget(connection);
+      const { schema } = await getConnectionSchema(id, target);
+
+      if (!schema.tables.some((entry) => entry.name === table)) {
+        res.status(404).json({
+          error: 'Table not found',
+        });
+        return;
+      }
+
+      res.json({
+        data: await previewTable(target, table),
+      });
+    } catch (error) {
+      if (error instanceof TargetDatabaseError) {
+        sendTargetDatabaseError(res, error);
+        return;
+      }
+
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: { operation: 'preview_table', connectionId: req.params.id }
+      });
+
+      res.status(500).json({
+        error: 'Failed to preview table',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+// Run an ad-hoc statement against a stored connection
+routes.post(
+  '/api/connections/:id/query',
+  {
+    summary: 'Run a statement against a connection',
+    params: idParamSchema,
+    body: runQuerySchema,
+    connectionRole: 'viewer',
+    responses: TARGET_DATABASE_ERRORS,
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as unknown as { id: number };
+      const { sql, maxRows, timeoutMs, parameters } = req.body as z.infer<typeof runQuerySchema>;
+
+      const connection = await prisma.connection.findUnique({
+        where: { id },
+      });
+
+      if (!connection) {
+        res.status(404).json({
+          error: 'Connection not found',
+        });
+        return;
+      }
+
+      const target = toConnectionTarget(connection);
+
+      // Viewers may read; statements that can write need the editor role on this connection
+      if (!isReadOnlyStatement(target, sql)) {
+        const role = await getConnectionRole(req.user!, id);
+        if (!role || !hasRole(role, 'editor')) {
+          sendForbidden(res, 'editor');
+          return;
+        }
+      }
+
+      const result = await runAndRecordQuery(
+        target,
+        { connectionId: id, sql, auditRequest: req },
+        { maxRows, timeoutMs, parameters }
+      );
+
+      res.json({
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof TargetDatabaseError) {
+        sendTargetDatabaseError(res, error);
+        return;
+      }
+
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: { operation: 'run_query', connectionId: req.params.id }
+      });
+
+      res.status(500).json({
+        error: 'Failed to run query',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+// List the users granted access to a connection
+routes.get(
+  '/api/connections/:id/grants',
+  {
+    summary: 'List access grants for a connection',
+    params: idParamSchema,
+    connectionRole: 'admin',
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as unknown as { id: number };
+
+      const grants = await prisma.connectionGrant.findMany({
+        where: { connectionId: id },
+        include: { user: { select: { id: true, email: true, name: true, role: true } } },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      res.json({
+        data: grants,
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: { operation: 'fetch_connection_grants', connectionId: req.params.id }
+      });
+
+      res.status(500).json({
+        error: 'Failed to fetch connection grants',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+// Grant a user access to a connection, or change the role of an existing grant
+routes.put(
+  '/api/connections/:id/grants/:userId',
+  {
+    summary: 'Grant a user access to a connection',
+    params: connectionGrantParamsSchema,
+    body: connectionGrantSchema,
+    connectionRole: 'admin',
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id, userId } = req.params as unknown as z.infer<typeof connectionGrantParamsSchema>;
+      const { role } = req.body as z.infer<typeof connectionGrantSchema>;
+
+      const [connection, user] = await Promise.all([
+        prisma.connection.findUnique({ where: { id } }),
+        prisma.user.findUnique({ where: { id: userId } }),
+      ]);
+
+      if (!connection) {
+        res.status(404).json({
+          error: 'Connection not found',
+        });
+        return;
+      }
+
+      if (!user) {
+        res.status(404).json({
+          error: 'User not found',
+        });
+        return;
+      }
+
+      const previous = await prisma.connectionGrant.findUnique({
+        where: { userId_connectionId: { userId, connectionId: id } },
+      });
+      const grant = await prisma.connectionGrant.upsert({
+        where: { userId_connectionId: { userId, connectionId: id } },
+        create: { userId, connectionId: id, role },
+        update: { role },
+        include: { user: { select: { id: true, email: true, name: true, role: true } } },
+      });
+
+      await recordAudit(req, {
+        action: 'connection.grant_update',
+        connectionId: id,
+        changes: diffFields({ role: previous?.role ?? null }, { role }),
+        metadata: { userId, email: user.email },
+      });
+
+      res.json({
+        data: grant,
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: {
+          operation: 'update_connection_grant',
+          connectionId: req.params.id,
+          userId: req.params.userId,
+        }
+      });
+
+      res.status(500).json({
+        error: 'Failed to update connection grant',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+// Revoke a user's access to a connection
+routes.delete(
+  '/api/connections/:id/grants/:userId',
+  {
+    summary: 'Revoke a user\'s access to a connection',
+    params: connectionGrantParamsSchema,
+    connectionRole: 'admin',
+    status: 204,
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id, userId } = req.params as unknown as z.infer<typeof connectionGrantParamsSchema>;
+
+      const { count } = await prisma.connectionGrant.deleteMany({
+        where: { userId, connectionId: id },
+      });
+
+      if (count === 0) {
+        res.status(404).json({
+          error: 'Grant not found',
+        });
+        return;
+      }
+
+      await recordAudit(req, {
+        action: 'connection.grant_delete',
+        connectionId: id,
+        metadata: { userId },
+      });
+
+      res.status(204).end();
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: {
+          operation: 'delete_connection_grant',
+          connectionId: req.params.id,
+          userId: req.params.userId,
+        }
+      });
+
+      res.status(500).json({
+        error: 'Failed to delete connection grant',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+export default routes;
@@ -0,0 +1,315 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { env } from '../lib/env';
+import prisma from '../lib/prisma';
+import { createRouter } from '../lib/router';
+import { logError } from '../lib/errors';
+import type { AuthUser } from '../lib/auth';
+import { visibleChartsFilter, visibleSavedQueriesFilter, visibleWidgetsFilter } from '../lib/permissions';
+import { idParamSchema, paginationSchema } from '../schemas/common';
+import {
+  createDashboardSchema,
+  dashboardWidgetsSchema,
+  updateDashboardSchema,
+} from '../schemas/dashboards';
+
+const routes = createRouter('Dashboards');
+
+// Widgets the user may see, with what the grid needs to render them
+const dashboardWidgetInclude = (user: AuthUser) => ({
+  widgets: {
+    where: visibleWidgetsFilter(user),
+    orderBy: { position: 'asc' as const },
+    include: {
+      chart: true,
+      savedQuery: { select: { id: true, name: true, connectionId: true } },
+    },
+  },
+});
+
+// List dashboards
+routes.get('/api/dashboards', {
+  summary: 'List dashboards',
+  query: paginationSchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const { page, limit } = req.query as unknown as { page: number; limit: number };
+    const skip = (page - 1) * limit;
+
+    const [dashboards, total] = await Promise.all([
+      prisma.dashboard.findMany({
+        include: { _count: { select: { widgets: { where: visibleWidgetsFilter(req.user!) } } } },
+        orderBy: { updatedAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.dashboard.count(),
+    ]);
+
+    res.json({
+      data: dashboards,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'fetch_dashboards', query: req.query }
+    });
+
+    res.status(500).json({
+      error: 'Failed to fetch dashboards',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Get a dashboard with its widgets
+routes.get('/api/dashboards/:id', {
+  summary: 'Get a dashboard',
+  params: idParamSchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as unknown as { id: number };
+
+    const dashboard = await prisma.dashboard.findUnique({
+      where: { id },
+      include: dashboardWidgetInclude(req.user!),
+    });
+
+    if (!dashboard) {
+      res.status(404).json({
+        error: 'Dashboard not found',
+      });
+      return;
+    }
+
+    res.json({
+      data: dashboard,
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'fetch_dashboard_by_id', dashboardId: req.params.id }
+    });
+
+    res.status(500).json({
+      error: 'Failed to fetch dashboard',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Create a dashboard
+routes.post('/api/dashboards', {
+  summary: 'Create a dashboard',
+  body: createDashboardSchema,
+  status: 201,
+}, async (req: Request, res: Response) => {
+  try {
+    const dashboard = await prisma.dashboard.create({
+      data: req.body as z.infer<typeof createDashboardSchema>,
+      include: dashboardWidgetInclude(req.user!),
+    });
+
+    res.status(201).json({
+      data: dashboard,
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'create_dashboard' }
+    });
+
+    res.status(500).json({
+      error: 'Failed to create dashboard',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Update a dashboard's settings
+routes.patch(
+  '/api/dashboards/:id',
+  {
+    summary: 'Update a dashboard',
+    params: idParamSchema,
+    body: updateDashboardSchema,
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as unknown as { id: number };
+
+      const existing = await prisma.dashboard.findUnique({
+        where: { id },
+      });
+
+      if (!existing) {
+        res.status(404).json({
+          error: 'Dashboard not found',
+        });
+        return;
+      }
+
+      const dashboard = await prisma.dashboard.update({
+        where: { id },
+        data: req.body as z.infer<typeof updateDashboardSchema>,
+        include: dashboardWidgetInclude(req.user!),
+      });
+
+      res.json({
+        data: dashboard,
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: { operation: 'update_dashboard', dashboardId: req.params.id }
+      });
+
+      res.status(500).json({
+        error: 'Failed to update dashboard',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+// Replace a dashboard's widgets and layout
+routes.put(
+  '/api/dashboards/:id/widgets',
+  {
+    summary: 'Replace the widgets of a dashboard',
+    params: idParamSchema,
+    body: dashboardWidgetsSchema,
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as unknown as { id: number };
+      const { widgets } = req.body as z.infer<typeof dashboardWidgetsSchema>;
+
+      const existing = await prisma.dashboard.findUnique({
+        where: { id },
+      });
+
+      if (!existing) {
+        res.status(404).json({
+          error: 'Dashboard not found',
+        });
+        return;
+      }
+
+      const chartIds = [...new Set(widgets.flatMap((widget) => (widget.kind === 'chart' ? [widget.chartId] : [])))];
+      const savedQueryIds = [
+        ...new Set(widgets.flatMap((widget) => (widget.kind === 'kpi' ? [widget.savedQueryId] : []))),
+      ];
+
+      // Charts and saved queries on connections the user can't see count as missing
+      const [chartCount, savedQueryCount] = await Promise.all([
+        prisma.chart.count({ where: { id: { in: chartIds }, ...visibleChartsFilter(req.user!) } }),
+        prisma.savedQuery.count({ where: { id: { in: savedQueryIds }, ...visibleSavedQueriesFilter(req.user!) } }),
+      ]);
+
+      if (chartCount !== chartIds.length || savedQueryCount !== savedQueryIds.length) {
+        res.status(400).json({
+          error: 'Validation Error',
+          details: [
+            {
+              field: 'widgets',
+              message: 'One or more widgets reference a chart or saved query that does not exist',
+            },
+          ],
+        });
+        return;
+      }
+
+      const [, , dashboard] = await prisma.$transaction([
+        // Widgets the user can't see were never sent to them, so they stay as they are
+        prisma.dashboardWidget.deleteMany({ where: { dashboardId: id, ...visibleWidgetsFilter(req.user!) } }),
+        prisma.dashboardWidget.createMany({
+          data: widgets.map((widget, position) => ({
+            dashboardId: id,
+            position,
+            ...widget,
+          })),
+        }),
+        // Touch updatedAt so the dashboard list reflects layout changes
+        prisma.dashboard.update({
+          where: { id },
+          data: { updatedAt: new Date() },
+          include: dashboardWidgetInclude(req.user!),
+        }),
+      ]);
+
+      res.json({
+        data: dashboard,
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: { operation: 'update_dashboard_widgets', dashboardId: req.params.id }
+      });
+
+      res.status(500).json({
+        error: 'Failed to update dashboard widgets',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+// Delete a dashboard
+routes.delete('/api/dashboards/:id', {
+  summary: 'Delete a dashboard',
+  params: idParamSchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as unknown as { id: number };
+
+    const existing = await prisma.dashboard.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      res.status(404).json({
+        error: 'Dashboard not found',
+      });
+      return;
+    }
+
+    const dashboard = await prisma.dashboard.delete({
+      where: { id },
+    });
+
+    res.json({
+      data: dashboard,
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'delete_dashboard', dashboardId: req.params.id }
+    });
+
+    res.status(500).json({
+      error: 'Failed to delete dashboard',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+export default routes;
@@ -0,0 +1,135 @@
+import type { Request, Response } from 'express';
+import { env } from '../lib/env';
+import { createRouter } from '../lib/router';
+import { logError } from '../lib/errors';
+import {
+  checkConfiguration,
+  checkDatabase,
+  checkMigrations,
+  getPoolStats,
+} from '../lib/healthChecks';
+import { getPrismaQueryStats } from '../lib/metrics';
+import { isDraining } from '../lib/lifecycle';
+
+const routes = createRouter('Health');
+
+// Liveness: the process is up and serving requests. Nothing external is checked, so a
+// database outage doesn't get the container restarted.
+routes.get('/health/live', {
+  summary: 'Liveness probe',
+  auth: false,
+}, (_req: Request, res: Response) => {
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+  });
+});
+
+const runReadinessChecks = async () => {
+  const [database, migrations, configuration] = await Promise.all([
+    checkDatabase(),
+    checkMigrations(),
+    checkConfiguration(),
+  ]);
+  return { database, migrations, configuration };
+};
+
+// Readiness: the database is reachable, migrations are applied and configuration is complete.
+// A server that is shutting down is never ready, so load balancers stop routing to it.
+const sendReadiness = async (_req: Request, res: Response) => {
+  if (isDraining()) {
+    res.status(503).json({
+      status: 'error',
+      timestamp: new Date().toISOString(),
+      environment: env.NODE_ENV,
+      message: 'Server is shutting down',
+    });
+    return;
+  }
+
+  const checks = await runReadinessChecks();
+  const isReady = Object.values(checks).every((check) => check.status === 'ok');
+
+  res.status(isReady ? 200 : 503).json({
+    status: isReady ? 'ok' : 'error',
+    timestamp: new Date().toISOString(),
+    environment: env.NODE_ENV,
+    // Only status and message here; durations and migration names are on /health/details
+    checks: Object.fromEntries(
+      Object.entries(checks).map(([name, { status, message }]) => [name, { status, message }])
+    ),
+  });
+};
+
+routes.get('/health/ready', {
+  summary: 'Readiness probe',
+  auth: false,
+  responses: { 503: 'Not ready, or shutting down' },
+}, sendReadiness);
+
+// Kept for existing probes and monitors; same as /health/ready
+routes.get('/health', {
+  summary: 'Readiness probe (alias of /health/ready)',
+  auth: false,
+  responses: { 503: 'Not ready, or shutting down' },
+}, sendReadiness);
+
+// Diagnostics for signed-in users: check timings, pool usage, query statistics and pending migrations
+routes.get('/health/details', {
+  summary: 'Health diagnostics',
+  responses: { 503: 'Not ready, or shutting down' },
+}, async (req: Request, res: Response) => {
+  try {
+    const [checks, pool, queries] = await Promise.all([
+      runReadinessChecks(),
+      getPoolStats(),
+      getPrismaQueryStats(),
+    ]);
+    const isReady = !isDraining() && Object.values(checks).every((check) => check.status === 'ok');
+    const memory = process.memoryUsage();
+
+    res.status(isReady ? 200 : 503).json({
+      status: isReady ? 'ok' : 'error',
+      timestamp: new Date().toISOString(),
+      environment: env.NODE_ENV,
+      draining: isDraining(),
+      checks: {
+        database: checks.database,
+        migrations: {
+          status: checks.migrations.status,
+          message: checks.migrations.message,
+          durationMs: checks.migrations.durationMs,
+          pending: checks.migrations.details ?? null,
+        },
+        configuration: checks.configuration,
+      },
+      pool,
+      queries,
+      process: {
+        uptime: process.uptime(),
+        version: process.version,
+        platform: process.platform,
+        memory: {
+          rss: memory.rss,
+          heapUsed: memory.heapUsed,
+          heapTotal: memory.heapTotal,
+        },
+      },
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'health_details' }
+    });
+
+    res.status(500).json({
+      error: 'Failed to collect health details',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+export default routes;
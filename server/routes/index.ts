@@ -0,0 +1,66 @@
+import express, { type Express, type Request, type Response } from 'express';
+import path from 'path';
+import type { ApiRouter } from '../lib/router';
+import { buildOpenApiDocument } from '../lib/openapi';
+import health from './health';
+import metrics from './metrics';
+import auth from './auth';
+import api from './api';
+import connections from './connections';
+import savedQueries from './savedQueries';
+import queryHistory from './queryHistory';
+import charts from './charts';
+import dashboards from './dashboards';
+import audit from './audit';
+
+// Every resource router, in registration order. Routes are declared with their full path,
+// so order only matters where two patterns could match the same URL.
+const routers: ApiRouter[] = [
+  health,
+  metrics,
+  auth,
+  api,
+  connections,
+  savedQueries,
+  queryHistory,
+  charts,
+  dashboards,
+  audit,
+];
+
+const SWAGGER_UI_DIR = path.dirname(require.resolve('swagger-ui-dist/package.json'));
+
+const DOCS_PAGE = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Sferal API</title>
+    <link rel="stylesheet" href="/api/docs/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="/api/docs/swagger-ui-bundle.js"></script>
+    <script>
+      SwaggerUIBundle({ url: '/api/openapi.json', dom_id: '#swagger-ui', withCredentials: true });
+    </script>
+  </body>
+</html>
+`;
+
+export function registerRoutes(app: Express) {
+  // The spec and its viewer are public so other services can generate clients from it
+  const openApiDocument = buildOpenApiDocument(routers);
+
+  app.get('/api/openapi.json', (_req: Request, res: Response) => {
+    res.json(openApiDocument);
+  });
+
+  app.get('/api/docs', (_req: Request, res: Response) => {
+    res.type('html').send(DOCS_PAGE);
+  });
+  app.use('/api/docs', express.static(SWAGGER_UI_DIR, { index: false }));
+
+  for (const { router } of routers) {
+    app.use(router);
+  }
+}
@@ -0,0 +1,58 @@
+import type { Request, Response } from 'express';
+import crypto from 'crypto';
+import { env } from '../lib/env';
+import { createRouter } from '../lib/router';
+import { logError } from '../lib/errors';
+import { metricsRegistry } from '../lib/metrics';
+
+const routes = createRouter('Metrics');
+
+// Prometheus scrape endpoint. Disabled with METRICS_ENABLED=false; when METRICS_TOKEN is set
+// the scraper must send it as a bearer token.
+const hashMetricsToken = (token: string) => crypto.createHash('sha256').update(token).digest();
+
+routes.get('/metrics', {
+  summary: 'Prometheus metrics',
+  description: 'Requires METRICS_TOKEN as a bearer token when it is configured.',
+  auth: false,
+  contentType: 'text/plain',
+  responses: { 401: 'Missing or wrong metrics token', 404: 'Metrics are disabled' },
+}, async (req: Request, res: Response) => {
+  if (!env.METRICS_ENABLED) {
+    res.status(404).json({
+      error: 'Not Found',
+      path: req.path,
+    });
+    return;
+  }
+
+  if (env.METRICS_TOKEN) {
+    const provided = req.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    // Compare digests so the check takes the same time whatever the token length
+    if (!crypto.timingSafeEqual(hashMetricsToken(provided), hashMetricsToken(env.METRICS_TOKEN))) {
+      res.status(401).json({
+        error: 'Authentication required',
+      });
+      return;
+    }
+  }
+
+  try {
+    res.setHeader('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'collect_metrics' }
+    });
+
+    res.status(500).json({
+      error: 'Failed to collect metrics',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+export default routes;
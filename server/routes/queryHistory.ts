@@ -0,0 +1,63 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { env } from '../lib/env';
+import prisma from '../lib/prisma';
+import { createRouter } from '../lib/router';
+import { logError } from '../lib/errors';
+import { visibleConnectionsFilter } from '../lib/permissions';
+import { queryHistoryQuerySchema } from '../schemas/queries';
+
+const routes = createRouter('Query history');
+
+// Query history, newest first
+routes.get('/api/query-history', {
+  summary: 'List query history',
+  query: queryHistoryQuerySchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const { page, limit, search, connectionId, success } = req.query as unknown as z.infer<typeof queryHistoryQuerySchema>;
+    const skip = (page - 1) * limit;
+
+    const where = {
+      // History of hidden connections would give away their SQL
+      connection: visibleConnectionsFilter(req.user!),
+      ...(search && { sql: { contains: search } }),
+      ...(connectionId && { connectionId }),
+      ...(success !== undefined && { success }),
+    };
+
+    const [history, total] = await Promise.all([
+      prisma.queryHistory.findMany({
+        where,
+        orderBy: { executedAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.queryHistory.count({ where }),
+    ]);
+
+    res.json({
+      data: history,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'fetch_query_history', query: req.query }
+    });
+
+    res.status(500).json({
+      error: 'Failed to fetch query history',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+export default routes;
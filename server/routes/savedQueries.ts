@@ -0,0 +1,403 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { env } from '../lib/env';
+import prisma from '../lib/prisma';
+import { createRouter } from '../lib/router';
+import { TARGET_DATABASE_ERRORS, logError, sendTargetDatabaseError } from '../lib/errors';
+import { TargetDatabaseError, toConnectionTarget } from '../lib/targetDatabase';
+import { runAndRecordQuery } from '../lib/queryHistory';
+import { isReadOnlyStatement } from '../lib/queryRunner';
+import type { AuthUser } from '../lib/auth';
+import {
+  getConnectionRole,
+  sendForbidden,
+  visibleConnectionsFilter,
+  visibleSavedQueriesFilter,
+} from '../lib/permissions';
+import { hasRole } from '../lib/roles';
+import { idParamSchema } from '../schemas/common';
+import {
+  createSavedQuerySchema,
+  runSavedQuerySchema,
+  savedQueriesQuerySchema,
+  sqlStatementSchema,
+  updateSavedQuerySchema,
+} from '../schemas/queries';
+
+const routes = createRouter('Saved queries');
+
+// Build the Prisma filter shared by the saved query list endpoint
+const savedQueryFilter = ({ search, tag, connectionId }: z.infer<typeof savedQueriesQuerySchema>) => ({
+  ...(search && {
+    OR: [
+      { name: { contains: search } },
+      { description: { contains: search } },
+      { sql: { contains: search } },
+    ],
+  }),
+  ...(tag && { tags: { array_contains: [tag] } }),
+  ...(connectionId && { connectionId }),
+});
+
+// List saved queries with text and tag search
+routes.get('/api/saved-queries', {
+  summary: 'List saved queries',
+  query: savedQueriesQuerySchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const query = req.query as unknown as z.infer<typeof savedQueriesQuerySchema>;
+    const { page, limit } = query;
+    const skip = (page - 1) * limit;
+    const where = { AND: [visibleSavedQueriesFilter(req.user!), savedQueryFilter(query)] };
+
+    const [savedQueries, total] = await Promise.all([
+      prisma.savedQuery.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.savedQuery.count({ where }),
+    ]);
+
+    res.json({
+      data: savedQueries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'fetch_saved_queries', query: req.query }
+    });
+
+    res.status(500).json({
+      error: 'Failed to fetch saved queries',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Distinct tags across all saved queries, for tag pickers
+routes.get('/api/saved-queries/tags', {
+  summary: 'List saved query tags',
+}, async (req: Request, res: Response) => {
+  try {
+    const savedQueries: { tags: unknown }[] = await prisma.savedQuery.findMany({
+      where: visibleSavedQueriesFilter(req.user!),
+      select: { tags: true },
+    });
+
+    const tags = new Set<string>();
+    for (const { tags: entry } of savedQueries) {
+      if (Array.isArray(entry)) {
+        entry.forEach((tag) => typeof tag === 'string' && tags.add(tag));
+      }
+    }
+
+    res.json({
+      data: [...tags].sort((a, b) => a.localeCompare(b)),
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'fetch_saved_query_tags' }
+    });
+
+    res.status(500).json({
+      error: 'Failed to fetch saved query tags',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Get a saved query by ID
+routes.get('/api/saved-queries/:id', {
+  summary: 'Get a saved query',
+  params: idParamSchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as unknown as { id: number };
+
+    const savedQuery = await prisma.savedQuery.findFirst({
+      where: { id, ...visibleSavedQueriesFilter(req.user!) },
+    });
+
+    if (!savedQuery) {
+      res.status(404).json({
+        error: 'Saved query not found',
+      });
+      return;
+    }
+
+    res.json({
+      data: savedQuery,
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'fetch_saved_query_by_id', savedQueryId: req.params.id }
+    });
+
+    res.status(500).json({
+      error: 'Failed to fetch saved query',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Connections the user holds no grant on look missing, so their existence isn't revealed
+const findVisibleConnection = (user: AuthUser, id: number) =>
+  prisma.connection.findFirst({ where: { id, ...visibleConnectionsFilter(user) } });
+
+const connectionNotFoundDetails = {
+  error: 'Validation Error',
+  details: [
+    {
+      field: 'connectionId',
+      message: 'Connection not found',
+    },
+  ],
+};
+
+// Create a saved query
+routes.post('/api/saved-queries', {
+  summary: 'Create a saved query',
+  body: createSavedQuerySchema,
+  status: 201,
+}, async (req: Request, res: Response) => {
+  try {
+    const body = req.body as z.infer<typeof createSavedQuerySchema>;
+
+    if (body.connectionId && !(await findVisibleConnection(req.user!, body.connectionId))) {
+      res.status(400).json(connectionNotFoundDetails);
+      return;
+    }
+
+    const savedQuery = await prisma.savedQuery.create({
+      data: body,
+    });
+
+    res.status(201).json({
+      data: savedQuery,
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'create_saved_query' }
+    });
+
+    res.status(500).json({
+      error: 'Failed to create saved query',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Update a saved query
+routes.patch(
+  '/api/saved-queries/:id',
+  {
+    summary: 'Update a saved query',
+    params: idParamSchema,
+    body: updateSavedQuerySchema,
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as unknown as { id: number };
+      const body = req.body as z.infer<typeof updateSavedQuerySchema>;
+
+      const existing = await prisma.savedQuery.findFirst({
+        where: { id, ...visibleSavedQueriesFilter(req.user!) },
+      });
+
+      if (!existing) {
+        res.status(404).json({
+          error: 'Saved query not found',
+        });
+        return;
+      }
+
+      if (body.connectionId && !(await findVisibleConnection(req.user!, body.connectionId))) {
+        res.status(400).json(connectionNotFoundDetails);
+        return;
+      }
+
+      const savedQuery = await prisma.savedQuery.update({
+        where: { id },
+        data: body,
+      });
+
+      res.json({
+        data: savedQuery,
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: { operation: 'update_saved_query', savedQueryId: req.params.id }
+      });
+
+      res.status(500).json({
+        error: 'Failed to update saved query',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+// Delete a saved query
+routes.delete('/api/saved-queries/:id', {
+  summary: 'Delete a saved query',
+  params: idParamSchema,
+}, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params as unknown as { id: number };
+
+    const existing = await prisma.savedQuery.findFirst({
+      where: { id, ...visibleSavedQueriesFilter(req.user!) },
+    });
+
+    if (!existing) {
+      res.status(404).json({
+        error: 'Saved query not found',
+      });
+      return;
+    }
+
+    const savedQuery = await prisma.savedQuery.delete({
+      where: { id },
+    });
+
+    res.json({
+      data: savedQuery,
+    });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorId = logError(err, {
+      req,
+      additionalContext: { operation: 'delete_saved_query', savedQueryId: req.params.id }
+    });
+
+    res.status(500).json({
+      error: 'Failed to delete saved query',
+      errorId,
+      ...(env.NODE_ENV === 'development' && { message: err.message }),
+    });
+  }
+});
+
+// Run a saved query against its connection (or an explicitly chosen one)
+routes.post(
+  '/api/saved-queries/:id/run',
+  {
+    summary: 'Run a saved query',
+    params: idParamSchema,
+    body: runSavedQuerySchema,
+    responses: TARGET_DATABASE_ERRORS,
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as unknown as { id: number };
+      const { connectionId, maxRows, timeoutMs, parameters } = req.body as z.infer<typeof runSavedQuerySchema>;
+
+      const savedQuery = await prisma.savedQuery.findFirst({
+        where: { id, ...visibleSavedQueriesFilter(req.user!) },
+      });
+
+      if (!savedQuery) {
+        res.status(404).json({
+          error: 'Saved query not found',
+        });
+        return;
+      }
+
+      // Re-check the stored SQL in case the query runner's rules changed since it was saved
+      const sqlCheck = sqlStatementSchema.safeParse(savedQuery.sql);
+      if (!sqlCheck.success) {
+        res.status(400).json({
+          error: 'Validation Error',
+          details: sqlCheck.error.issues.map((issue) => ({
+            field: 'sql',
+            message: issue.message,
+          })),
+        });
+        return;
+      }
+
+      const targetConnectionId = connectionId ?? savedQuery.connectionId;
+      if (!targetConnectionId) {
+        res.status(400).json({
+          error: 'Validation Error',
+          details: [
+            {
+              field: 'connectionId',
+              message: 'This saved query has no connection; provide connectionId',
+            },
+          ],
+        });
+        return;
+      }
+
+      const connection = await prisma.connection.findUnique({
+        where: { id: targetConnectionId },
+      });
+
+      const role = connection ? await getConnectionRole(req.user!, connection.id) : null;
+      if (!connection || !role) {
+        res.status(404).json({
+          error: 'Connection not found',
+        });
+        return;
+      }
+
+      const target = toConnectionTarget(connection);
+      if (!isReadOnlyStatement(target, savedQuery.sql) && !hasRole(role, 'editor')) {
+        sendForbidden(res, 'editor');
+        return;
+      }
+
+      const result = await runAndRecordQuery(
+        target,
+        { connectionId: connection.id, sql: savedQuery.sql, savedQueryId: id, auditRequest: req },
+        { maxRows, timeoutMs, parameters }
+      );
+
+      res.json({
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof TargetDatabaseError) {
+        sendTargetDatabaseError(res, error);
+        return;
+      }
+
+      const err = error instanceof Error ? error : new Error(String(error));
+      const errorId = logError(err, {
+        req,
+        additionalContext: { operation: 'run_saved_query', savedQueryId: req.params.id }
+      });
+
+      res.status(500).json({
+        error: 'Failed to run saved query',
+        errorId,
+        ...(env.NODE_ENV === 'development' && { message: err.message }),
+      });
+    }
+  }
+);
+
+export default routes;
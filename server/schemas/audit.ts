@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { AUDIT_ACTIONS } from '../lib/auditActions';
+import { isoDateTimeQuery, numericIdQuery, paginationSchema } from './common';
+
+export const auditFilterFields = {
+  actorId: numericIdQuery('actorId'),
+  actor: z.string().trim().max(191).optional(),
+  action: z.enum(AUDIT_ACTIONS, {
+    message: `Action must be one of: ${AUDIT_ACTIONS.join(', ')}`,
+  }).optional(),
+  connectionId: numericIdQuery('connectionId'),
+  from: isoDateTimeQuery('from'),
+  to: isoDateTimeQuery('to'),
+};
+
+export const auditDateRangeIsValid = (query: { from?: Date; to?: Date }) =>
+  !query.from || !query.to || query.from <= query.to;
+
+export const auditDateRangeIssue = { message: 'from must be before to', path: ['from'] };
+
+export const auditQuerySchema = paginationSchema.extend(auditFilterFields).refine(auditDateRangeIsValid, auditDateRangeIssue);
+
+export const auditExportQuerySchema = z.object(auditFilterFields).refine(auditDateRangeIsValid, auditDateRangeIssue);
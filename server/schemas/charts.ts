@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { numericIdQuery, paginationSchema } from './common';
+
+export const chartTypeSchema = z.enum(['line', 'bar', 'area', 'pie', 'scatter'], {
+  message: 'Type must be one of: line, bar, area, pie, scatter',
+});
+
+export const columnNameSchema = z.string().trim().min(1, 'Column name is required').max(64);
+
+export const aggregationSchema = z.enum(['none', 'sum', 'avg', 'count', 'min', 'max'], {
+  message: 'Aggregation must be one of: none, sum, avg, count, min, max',
+});
+
+// Column mapping for a chart; aggregation is applied client-side when rows share an X value
+export const chartConfigSchema = z
+  .object({
+    xColumn: columnNameSchema,
+    // One per --chart-N theme color
+    yColumns: z
+      .array(columnNameSchema)
+      .min(1, 'At least one Y column is required')
+      .max(5, 'At most 5 Y columns are allowed'),
+    seriesColumn: columnNameSchema.nullable().optional().default(null),
+    aggregation: aggregationSchema.optional().default('sum'),
+  })
+  .refine((config) => !config.seriesColumn || config.yColumns.length === 1, {
+    message: 'A series column can only be combined with a single Y column',
+    path: ['seriesColumn'],
+  });
+
+export const chartFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(191, 'Name must be at most 191 characters'),
+  description: z.string().trim().max(2000, 'Description must be at most 2000 characters').nullable(),
+  type: chartTypeSchema,
+  config: chartConfigSchema,
+  savedQueryId: z.number({ message: 'savedQueryId must be a number' }).int().positive(),
+});
+
+// Pie charts have a single value per slice
+export const pieChartRefinement = (body: { type?: string; config?: z.infer<typeof chartConfigSchema> }) =>
+  body.type !== 'pie' || !body.config || (body.config.yColumns.length === 1 && !body.config.seriesColumn);
+
+export const pieChartIssue = {
+  message: 'Pie charts take exactly one Y column and no series column',
+  path: ['config'],
+};
+
+export const createChartSchema = chartFieldsSchema
+  .extend({
+    description: chartFieldsSchema.shape.description.optional(),
+  })
+  .refine(pieChartRefinement, pieChartIssue);
+
+export const updateChartSchema = chartFieldsSchema
+  .partial()
+  .refine((body) => Object.keys(body).length > 0, 'At least one field must be provided')
+  .refine(pieChartRefinement, pieChartIssue);
+
+export const chartsQuerySchema = paginationSchema.extend({
+  search: z.string().trim().max(200).optional(),
+  savedQueryId: numericIdQuery('savedQueryId'),
+});
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+export const idParamSchema = z.object({
+  id: z.string().regex(/^\d+$/, 'Invalid ID format').transform(Number),
+});
+
+export const paginationSchema = z.object({
+  page: z.string().regex(/^\d+$/).optional().default('1').transform(Number),
+  limit: z.string().regex(/^\d+$/).optional().default('10').transform(Number),
+});
+
+export const isoDateTimeQuery = (field: string) =>
+  z.iso.datetime({ message: `${field} must be an ISO 8601 date-time`, offset: true })
+    .transform((value) => new Date(value))
+    .optional();
+
+export const numericIdQuery = (field: string) =>
+  z.string().regex(/^\d+$/, `${field} must be a numeric ID`).transform(Number).optional();
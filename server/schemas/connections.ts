@@ -0,0 +1,298 @@
+import { z } from 'zod';
+import { DEFAULT_TEST_TIMEOUT_MS } from '../lib/connectionTester';
+import {
+  DRIVER_LABELS,
+  DRIVER_NAMES,
+  driverUnavailableReason,
+  getDriver,
+  type DriverName,
+} from '../lib/drivers';
+import { GRANT_ROLES } from '../lib/roles';
+import { SSL_MODES } from '../lib/targetDatabase';
+import { idParamSchema, isoDateTimeQuery, paginationSchema } from './common';
+
+export const connectionStatusSchema = z.enum(['active', 'inactive', 'error'], {
+  message: 'Status must be one of: active, inactive, error',
+});
+
+export const connectionDriverSchema = z.enum(DRIVER_NAMES, {
+  message: `Driver must be one of: ${DRIVER_NAMES.join(', ')}`,
+});
+
+export const sslModeSchema = z.enum(SSL_MODES, {
+  message: `sslMode must be one of: ${SSL_MODES.join(', ')}`,
+});
+
+const hostSchema = (label: string) =>
+  z.string()
+    .trim()
+    .min(1, `${label} is required`)
+    .max(255, `${label} must be at most 255 characters`)
+    .refine(
+      (host) => z.hostname().safeParse(host).success || z.ipv6().safeParse(host).success,
+      `${label} must be a valid hostname or IP address`
+    );
+
+const portSchema = (label: string) =>
+  z.number({ message: `${label} must be a number` })
+    .int(`${label} must be an integer`)
+    .min(1, `${label} must be between 1 and 65535`)
+    .max(65535, `${label} must be between 1 and 65535`);
+
+// Certificates and keys are pasted in as PEM text. An empty string clears the stored value.
+const pemSchema = (label: string) =>
+  z.string()
+    .max(16384, `${label} must be at most 16384 characters`)
+    .refine(
+      (value) => value === '' || /-----BEGIN [A-Z0-9 ]+-----/.test(value),
+      `${label} must be PEM-encoded`
+    );
+
+// Host, port and the shape of the database depend on the driver; see checkConnectionTarget
+export const connectionFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(191, 'Name must be at most 191 characters'),
+  driver: connectionDriverSchema,
+  host: hostSchema('Host').nullable(),
+  port: portSchema('Port').nullable(),
+  database: z.string()
+    .trim()
+    .min(1, 'Database is required')
+    .max(191, 'Database must be at most 191 characters'),
+  status: connectionStatusSchema,
+  monitoringEnabled: z.boolean({ message: 'monitoringEnabled must be a boolean' }),
+  checkIntervalSeconds: z.number({ message: 'checkIntervalSeconds must be a number' })
+    .int('checkIntervalSeconds must be an integer')
+    .min(10, 'checkIntervalSeconds must be at least 10')
+    .max(86400, 'checkIntervalSeconds must be at most 86400'),
+  // Credentials are write-only: stored encrypted and never returned by the API.
+  // Send null (or an empty string) to clear a stored value.
+  username: z.string().max(255, 'Username must be at most 255 characters').nullable(),
+  password: z.string().max(1024, 'Password must be at most 1024 characters').nullable(),
+  sslMode: sslModeSchema,
+  sslCa: pemSchema('sslCa').nullable(),
+  sslCert: pemSchema('sslCert').nullable(),
+  // Write-only, like the credentials
+  sslKey: pemSchema('sslKey').nullable(),
+  sslVerifyServerCert: z.boolean({ message: 'sslVerifyServerCert must be a boolean' }),
+  sslVerifyHostname: z.boolean({ message: 'sslVerifyHostname must be a boolean' }),
+  // Setting sshHost tunnels every connection through that bastion
+  sshHost: hostSchema('SSH host').nullable(),
+  sshPort: portSchema('SSH port'),
+  sshUsername: z.string()
+    .trim()
+    .min(1, 'SSH username is required')
+    .max(255, 'SSH username must be at most 255 characters')
+    .nullable(),
+  // Write-only; either may be used to log in to the bastion
+  sshPrivateKey: pemSchema('sshPrivateKey').nullable(),
+  sshPassword: z.string().max(1024, 'SSH password must be at most 1024 characters').nullable(),
+});
+
+const DATABASE_NAME_PATTERN = /^[A-Za-z0-9_$-]+$/;
+// Relative paths whose segments don't start with a dot, so '..' can't climb out of SQLITE_DATA_DIR
+const DATABASE_FILE_PATTERN = /^[A-Za-z0-9_$-][A-Za-z0-9_$.-]*(\/[A-Za-z0-9_$-][A-Za-z0-9_$.-]*)*$/;
+
+interface ConnectionTargetFields {
+  driver: DriverName;
+  host?: string | null;
+  port?: number | null;
+  database: string;
+  sslMode?: string;
+  sshHost?: string | null;
+  sshUsername?: string | null;
+  sshPrivateKey?: string | null;
+  sshPassword?: string | null;
+}
+
+// Rules that span fields: network engines need a host, a port and a plain database name,
+// while file-based ones (SQLite) take a path relative to SQLITE_DATA_DIR and nothing else.
+// TLS and SSH tunnels only apply to engines reached over the network.
+export function checkConnectionTarget(
+  { driver, host, port, database, sslMode, sshHost, sshUsername, sshPrivateKey, sshPassword }: ConnectionTargetFields,
+  ctx: z.RefinementCtx
+) {
+  const unavailable = driverUnavailableReason(driver);
+  if (unavailable) {
+    ctx.addIssue({ code: 'custom', path: ['driver'], message: unavailable });
+    return;
+  }
+
+  const { capabilities } = getDriver(driver);
+
+  if (sslMode !== undefined && sslMode !== 'disabled' && !capabilities.ssl) {
+    ctx.addIssue({ code: 'custom', path: ['sslMode'], message: `${DRIVER_LABELS[driver]} connections do not use TLS` });
+  }
+
+  if (sshHost != null) {
+    if (!capabilities.network) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['sshHost'],
+        message: `${DRIVER_LABELS[driver]} connections cannot use an SSH tunnel`,
+      });
+    }
+    if (!sshUsername) {
+      ctx.addIssue({ code: 'custom', path: ['sshUsername'], message: 'SSH username is required' });
+    }
+    if (!sshPrivateKey && !sshPassword) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['sshPrivateKey'],
+        message: 'An SSH private key or password is required',
+      });
+    }
+  }
+
+  if (capabilities.network) {
+    if (host == null) {
+      ctx.addIssue({ code: 'custom', path: ['host'], message: 'Host is required' });
+    }
+    if (port == null) {
+      ctx.addIssue({ code: 'custom', path: ['port'], message: 'Port is required' });
+    }
+    if (database.length > 64) {
+      ctx.addIssue({ code: 'custom', path: ['database'], message: 'Database name must be at most 64 characters' });
+    } else if (!DATABASE_NAME_PATTERN.test(database)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['database'],
+        message: 'Database name may only contain letters, digits, _, $ and -',
+      });
+    }
+  } else {
+    if (host != null) {
+      ctx.addIssue({ code: 'custom', path: ['host'], message: `${DRIVER_LABELS[driver]} connections have no host` });
+    }
+    if (port != null) {
+      ctx.addIssue({ code: 'custom', path: ['port'], message: `${DRIVER_LABELS[driver]} connections have no port` });
+    }
+    if (!DATABASE_FILE_PATTERN.test(database)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['database'],
+        message: 'Database must be a file path relative to SQLITE_DATA_DIR, e.g. reports/sales.db',
+      });
+    }
+  }
+}
+
+// Updates are checked field by field by updateConnectionSchema, then merged into the stored
+// row and checked again with this
+export const connectionTargetSchema = connectionFieldsSchema
+  .pick({ driver: true, host: true, port: true, database: true, sslMode: true, sshHost: true, sshUsername: true })
+  .extend({
+    // Stored secrets are still encrypted at this point; only their presence matters
+    sshPrivateKey: z.string().nullable(),
+    sshPassword: z.string().nullable(),
+  })
+  .superRefine(checkConnectionTarget);
+
+export const createConnectionSchema = connectionFieldsSchema.extend({
+  driver: connectionDriverSchema.optional().default('mysql'),
+  host: connectionFieldsSchema.shape.host.optional(),
+  port: connectionFieldsSchema.shape.port.optional(),
+  status: connectionStatusSchema.optional(),
+  monitoringEnabled: connectionFieldsSchema.shape.monitoringEnabled.optional(),
+  checkIntervalSeconds: connectionFieldsSchema.shape.checkIntervalSeconds.optional(),
+  username: connectionFieldsSchema.shape.username.optional(),
+  password: connectionFieldsSchema.shape.password.optional(),
+  sslMode: sslModeSchema.optional(),
+  sslCa: connectionFieldsSchema.shape.sslCa.optional(),
+  sslCert: connectionFieldsSchema.shape.sslCert.optional(),
+  sslKey: connectionFieldsSchema.shape.sslKey.optional(),
+  sslVerifyServerCert: connectionFieldsSchema.shape.sslVerifyServerCert.optional(),
+  sslVerifyHostname: connectionFieldsSchema.shape.sslVerifyHostname.optional(),
+  sshHost: connectionFieldsSchema.shape.sshHost.optional(),
+  sshPort: connectionFieldsSchema.shape.sshPort.optional(),
+  sshUsername: connectionFieldsSchema.shape.sshUsername.optional(),
+  sshPrivateKey: connectionFieldsSchema.shape.sshPrivateKey.optional(),
+  sshPassword: connectionFieldsSchema.shape.sshPassword.optional(),
+}).superRefine(checkConnectionTarget);
+
+export const updateConnectionSchema = connectionFieldsSchema
+  .partial()
+  .refine((body) => Object.keys(body).length > 0, 'At least one field must be provided');
+
+export const testTimeoutSchema = z.number({ message: 'timeoutMs must be a number' })
+  .int('timeoutMs must be an integer')
+  .min(100, 'timeoutMs must be at least 100')
+  .max(60000, 'timeoutMs must be at most 60000')
+  .optional()
+  .default(DEFAULT_TEST_TIMEOUT_MS);
+
+// The request body is optional, so fall back to an empty object before applying defaults
+export const testConnectionSchema = z
+  .object({
+    timeoutMs: testTimeoutSchema,
+  })
+  .prefault({});
+
+// Dry-run test of a connection that has not been saved yet. Omitted settings take the
+// same defaults a new connection would.
+export const testUnsavedConnectionSchema = connectionFieldsSchema
+  .pick({ database: true })
+  .extend({
+    driver: createConnectionSchema.shape.driver,
+    host: connectionFieldsSchema.shape.host.default(null),
+    port: connectionFieldsSchema.shape.port.default(null),
+    username: connectionFieldsSchema.shape.username.default(null),
+    password: connectionFieldsSchema.shape.password.default(null),
+    sslMode: sslModeSchema.default('disabled'),
+    sslCa: connectionFieldsSchema.shape.sslCa.default(null),
+    sslCert: connectionFieldsSchema.shape.sslCert.default(null),
+    sslKey: connectionFieldsSchema.shape.sslKey.default(null),
+    sslVerifyServerCert: connectionFieldsSchema.shape.sslVerifyServerCert.default(true),
+    sslVerifyHostname: connectionFieldsSchema.shape.sslVerifyHostname.default(true),
+    sshHost: connectionFieldsSchema.shape.sshHost.default(null),
+    sshPort: connectionFieldsSchema.shape.sshPort.default(22),
+    sshUsername: connectionFieldsSchema.shape.sshUsername.default(null),
+    sshPrivateKey: connectionFieldsSchema.shape.sshPrivateKey.default(null),
+    sshPassword: connectionFieldsSchema.shape.sshPassword.default(null),
+    timeoutMs: testTimeoutSchema,
+  })
+  .superRefine(checkConnectionTarget);
+
+export const connectionsQuerySchema = paginationSchema.extend({
+  // Matched against name, host and database
+  search: z.string().trim().max(200).optional(),
+  status: connectionStatusSchema.optional(),
+});
+
+// Import connections from a URL, or from every connection URL in a .env file
+export const importConnectionsSchema = z
+  .object({
+    url: z.string().trim().min(1, 'URL is required').max(4096, 'URL must be at most 4096 characters').optional(),
+    env: z.string().max(65536, 'env must be at most 65536 characters').optional(),
+    // Only used with url; connections from a .env file are named after their variable
+    name: connectionFieldsSchema.shape.name.optional(),
+  })
+  .refine((body) => (body.url === undefined) !== (body.env === undefined), 'Send either url or env');
+
+export const connectionUrlQuerySchema = z.object({
+  // Include credentials instead of masking them; needs the editor role on the connection
+  reveal: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+});
+
+export const connectionChecksQuerySchema = paginationSchema
+  .extend({
+    from: isoDateTimeQuery('from'),
+    to: isoDateTimeQuery('to'),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export const connectionGrantParamsSchema = idParamSchema.extend({
+  userId: z.string().regex(/^\d+$/, 'Invalid user ID format').transform(Number),
+});
+
+export const tablePreviewParamsSchema = idParamSchema.extend({
+  table: z.string().min(1, 'Table is required').max(255, 'Table must be at most 255 characters'),
+});
+
+export const connectionGrantSchema = z.object({
+  role: z.enum(GRANT_ROLES, {
+    message: `Role must be one of: ${GRANT_ROLES.join(', ')}`,
+  }),
+});
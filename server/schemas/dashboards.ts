@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { aggregationSchema, columnNameSchema } from './charts';
+
+export const dashboardFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(191, 'Name must be at most 191 characters'),
+  description: z.string().trim().max(2000, 'Description must be at most 2000 characters').nullable(),
+  refreshIntervalSeconds: z.number({ message: 'refreshIntervalSeconds must be a number' })
+    .int('refreshIntervalSeconds must be an integer')
+    .min(10, 'refreshIntervalSeconds must be at least 10')
+    .max(86400, 'refreshIntervalSeconds must be at most 86400')
+    .nullable(),
+  dateRangePreset: z.enum(['7d', '30d', '90d', '365d', 'all'], {
+    message: 'dateRangePreset must be one of: 7d, 30d, 90d, 365d, all',
+  }),
+});
+
+export const createDashboardSchema = dashboardFieldsSchema.extend({
+  description: dashboardFieldsSchema.shape.description.optional(),
+  refreshIntervalSeconds: dashboardFieldsSchema.shape.refreshIntervalSeconds.optional(),
+  dateRangePreset: dashboardFieldsSchema.shape.dateRangePreset.optional(),
+});
+
+export const updateDashboardSchema = dashboardFieldsSchema
+  .partial()
+  .refine((body) => Object.keys(body).length > 0, 'At least one field must be provided');
+
+// Widgets span 1-4 columns and rows of the dashboard grid
+export const widgetSizeSchema = (field: string) =>
+  z.number({ message: `${field} must be a number` })
+    .int(`${field} must be an integer`)
+    .min(1, `${field} must be at least 1`)
+    .max(4, `${field} must be at most 4`);
+
+export const kpiConfigSchema = z.object({
+  valueColumn: columnNameSchema,
+  aggregation: aggregationSchema.optional().default('sum'),
+  decimals: z.number().int().min(0).max(6).optional().default(2),
+  prefix: z.string().max(10, 'Prefix must be at most 10 characters').optional().default(''),
+  suffix: z.string().max(10, 'Suffix must be at most 10 characters').optional().default(''),
+});
+
+export const dashboardWidgetSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('chart'),
+    chartId: z.number({ message: 'chartId must be a number' }).int().positive(),
+    title: z.string().trim().max(191).nullable().optional().default(null),
+    width: widgetSizeSchema('width').optional().default(2),
+    height: widgetSizeSchema('height').optional().default(2),
+  }),
+  z.object({
+    kind: z.literal('kpi'),
+    savedQueryId: z.number({ message: 'savedQueryId must be a number' }).int().positive(),
+    title: z.string().trim().min(1, 'KPI title is required').max(191),
+    config: kpiConfigSchema,
+    width: widgetSizeSchema('width').optional().default(1),
+    height: widgetSizeSchema('height').optional().default(1),
+  }),
+], { message: 'kind must be one of: chart, kpi' });
+
+// The widget list is replaced as a whole; array order is the layout order
+export const dashboardWidgetsSchema = z.object({
+  widgets: z.array(dashboardWidgetSchema).max(50, 'At most 50 widgets are allowed'),
+});
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { env } from '../lib/env';
+import {
+  DEFAULT_MAX_ROWS,
+  DEFAULT_QUERY_TIMEOUT_MS,
+  MAX_QUERY_TIMEOUT_MS,
+  MAX_ROWS_LIMIT,
+} from '../lib/queryRunner';
+import { READ_ONLY_STATEMENTS, UnsafeStatementError, analyzeStatement } from '../lib/sqlGuard';
+import { numericIdQuery, paginationSchema } from './common';
+
+// Ad-hoc SQL is checked up front so unsafe statements are rejected as validation errors
+export const sqlStatementSchema = z.string({ message: 'SQL is required' })
+  .trim()
+  .min(1, 'SQL is required')
+  .max(100_000, 'SQL must be at most 100000 characters')
+  .superRefine((sql, ctx) => {
+    try {
+      const { statementType, readOnly } = analyzeStatement(sql);
+      if (!readOnly && !env.QUERY_RUNNER_ALLOW_WRITES) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `${statementType} statements are not allowed. Only ${READ_ONLY_STATEMENTS.filter(
+            (type) => type !== 'DESC' && type !== 'WITH'
+          ).join(', ')} queries can be run.`,
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof UnsafeStatementError)) throw error;
+      ctx.addIssue({ code: 'custom', message: error.message });
+    }
+  });
+
+export const queryOptionsSchema = z.object({
+  maxRows: z.number({ message: 'maxRows must be a number' })
+    .int('maxRows must be an integer')
+    .min(1, 'maxRows must be at least 1')
+    .max(MAX_ROWS_LIMIT, `maxRows must be at most ${MAX_ROWS_LIMIT}`)
+    .optional()
+    .default(DEFAULT_MAX_ROWS),
+  timeoutMs: z.number({ message: 'timeoutMs must be a number' })
+    .int('timeoutMs must be an integer')
+    .min(100, 'timeoutMs must be at least 100')
+    .max(MAX_QUERY_TIMEOUT_MS, `timeoutMs must be at most ${MAX_QUERY_TIMEOUT_MS}`)
+    .optional()
+    .default(DEFAULT_QUERY_TIMEOUT_MS),
+  // Bound to :name placeholders, e.g. WHERE (:from IS NULL OR created_at >= :from)
+  parameters: z
+    .record(
+      z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'Parameter names must be identifiers'),
+      z.union([z.string().max(1000, 'Parameter values must be at most 1000 characters'), z.number(), z.null()], {
+        message: 'Parameter values must be strings, numbers or null',
+      })
+    )
+    .refine((parameters) => Object.keys(parameters).length <= 50, 'At most 50 parameters are allowed')
+    .optional(),
+});
+
+export const runQuerySchema = queryOptionsSchema.extend({
+  sql: sqlStatementSchema,
+});
+
+// Running a saved query may target a different connection than the one it was saved with
+export const runSavedQuerySchema = queryOptionsSchema
+  .extend({
+    connectionId: z.number({ message: 'connectionId must be a number' }).int().positive().optional(),
+  })
+  .prefault({});
+
+export const tagsSchema = z.array(
+  z.string().trim().min(1, 'Tags cannot be empty').max(50, 'Tags must be at most 50 characters')
+)
+  .max(20, 'At most 20 tags are allowed')
+  .transform((tags) => [...new Set(tags)]);
+
+export const savedQueryFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(191, 'Name must be at most 191 characters'),
+  sql: sqlStatementSchema,
+  description: z.string().trim().max(2000, 'Description must be at most 2000 characters').nullable(),
+  tags: tagsSchema,
+  connectionId: z.number({ message: 'connectionId must be a number' }).int().positive().nullable(),
+});
+
+export const createSavedQuerySchema = savedQueryFieldsSchema.extend({
+  description: savedQueryFieldsSchema.shape.description.optional(),
+  tags: tagsSchema.optional().default([]),
+  connectionId: savedQueryFieldsSchema.shape.connectionId.optional(),
+});
+
+export const updateSavedQuerySchema = savedQueryFieldsSchema
+  .partial()
+  .refine((body) => Object.keys(body).length > 0, 'At least one field must be provided');
+
+export const savedQueriesQuerySchema = paginationSchema.extend({
+  search: z.string().trim().max(200).optional(),
+  tag: z.string().trim().max(50).optional(),
+  connectionId: numericIdQuery('connectionId'),
+});
+
+export const queryHistoryQuerySchema = paginationSchema.extend({
+  search: z.string().trim().max(200).optional(),
+  connectionId: numericIdQuery('connectionId'),
+  success: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+});
@@ -0,0 +1,59 @@
+import { parseArgs } from 'util';
+import { z } from 'zod';
+import prisma from '../lib/prisma';
+import { hashPassword } from '../lib/auth';
+import { ROLES } from '../lib/roles';
+
+// Create a user, or reset the password of an existing one.
+// Usage: bun run users:create -- --email admin@example.com [--name "Admin"] [--role admin|editor|viewer]
+// The password is read from USER_PASSWORD, or prompted for when it is unset.
+async function main() {
+  const { values } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      email: { type: 'string' },
+      name: { type: 'string' },
+      role: { type: 'string' },
+    },
+  });
+
+  const email = z.email().safeParse(values.email?.trim().toLowerCase());
+  if (!email.success) {
+    throw new Error('Provide a valid --email');
+  }
+
+  const role = z.enum(ROLES).optional().safeParse(values.role);
+  if (!role.success) {
+    throw new Error(`--role must be one of: ${ROLES.join(', ')}`);
+  }
+
+  const password = process.env.USER_PASSWORD ?? prompt('Password:') ?? '';
+  if (password.length < 8) {
+    throw new Error('Password must be at least 8 characters');
+  }
+
+  const passwordHash = await hashPassword(password);
+  const user = await prisma.user.upsert({
+    where: { email: email.data },
+    create: { email: email.data, name: values.name ?? null, passwordHash, role: role.data ?? 'viewer' },
+    update: {
+      passwordHash,
+      ...(values.name !== undefined && { name: values.name }),
+      ...(role.data && { role: role.data }),
+    },
+  });
+
+  // A password reset signs the user out everywhere
+  await prisma.session.deleteMany({ where: { userId: user.id } });
+
+  console.log(`✅ Saved user ${user.email} (id ${user.id}, ${user.role})`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
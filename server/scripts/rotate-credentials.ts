@@ -0,0 +1,55 @@
+import prisma from '../lib/prisma';
+import {
+  CONNECTION_SECRET_COLUMNS,
+  needsReEncryption,
+  reEncryptSecret,
+  type EncryptedCredentialFields,
+} from '../lib/credentials';
+
+const SECRET_COLUMNS = Object.values(CONNECTION_SECRET_COLUMNS);
+
+// Re-encrypt every stored connection secret with the current
+// CREDENTIALS_ENCRYPTION_KEY. Run this after moving the old key into
+// CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS; once it completes the old key can be removed.
+async function main() {
+  const connections = await prisma.connection.findMany({
+    // Spelled out so Prisma types each column in the result; satisfies catches a secret left off
+    select: {
+      id: true,
+      usernameEncrypted: true,
+      passwordEncrypted: true,
+      sslKeyEncrypted: true,
+      sshPrivateKeyEncrypted: true,
+      sshPasswordEncrypted: true,
+    } satisfies Record<'id' | keyof EncryptedCredentialFields, true>,
+  });
+
+  let rotated = 0;
+
+  for (const connection of connections) {
+    const data: Partial<EncryptedCredentialFields> = {};
+
+    for (const column of SECRET_COLUMNS) {
+      const payload = connection[column];
+      if (payload && needsReEncryption(payload)) {
+        data[column] = reEncryptSecret(payload);
+      }
+    }
+
+    if (Object.keys(data).length > 0) {
+      await prisma.connection.update({ where: { id: connection.id }, data });
+      rotated++;
+    }
+  }
+
+  console.log(`✅ Re-encrypted credentials for ${rotated} of ${connections.length} connection(s)`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
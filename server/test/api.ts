@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { SESSION_COOKIE_NAME } from '../lib/auth';
+import type { ApiRouter } from '../lib/router';
+import { fakePrisma } from './fakePrisma';
+
+export interface TestServer {
+  request(method: string, path: string, options?: { cookie?: string; body?: unknown }): Promise<TestResponse>;
+  close(): Promise<void>;
+}
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+// Serve routers the way index.ts does, minus logging, metrics and CORS
+export async function startTestServer(routers: ApiRouter[]): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  for (const { router } of routers) {
+    app.use(router);
+  }
+
+  const server = await new Promise<ReturnType<typeof app.listen>>((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    async request(method, path, { cookie, body } = {}) {
+      const response = await fetch(base + path, {
+        method,
+        headers: {
+          ...(cookie && { cookie }),
+          ...(body !== undefined && { 'content-type': 'application/json' }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await response.text();
+      return { status: response.status, body: text ? JSON.parse(text) : null };
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+// Add a user with a live session, returning the cookie that signs in as them
+export function signIn(user: { id: number }): string {
+  const token = crypto.randomBytes(32).toString('base64url');
+  fakePrisma.seed('session', [
+    {
+      tokenHash: crypto.createHash('sha256').update(token).digest('hex'),
+      userId: user.id,
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    },
+  ]);
+  return `${SESSION_COOKIE_NAME}=${token}`;
+}
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import net from 'net';
+
+// How the fake server treats clients: never answer at all, or send the handshake and then
+// turn the login down with a MySQL error
+export type FakeMysqlBehavior =
+  | { kind: 'silent' }
+  | { kind: 'reject'; errno: number; sqlState: string; message: string };
+
+export interface FakeMysqlServer {
+  port: number;
+  // Sockets accepted so far
+  connections: number;
+  close(): Promise<void>;
+}
+
+// CLIENT_LONG_PASSWORD | CLIENT_CONNECT_WITH_DB | CLIENT_PROTOCOL_41 | CLIENT_TRANSACTIONS |
+// CLIENT_SECURE_CONNECTION | CLIENT_PLUGIN_AUTH
+const CAPABILITIES = 0x1 | 0x8 | 0x200 | 0x2000 | 0x8000 | 0x80000;
+
+function packet(sequence: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUIntLE(payload.length, 0, 3);
+  header[3] = sequence;
+  return Buffer.concat([header, payload]);
+}
+
+// Protocol::HandshakeV10, offering mysql_native_password
+function handshake(connectionId: number): Buffer {
+  const scramble = crypto.randomBytes(20);
+  const fixed = Buffer.alloc(4 + 8 + 1 + 2 + 1 + 2 + 2 + 1 + 10);
+  let offset = fixed.writeUInt32LE(connectionId, 0);
+  offset += scramble.copy(fixed, offset, 0, 8);
+  offset = fixed.writeUInt8(0, offset);
+  offset = fixed.writeUInt16LE(CAPABILITIES & 0xffff, offset);
+  offset = fixed.writeUInt8(33, offset);
+  offset = fixed.writeUInt16LE(0x2, offset);
+  offset = fixed.writeUInt16LE(CAPABILITIES >>> 16, offset);
+  fixed.writeUInt8(21, offset);
+
+  return Buffer.concat([
+    Buffer.from([10]),
+    Buffer.from('8.0.0-fake\0'),
+    fixed,
+    scramble.subarray(8),
+    Buffer.from([0]),
+    Buffer.from('mysql_native_password\0'),
+  ]);
+}
+
+// Protocol::ERR_Packet
+function errorPacket(errno: number, sqlState: string, message: string): Buffer {
+  const code = Buffer.alloc(2);
+  code.writeUInt16LE(errno);
+  return Buffer.concat([Buffer.from([0xff]), code, Buffer.from(`#${sqlState}${message}`)]);
+}
+
+// A TCP server that speaks just enough of the MySQL protocol to fail a login the way a
+// real server would
+export function startFakeMysqlServer(behavior: FakeMysqlBehavior): Promise<FakeMysqlServer> {
+  const sockets = new Set<net.Socket>();
+  let connections = 0;
+
+  const server = net.createServer((socket) => {
+    connections++;
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    if (behavior.kind === 'silent') return;
+
+    socket.write(packet(0, handshake(connections)));
+    // The client's HandshakeResponse41 is sequence 1, so the answer is 2
+    socket.once('data', () => {
+      socket.end(packet(2, errorPacket(behavior.errno, behavior.sqlState, behavior.message)));
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as net.AddressInfo).port,
+        get connections() {
+          return connections;
+        },
+        close: () =>
+          new Promise((done) => {
+            sockets.forEach((socket) => socket.destroy());
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+// A loopback port with nothing listening on it
+export async function closedPort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
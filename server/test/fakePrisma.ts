@@ -0,0 +1,336 @@
+// An in-memory stand-in for the Prisma client, covering the subset of the query API the
+// routes use: where filters (including relation filters), orderBy, skip/take, select,
+// include, nested creates and increments. It keeps route tests independent of a database.
+
+type Row = Record<string, any>;
+type Where = Record<string, any>;
+
+type Relation =
+  | { kind: 'one'; model: ModelName; field: string }
+  | { kind: 'many'; model: ModelName; foreignKey: string };
+
+const MODELS = [
+  'user',
+  'session',
+  'connection',
+  'connectionGrant',
+  'connectionCheck',
+  'savedQuery',
+  'queryHistory',
+  'auditEvent',
+  'chart',
+  'dashboard',
+  'dashboardWidget',
+] as const;
+
+export type ModelName = (typeof MODELS)[number];
+
+// Column defaults from prisma/schema.prisma; id, createdAt and updatedAt are filled for every model
+const DEFAULTS: Partial<Record<ModelName, Row>> = {
+  user: { name: null, role: 'viewer', lastLoginAt: null },
+  session: { userAgent: null, ipAddress: null },
+  connection: {
+    driver: 'mysql',
+    host: null,
+    port: null,
+    status: 'active',
+    lastCheckedAt: null,
+    lastError: null,
+    monitoringEnabled: true,
+    checkIntervalSeconds: 300,
+    consecutiveFailures: 0,
+    usernameEncrypted: null,
+    passwordEncrypted: null,
+    sslMode: 'disabled',
+    sslCa: null,
+    sslCert: null,
+    sslKeyEncrypted: null,
+    sslVerifyServerCert: true,
+    sslVerifyHostname: true,
+    sshHost: null,
+    sshPort: 22,
+    sshUsername: null,
+    sshPrivateKeyEncrypted: null,
+    sshPasswordEncrypted: null,
+  },
+  savedQuery: { description: null, tags: [], connectionId: null },
+  queryHistory: { savedQueryId: null, durationMs: null, rowCount: null, error: null },
+  chart: { description: null },
+  dashboard: { description: null, refreshIntervalSeconds: null, dateRangePreset: '30d' },
+  dashboardWidget: { title: null, chartId: null, savedQueryId: null, config: null, width: 1, height: 2 },
+};
+
+const RELATIONS: Partial<Record<ModelName, Record<string, Relation>>> = {
+  session: { user: { kind: 'one', model: 'user', field: 'userId' } },
+  connection: {
+    grants: { kind: 'many', model: 'connectionGrant', foreignKey: 'connectionId' },
+    checks: { kind: 'many', model: 'connectionCheck', foreignKey: 'connectionId' },
+  },
+  connectionGrant: {
+    user: { kind: 'one', model: 'user', field: 'userId' },
+    connection: { kind: 'one', model: 'connection', field: 'connectionId' },
+  },
+  savedQuery: { connection: { kind: 'one', model: 'connection', field: 'connectionId' } },
+  queryHistory: { connection: { kind: 'one', model: 'connection', field: 'connectionId' } },
+  chart: {
+    savedQuery: { kind: 'one', model: 'savedQuery', field: 'savedQueryId' },
+    widgets: { kind: 'many', model: 'dashboardWidget', foreignKey: 'chartId' },
+  },
+  dashboard: { widgets: { kind: 'many', model: 'dashboardWidget', foreignKey: 'dashboardId' } },
+  dashboardWidget: {
+    dashboard: { kind: 'one', model: 'dashboard', field: 'dashboardId' },
+    chart: { kind: 'one', model: 'chart', field: 'chartId' },
+    savedQuery: { kind: 'one', model: 'savedQuery', field: 'savedQueryId' },
+  },
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+
+const comparable = (value: unknown) => (value instanceof Date ? value.getTime() : value);
+
+function matchesScalar(value: unknown, condition: unknown): boolean {
+  if (!isPlainObject(condition)) {
+    return comparable(value) === comparable(condition);
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case 'equals':
+        return comparable(value) === comparable(operand);
+      case 'not':
+        return !matchesScalar(value, operand);
+      case 'in':
+        return (operand as unknown[]).some((entry) => comparable(entry) === comparable(value));
+      case 'contains':
+        return typeof value === 'string' && value.toLowerCase().includes(String(operand).toLowerCase());
+      case 'array_contains':
+        return Array.isArray(value) && (operand as unknown[]).every((entry) => value.includes(entry));
+      case 'lt':
+        return value !== null && (comparable(value) as number) < (comparable(operand) as number);
+      case 'lte':
+        return value !== null && (comparable(value) as number) <= (comparable(operand) as number);
+      case 'gt':
+        return value !== null && (comparable(value) as number) > (comparable(operand) as number);
+      case 'gte':
+        return value !== null && (comparable(value) as number) >= (comparable(operand) as number);
+      default:
+        throw new Error(`Fake Prisma does not support the ${operator} filter`);
+    }
+  });
+}
+
+function applyUpdate(row: Row, data: Row): Row {
+  const updated: Row = { ...row, updatedAt: new Date() };
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    updated[key] = isPlainObject(value) && 'increment' in value ? (row[key] ?? 0) + value.increment : value;
+  }
+  return updated;
+}
+
+export function createFakePrisma() {
+  const tables = new Map<ModelName, Row[]>();
+  const nextIds = new Map<ModelName, number>();
+
+  const rows = (model: ModelName) => tables.get(model)!;
+
+  function matches(model: ModelName, row: Row, where: Where = {}): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+      if (condition === undefined) return true;
+      if (key === 'AND') return (condition as Where[]).every((entry) => matches(model, row, entry));
+      if (key === 'OR') return (condition as Where[]).some((entry) => matches(model, row, entry));
+      if (key === 'NOT') return !matches(model, row, condition);
+
+      const relation = RELATIONS[model]?.[key];
+      if (relation?.kind === 'many') {
+        const related = rows(relation.model).filter((entry) => entry[relation.foreignKey] === row.id);
+        if (condition.some) return related.some((entry) => matches(relation.model, entry, condition.some));
+        if (condition.none) return !related.some((entry) => matches(relation.model, entry, condition.none));
+        if (condition.every) return related.every((entry) => matches(relation.model, entry, condition.every));
+        throw new Error(`Fake Prisma needs some, none or every on ${model}.${key}`);
+      }
+      if (relation?.kind === 'one') {
+        const related = rows(relation.model).find((entry) => entry.id === row[relation.field]);
+        if (condition === null) return !related;
+        return related !== undefined && matches(relation.model, related, condition.is ?? condition);
+      }
+
+      // Compound unique keys such as userId_connectionId
+      if (key.includes('_') && isPlainObject(condition) && !(key in row)) {
+        return matches(model, row, condition);
+      }
+
+      return matchesScalar(row[key], condition);
+    });
+  }
+
+  function shape(model: ModelName, row: Row, args: { select?: Row; include?: Row } = {}): Row {
+    const manyRelation = (key: string) => {
+      const relation = RELATIONS[model]?.[key];
+      if (relation?.kind !== 'many') throw new Error(`Fake Prisma has no ${model}.${key} list relation`);
+      return relation;
+    };
+
+    const attach = (result: Row, key: string, nested: true | Row) => {
+      const nestedArgs = nested === true ? {} : nested;
+      if (key === '_count') {
+        result._count = Object.fromEntries(
+          Object.entries(nestedArgs.select ?? {}).map(([name, count]) => {
+            const relation = manyRelation(name);
+            const where = count === true ? {} : (count as Row).where;
+            return [name, findMany(relation.model, { where: { ...where, [relation.foreignKey]: row.id } }).length];
+          })
+        );
+        return;
+      }
+
+      const relation = RELATIONS[model]?.[key];
+      if (!relation) throw new Error(`Fake Prisma has no ${model}.${key} relation`);
+      if (relation.kind === 'one') {
+        const related = rows(relation.model).find((entry) => entry.id === row[relation.field]);
+        result[key] = related ? shape(relation.model, related, nestedArgs) : null;
+      } else {
+        result[key] = findMany(relation.model, {
+          ...nestedArgs,
+          where: { ...nestedArgs.where, [relation.foreignKey]: row.id },
+        });
+      }
+    };
+
+    if (args.select) {
+      const result: Row = {};
+      for (const [key, value] of Object.entries(args.select)) {
+        if (!value) continue;
+        if (RELATIONS[model]?.[key] || key === '_count') attach(result, key, value);
+        else result[key] = row[key];
+      }
+      return result;
+    }
+
+    const result = { ...row };
+    for (const [key, value] of Object.entries(args.include ?? {})) {
+      if (value) attach(result, key, value);
+    }
+    return result;
+  }
+
+  function findMany(model: ModelName, args: Row = {}): Row[] {
+    let found = rows(model).filter((row) => matches(model, row, args.where));
+
+    for (const order of [args.orderBy ?? []].flat().reverse()) {
+      const [[field, direction]] = Object.entries(order) as [[string, 'asc' | 'desc']];
+      const factor = direction === 'desc' ? -1 : 1;
+      found = [...found].sort((a, b) => {
+        const left = comparable(a[field]) as any;
+        const right = comparable(b[field]) as any;
+        return left < right ? -factor : left > right ? factor : 0;
+      });
+    }
+
+    found = found.slice(args.skip ?? 0, args.take === undefined ? undefined : (args.skip ?? 0) + args.take);
+    return found.map((row) => shape(model, row, args));
+  }
+
+  function create(model: ModelName, args: Row): Row {
+    const id = nextIds.get(model)!;
+    nextIds.set(model, id + 1);
+
+    const nested: [string, Row][] = [];
+    const row: Row = { id, ...DEFAULTS[model], createdAt: new Date(), updatedAt: new Date() };
+    for (const [key, value] of Object.entries(args.data)) {
+      if (value === undefined) continue;
+      if (RELATIONS[model]?.[key]) nested.push([key, value as Row]);
+      else row[key] = value;
+    }
+    rows(model).push(row);
+
+    for (const [key, { create: child }] of nested) {
+      const relation = RELATIONS[model]![key]!;
+      if (relation.kind !== 'many') throw new Error(`Fake Prisma cannot create through ${model}.${key}`);
+      for (const data of [child].flat()) {
+        create(relation.model, { data: { ...data, [relation.foreignKey]: id } });
+      }
+    }
+
+    return shape(model, row, args);
+  }
+
+  const findOne = (model: ModelName, where: Where) => rows(model).find((row) => matches(model, row, where));
+
+  function update(model: ModelName, args: Row): Row {
+    const existing = findOne(model, args.where);
+    if (!existing) throw Object.assign(new Error('Record to update not found'), { code: 'P2025' });
+    const updated = applyUpdate(existing, args.data);
+    tables.set(model, rows(model).map((row) => (row === existing ? updated : row)));
+    return shape(model, updated, args);
+  }
+
+  function deleteMany(model: ModelName, where: Where = {}): { count: number } {
+    const before = rows(model).length;
+    tables.set(model, rows(model).filter((row) => !matches(model, row, where)));
+    return { count: before - rows(model).length };
+  }
+
+  const delegate = (model: ModelName) => ({
+    findMany: async (args?: Row) => findMany(model, args),
+    findFirst: async (args?: Row) => findMany(model, { ...args, take: 1 })[0] ?? null,
+    findUnique: async (args: Row) => findMany(model, { ...args, take: 1 })[0] ?? null,
+    count: async (args?: Row) => findMany(model, { where: args?.where }).length,
+    create: async (args: Row) => create(model, args),
+    update: async (args: Row) => update(model, args),
+    upsert: async (args: Row) =>
+      findOne(model, args.where)
+        ? update(model, { ...args, data: args.update })
+        : create(model, { ...args, data: args.create }),
+    delete: async (args: Row) => {
+      const existing = findOne(model, args.where);
+      if (!existing) throw Object.assign(new Error('Record to delete not found'), { code: 'P2025' });
+      deleteMany(model, { id: existing.id });
+      return existing;
+    },
+    deleteMany: async (args?: Row) => deleteMany(model, args?.where),
+    createMany: async (args: Row) => ({ count: (args.data as Row[]).map((data) => create(model, { data })).length }),
+    aggregate: async (args: Row) => {
+      const found = findMany(model, { where: args.where });
+      const averages: Row = {};
+      for (const field of Object.keys(args._avg ?? {})) {
+        const values = found.map((row) => row[field]).filter((value) => typeof value === 'number');
+        averages[field] = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+      }
+      return { _avg: averages };
+    },
+  });
+
+  const client = {
+    ...(Object.fromEntries(MODELS.map((model) => [model, delegate(model)])) as Record<
+      ModelName,
+      ReturnType<typeof delegate>
+    >),
+    // Operations run eagerly, so an array transaction is just its already-started promises
+    $transaction: async (operations: Promise<unknown>[] | ((tx: unknown) => Promise<unknown>)) =>
+      typeof operations === 'function' ? operations(client) : Promise.all(operations),
+    $disconnect: async () => {},
+
+    // Empty every table and restart ids at 1
+    reset() {
+      for (const model of MODELS) {
+        tables.set(model, []);
+        nextIds.set(model, 1);
+      }
+    },
+    // Insert rows as stored, with defaults filled in; returns them with their ids
+    seed(model: ModelName, data: Row[]): (Row & { id: number })[] {
+      return data.map((entry) => create(model, { data: entry }) as Row & { id: number });
+    },
+    rows: (model: ModelName): Row[] => rows(model),
+  };
+
+  client.reset();
+  return client;
+}
+
+export type FakePrisma = ReturnType<typeof createFakePrisma>;
+
+// Shared by every test file; test/setup.ts puts it in place of lib/prisma
+export const fakePrisma = createFakePrisma();
@@ -0,0 +1,85 @@
+import net from 'net';
+import { Server, utils, type Connection } from 'ssh2';
+
+export interface FakeSshOptions {
+  username: string;
+  password: string;
+  // When false, every port-forward request is turned down as a bastion without a route would
+  allowForwarding?: boolean;
+}
+
+export interface FakeSshServer {
+  port: number;
+  // Clients logged in so far, and how many are still connected
+  logins: number;
+  openConnections: number;
+  // host:port of every forward clients asked for
+  forwards: string[];
+  close(): Promise<void>;
+}
+
+// An SSH server that takes one password login and forwards direct-tcpip channels to
+// whatever they name, like a bastion host
+export function startFakeSshServer({
+  username,
+  password,
+  allowForwarding = true,
+}: FakeSshOptions): Promise<FakeSshServer> {
+  const clients = new Set<Connection>();
+  const forwards: string[] = [];
+  let logins = 0;
+
+  const server = new Server({ hostKeys: [utils.generateKeyPairSync('ed25519').private] }, (client) => {
+    clients.add(client);
+    client.on('close', () => clients.delete(client));
+    client.on('error', () => client.end());
+
+    client.on('authentication', (context) => {
+      if (context.method === 'password' && context.username === username && context.password === password) {
+        context.accept();
+      } else {
+        context.reject(['password']);
+      }
+    });
+
+    client.on('ready', () => {
+      logins++;
+      client.on('tcpip', (accept, reject, { destIP, destPort }) => {
+        forwards.push(`${destIP}:${destPort}`);
+        if (!allowForwarding) {
+          reject();
+          return;
+        }
+
+        const socket = net.connect(destPort, destIP);
+        socket.on('error', () => reject());
+        socket.on('connect', () => {
+          const channel = accept();
+          channel.on('close', () => socket.destroy());
+          socket.on('close', () => channel.destroy());
+          socket.pipe(channel).pipe(socket);
+        });
+      });
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as net.AddressInfo).port,
+        get logins() {
+          return logins;
+        },
+        get openConnections() {
+          return clients.size;
+        },
+        forwards,
+        close: () =>
+          new Promise((done) => {
+            clients.forEach((client) => client.end());
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}